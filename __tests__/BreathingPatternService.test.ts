@@ -0,0 +1,71 @@
+/**
+ * @format
+ */
+
+import BreathingPatternService from '../src/services/BreathingPatternService';
+import { BreathingPattern, BUILT_IN_PATTERNS } from '../src/types/breathing';
+
+const pattern = (id: string): BreathingPattern => {
+  const found = BUILT_IN_PATTERNS.find(item => item.id === id);
+  if (!found) throw new Error(`Missing built-in pattern ${id}`);
+  return found;
+};
+
+describe('phaseAt', () => {
+  const box = pattern('box');
+  const relax = pattern('relax-478');
+
+  it('starts on the first phase with its full length remaining', () => {
+    expect(BreathingPatternService.phaseAt(box, 0)).toEqual({
+      cycle: 0,
+      phaseIndex: 0,
+      phase: { kind: 'inhale', seconds: 4 },
+      phaseRemaining: 4,
+    });
+  });
+
+  it('moves to the next phase exactly when the previous one ends', () => {
+    expect(BreathingPatternService.phaseAt(relax, 3.5)).toMatchObject({
+      phaseIndex: 0,
+      phaseRemaining: 0.5,
+    });
+    expect(BreathingPatternService.phaseAt(relax, 4)).toMatchObject({
+      phaseIndex: 1,
+      phase: { kind: 'holdIn' },
+      phaseRemaining: 7,
+    });
+    expect(BreathingPatternService.phaseAt(relax, 12)).toMatchObject({
+      phaseIndex: 2,
+      phase: { kind: 'exhale' },
+      phaseRemaining: 7,
+    });
+  });
+
+  it('counts completed cycles and repeats the pattern', () => {
+    const cycle = BreathingPatternService.cycleSeconds(relax);
+
+    expect(cycle).toBe(19);
+    expect(BreathingPatternService.phaseAt(relax, cycle * 2 + 5)).toMatchObject(
+      {
+        cycle: 2,
+        phaseIndex: 1,
+        phaseRemaining: 6,
+      },
+    );
+  });
+
+  it('handles fractional phase lengths', () => {
+    const coherent = pattern('coherent');
+
+    expect(BreathingPatternService.phaseAt(coherent, 5.5)).toMatchObject({
+      cycle: 0,
+      phaseIndex: 1,
+      phase: { kind: 'exhale' },
+      phaseRemaining: 5.5,
+    });
+    expect(BreathingPatternService.phaseAt(coherent, 11)).toMatchObject({
+      cycle: 1,
+      phaseIndex: 0,
+    });
+  });
+});
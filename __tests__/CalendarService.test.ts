@@ -0,0 +1,1006 @@
+/**
+ * @format
+ */
+
+import { Platform } from 'react-native';
+import RNCalendarEvents, {
+  CalendarEventReadable,
+} from 'react-native-calendar-events';
+import AppEventRegistryService from '../src/services/AppEventRegistryService';
+import CalendarService, {
+  BusyEvent,
+  DEFAULT_MEETING_BUFFERS,
+  FreeSlotConfig,
+  SuggestedSlot,
+  WellnessRecurrence,
+} from '../src/services/CalendarService';
+import ScheduleService from '../src/services/ScheduleService';
+import SessionLogService from '../src/services/SessionLogService';
+import SettingsService from '../src/services/SettingsService';
+import { WellnessMeta } from '../src/services/WellnessMetaService';
+import { DEFAULT_SCHEDULE, WeeklySchedule } from '../src/types/schedule';
+import { DEFAULT_SETTINGS } from '../src/types/settings';
+import { addDays, daypartFor, setHour, startOfDay } from '../src/utils/date';
+
+jest.mock('react-native-calendar-events', () => ({
+  __esModule: true,
+  default: {
+    fetchAllEvents: jest.fn(),
+    findCalendars: jest.fn(),
+    findEventById: jest.fn(),
+    saveEvent: jest.fn(),
+    removeEvent: jest.fn(),
+  },
+}));
+
+const mockedCalendar = RNCalendarEvents as jest.Mocked<typeof RNCalendarEvents>;
+
+// A day safely in the future so "now" never trims the scan window
+const day = startOfDay(addDays(new Date(), 3));
+
+const at = (date: Date, hour: number, minute = 0) =>
+  new Date(setHour(date, hour).getTime() + minute * 60000);
+
+const event = (
+  id: string,
+  start: Date,
+  end: Date,
+  extra: Partial<BusyEvent> = {},
+): BusyEvent => ({
+  id,
+  startDate: start.toISOString(),
+  endDate: end.toISOString(),
+  ...extra,
+});
+
+type NativeCalendar = NonNullable<CalendarEventReadable['calendar']>;
+
+// Native events carry fields the bundled typings omit
+type NativeEvent = CalendarEventReadable & {
+  availability?: string;
+  attendees?: Array<{ name: string; email: string; status?: string }>;
+};
+
+const nativeCalendar = (
+  id: string,
+  extra: Partial<NativeCalendar> = {},
+): NativeCalendar => ({
+  id,
+  title: id,
+  type: 'local',
+  source: 'Default',
+  isPrimary: false,
+  allowsModifications: true,
+  color: '#5B8DEF',
+  allowedAvailabilities: [],
+  ...extra,
+});
+
+const nativeEvent = (
+  id: string,
+  start: Date,
+  end: Date,
+  extra: Partial<NativeEvent> = {},
+): NativeEvent => ({
+  id,
+  title: 'Wellness reset',
+  startDate: start.toISOString(),
+  endDate: end.toISOString(),
+  ...extra,
+});
+
+const config = (overrides: Partial<FreeSlotConfig> = {}): FreeSlotConfig => ({
+  days: 1,
+  minMinutes: 15,
+  maxMinutes: 30,
+  schedule: DEFAULT_SCHEDULE,
+  startDate: day,
+  ...overrides,
+});
+
+const earliestStart = (slots: { startDate: Date }[]) =>
+  Math.min(...slots.map(slot => slot.startDate.getTime()));
+
+const latestEnd = (slots: { endDate: Date }[]) =>
+  Math.max(...slots.map(slot => slot.endDate.getTime()));
+
+const withDay = (weekday: number, start: number, end: number, enabled = true) =>
+  ({
+    ...DEFAULT_SCHEDULE,
+    days: DEFAULT_SCHEDULE.days.map((hours, index) =>
+      index === weekday ? { enabled, start, end } : hours,
+    ),
+  } as WeeklySchedule);
+
+describe('findFreeSlots', () => {
+  it('blocks the morning after an event that runs past midnight', () => {
+    const overnight = event('overnight', at(addDays(day, -1), 21), at(day, 9));
+
+    const slots = CalendarService.findFreeSlots([overnight], config());
+
+    expect(slots.length).toBeGreaterThan(0);
+    expect(earliestStart(slots)).toBeGreaterThanOrEqual(at(day, 9).getTime());
+  });
+
+  it('blocks every day covered by a multi-day event', () => {
+    const conference = event(
+      'conference',
+      at(addDays(day, -1), 8),
+      at(addDays(day, 1), 18),
+    );
+
+    expect(CalendarService.findFreeSlots([conference], config())).toEqual([]);
+  });
+
+  it('only blocks the part of an overnight event that falls on the day', () => {
+    const lateShift = event('late', at(day, 21), at(addDays(day, 1), 2));
+
+    const nextDay = CalendarService.findFreeSlots(
+      [lateShift],
+      config({ startDate: addDays(day, 1) }),
+    );
+
+    expect(earliestStart(nextDay)).toBeLessThan(
+      at(addDays(day, 1), 8).getTime(),
+    );
+  });
+
+  describe('all-day events', () => {
+    const holiday = event('holiday', day, addDays(day, 1), { allDay: true });
+
+    it('are ignored by default', () => {
+      expect(
+        CalendarService.findFreeSlots([holiday], config()).length,
+      ).toBeGreaterThan(0);
+    });
+
+    it('block the whole day when treated as busy', () => {
+      expect(
+        CalendarService.findFreeSlots(
+          [holiday],
+          config({ allDayMode: 'busy' }),
+        ),
+      ).toEqual([]);
+    });
+
+    it('do not spill into the next day when they end at midnight', () => {
+      expect(
+        CalendarService.findFreeSlots(
+          [holiday],
+          config({ allDayMode: 'busy', startDate: addDays(day, 1) }),
+        ).length,
+      ).toBeGreaterThan(0);
+    });
+
+    it('cover the final day when the end is the last moment of it', () => {
+      const trip = event(
+        'trip',
+        day,
+        new Date(addDays(day, 2).getTime() - 1000),
+        { allDay: true },
+      );
+
+      expect(
+        CalendarService.findFreeSlots(
+          [trip],
+          config({ allDayMode: 'busy', startDate: addDays(day, 1) }),
+        ),
+      ).toEqual([]);
+    });
+
+    it('suppress suggestions when treated as out of office', () => {
+      expect(
+        CalendarService.findFreeSlots(
+          [holiday],
+          config({ allDayMode: 'outOfOffice' }),
+        ),
+      ).toEqual([]);
+      expect(CalendarService.isOutOfOffice([holiday], day, 'outOfOffice')).toBe(
+        true,
+      );
+      expect(CalendarService.isOutOfOffice([holiday], day, 'busy')).toBe(false);
+    });
+  });
+
+  describe('weekly schedule', () => {
+    it('skips weekdays that are turned off', () => {
+      const schedule = withDay(day.getDay(), 7 * 60, 22 * 60, false);
+
+      expect(CalendarService.findFreeSlots([], config({ schedule }))).toEqual(
+        [],
+      );
+    });
+
+    it('uses minute-precision working hours for the weekday', () => {
+      const schedule = withDay(day.getDay(), 8 * 60 + 30, 17 * 60 + 45);
+
+      const slots = CalendarService.findFreeSlots([], config({ schedule }));
+
+      expect(earliestStart(slots)).toBe(at(day, 8, 30).getTime());
+      expect(latestEnd(slots)).toBeLessThanOrEqual(at(day, 17, 45).getTime());
+    });
+
+    it('leaves enabled quiet periods free', () => {
+      const schedule: WeeklySchedule = {
+        ...withDay(day.getDay(), 11 * 60, 14 * 60),
+        quietPeriods: [{ id: 'lunch', enabled: true, start: 720, end: 780 }],
+      };
+
+      const slots = CalendarService.findFreeSlots([], config({ schedule }));
+
+      expect(slots.length).toBeGreaterThan(0);
+      slots.forEach(slot => {
+        expect(
+          slot.endDate <= at(day, 12) || slot.startDate >= at(day, 13),
+        ).toBe(true);
+      });
+    });
+  });
+
+  describe('overnight quiet periods', () => {
+    const schedule: WeeklySchedule = {
+      ...withDay(day.getDay(), 6 * 60, 24 * 60),
+      quietPeriods: [{ id: 'night', enabled: true, start: 1320, end: 480 }],
+    };
+
+    it('keep both the late evening and the early morning free', () => {
+      const slots = CalendarService.findFreeSlots([], config({ schedule }));
+
+      expect(earliestStart(slots)).toBeGreaterThanOrEqual(at(day, 8).getTime());
+      expect(latestEnd(slots)).toBeLessThanOrEqual(at(day, 22).getTime());
+    });
+
+    it('are accepted by schedule validation', () => {
+      expect(ScheduleService.isValidSchedule(schedule)).toBe(true);
+      expect(
+        ScheduleService.isValidQuietRange({ start: 1320, end: 1320 }),
+      ).toBe(false);
+    });
+  });
+
+  describe('daylight saving changes', () => {
+    it('keep working hours and quiet periods on the local clock', () => {
+      const schedule: WeeklySchedule = {
+        ...DEFAULT_SCHEDULE,
+        quietPeriods: [{ id: 'lunch', enabled: true, start: 720, end: 780 }],
+      };
+
+      [new Date(2026, 2, 8), new Date(2026, 10, 1)].forEach(changeDay => {
+        const windows = ScheduleService.activeWindows(schedule, changeDay);
+
+        expect(
+          windows.map(window => [
+            window.start.getHours(),
+            window.end.getHours(),
+          ]),
+        ).toEqual([
+          [7, 12],
+          [13, 22],
+        ]);
+      });
+    });
+  });
+
+  describe('ranking', () => {
+    it('favours a break after a long run of meetings, with room to breathe', () => {
+      const meetings = [
+        event('planning', at(day, 8), at(day, 9, 30)),
+        event('review', at(day, 9, 30), at(day, 11)),
+        event('sync', at(day, 12, 30), at(day, 13)),
+      ];
+
+      const [best] = CalendarService.findFreeSlots(meetings, config());
+
+      expect(best.startDate).toEqual(at(day, 11, 15));
+    });
+
+    it('favours preferred dayparts', () => {
+      const [best] = CalendarService.findFreeSlots(
+        [],
+        config({ preferredDayparts: ['evening'] }),
+      );
+
+      expect(daypartFor(best.startDate)).toBe('evening');
+    });
+
+    it('returns the best scores first without overlaps', () => {
+      const slots = CalendarService.findFreeSlots(
+        [event('sync', at(day, 12), at(day, 13))],
+        config({ preferredDayparts: ['afternoon'] }),
+      );
+
+      const scores = slots.map(slot => slot.score ?? 0);
+      expect(scores).toEqual([...scores].sort((a, b) => b - a));
+      slots.forEach((slot, index) =>
+        slots.slice(index + 1).forEach(other => {
+          expect(
+            slot.endDate <= other.startDate || other.endDate <= slot.startDate,
+          ).toBe(true);
+        }),
+      );
+    });
+  });
+
+  describe('settings', () => {
+    afterEach(() => SettingsService.resetSettings());
+
+    it('keeps at most the max slots setting', async () => {
+      expect(CalendarService.findFreeSlots([], config())).toHaveLength(
+        DEFAULT_SETTINGS.maxSlots,
+      );
+
+      await SettingsService.saveSettings({
+        ...DEFAULT_SETTINGS,
+        maxSlots: 5,
+        suggestionsPerDay: 3,
+      });
+
+      expect(CalendarService.findFreeSlots([], config())).toHaveLength(5);
+    });
+  });
+});
+
+describe('hasConflict', () => {
+  const holiday = event('holiday', day, addDays(day, 1), { allDay: true });
+
+  it('detects overlap with an event that started the day before', () => {
+    const overnight = event('overnight', at(addDays(day, -1), 22), at(day, 8));
+
+    expect(
+      CalendarService.hasConflict([overnight], at(day, 7), at(day, 7, 30)),
+    ).toBe(true);
+    expect(
+      CalendarService.hasConflict([overnight], at(day, 8), at(day, 8, 30)),
+    ).toBe(false);
+  });
+
+  it('follows the all-day mode', () => {
+    const start = at(day, 12);
+    const end = at(day, 12, 30);
+
+    expect(CalendarService.hasConflict([holiday], start, end)).toBe(false);
+    expect(
+      CalendarService.hasConflict([holiday], start, end, {
+        allDayMode: 'busy',
+      }),
+    ).toBe(true);
+    expect(
+      CalendarService.hasConflict([holiday], start, end, {
+        allDayMode: 'outOfOffice',
+      }),
+    ).toBe(false);
+  });
+});
+
+describe('meeting buffers', () => {
+  const buffers = DEFAULT_MEETING_BUFFERS;
+
+  it('pads short meetings with the before and after buffers', () => {
+    const sync = event('sync', at(day, 10), at(day, 10, 30));
+    const conflicts = (start: Date, end: Date) =>
+      CalendarService.hasConflict([sync], start, end, { buffers });
+
+    expect(conflicts(at(day, 9, 45), at(day, 9, 56))).toBe(true);
+    expect(conflicts(at(day, 9, 40), at(day, 9, 55))).toBe(false);
+    expect(conflicts(at(day, 10, 30), at(day, 10, 45))).toBe(true);
+    expect(conflicts(at(day, 10, 40), at(day, 10, 55))).toBe(false);
+  });
+
+  it('keeps the longer after buffer once a meeting is long enough', () => {
+    const workshop = event(
+      'workshop',
+      at(day, 9),
+      at(day, 9, buffers.longMeetingMinutes),
+    );
+    const end = new Date(workshop.endDate);
+    const after = (minutes: number) =>
+      new Date(end.getTime() + minutes * 60000);
+
+    expect(
+      CalendarService.hasConflict([workshop], after(10), after(25), {
+        buffers,
+      }),
+    ).toBe(true);
+    expect(
+      CalendarService.hasConflict(
+        [workshop],
+        after(buffers.afterLongMinutes),
+        after(buffers.afterLongMinutes + 15),
+        { buffers },
+      ),
+    ).toBe(false);
+  });
+
+  it('leaves wellness events the app created unpadded', () => {
+    const reset = event('reset', at(day, 10), at(day, 10, 15), {
+      isAppCreated: true,
+    });
+
+    expect(
+      CalendarService.hasConflict([reset], at(day, 10, 15), at(day, 10, 30), {
+        buffers,
+      }),
+    ).toBe(false);
+  });
+
+  it('keeps suggestions clear of the buffer after a long meeting', () => {
+    const offsite = event('offsite', at(day, 0), at(day, 10));
+
+    const slots = CalendarService.findFreeSlots([offsite], config({ buffers }));
+
+    expect(earliestStart(slots)).toBeGreaterThanOrEqual(
+      at(day, 10, buffers.afterLongMinutes).getTime(),
+    );
+  });
+});
+
+describe('availability', () => {
+  const start = at(day, 10);
+  const end = at(day, 10, 30);
+
+  it('ignores events shown as free and invitations the user declined', () => {
+    const free = event('free', at(day, 10), at(day, 11), {
+      availability: 'free',
+    });
+    const declined = event('declined', at(day, 10), at(day, 11), {
+      attendeeStatus: 'declined',
+    });
+
+    expect(CalendarService.hasConflict([free, declined], start, end)).toBe(
+      false,
+    );
+  });
+
+  it('treats tentative events as busy unless configured otherwise', () => {
+    const tentative = event('tentative', at(day, 10), at(day, 11), {
+      availability: 'tentative',
+    });
+
+    expect(CalendarService.hasConflict([tentative], start, end)).toBe(true);
+    expect(
+      CalendarService.hasConflict([tentative], start, end, {
+        tentativeIsBusy: false,
+      }),
+    ).toBe(false);
+  });
+});
+
+describe('fetchBusyEvents', () => {
+  beforeEach(() => {
+    mockedCalendar.findCalendars.mockResolvedValue([]);
+  });
+
+  it('keeps the all-day flag from the native event', async () => {
+    mockedCalendar.fetchAllEvents.mockResolvedValue([
+      nativeEvent('holiday', day, addDays(day, 1), {
+        title: 'Holiday',
+        allDay: true,
+      }),
+      nativeEvent('standup', at(day, 9), at(day, 9, 15), { title: 'Standup' }),
+    ]);
+
+    const events = await CalendarService.fetchBusyEvents(1, {
+      startDate: day,
+    });
+
+    expect(events.map(item => [item.id, item.allDay])).toEqual([
+      ['holiday', true],
+      ['standup', false],
+    ]);
+  });
+
+  it("reads availability and the user's own attendee status", async () => {
+    mockedCalendar.fetchAllEvents.mockResolvedValue([
+      nativeEvent('review', at(day, 11), at(day, 12), {
+        title: 'Review',
+        availability: 'tentative',
+        calendar: nativeCalendar('work', {
+          title: 'Work',
+          source: 'me@example.com',
+        }),
+        attendees: [
+          { name: 'Host', email: 'host@example.com', status: '1' },
+          { name: 'Me', email: 'Me@Example.com', status: '2' },
+        ],
+      }),
+    ]);
+
+    const [review] = await CalendarService.fetchBusyEvents(1, {
+      startDate: day,
+    });
+
+    expect(review.availability).toBe('tentative');
+    expect(review.attendeeStatus).toBe('declined');
+  });
+
+  it('reads metadata the user typed around and keeps it app-created', async () => {
+    mockedCalendar.fetchAllEvents.mockResolvedValue([
+      nativeEvent('reset', at(day, 10), at(day, 10, 15), {
+        title: 'My break',
+        notes:
+          'WellnessMeta: {"v":1,"exerciseId":"box-breathing","userLevels":{"energy":"high"}} moved to 10',
+      }),
+      nativeEvent('garbled', at(day, 15), at(day, 15, 15), {
+        title: 'Another break',
+        notes: 'WellnessMeta:{"exerciseId":"box-br',
+      }),
+    ]);
+
+    const [reset, garbled] = await CalendarService.fetchBusyEvents(1, {
+      startDate: day,
+    });
+
+    expect(reset).toMatchObject({
+      isAppCreated: true,
+      exerciseId: 'box-breathing',
+    });
+    expect(reset.userLevels).toBeUndefined();
+    expect(garbled.isAppCreated).toBe(true);
+  });
+});
+
+describe('addWellnessEvent', () => {
+  const slot: SuggestedSlot = {
+    id: 'slot-1',
+    startDate: at(day, 10),
+    endDate: at(day, 10, 15),
+    durationMinutes: 15,
+    status: 'available',
+  };
+
+  beforeEach(() => {
+    mockedCalendar.saveEvent.mockClear().mockResolvedValue('reset-1');
+  });
+
+  const savedRule = async (recurrence?: WellnessRecurrence) => {
+    await CalendarService.addWellnessEvent(slot, {
+      calendarId: 'wellness',
+      recurrence,
+    });
+    return mockedCalendar.saveEvent.mock.calls[0][1].recurrenceRule;
+  };
+
+  it('saves weekly resets on the chosen weekdays for a number of times', async () => {
+    expect(
+      await savedRule({
+        frequency: 'weekly',
+        daysOfWeek: ['MO', 'WE', 'FR'],
+        count: 6,
+      }),
+    ).toEqual({
+      frequency: 'weekly',
+      daysOfWeek: ['MO', 'WE', 'FR'],
+      occurrence: 6,
+    });
+  });
+
+  it('ends on the until date, even when a count is also set', async () => {
+    const until = addDays(day, 14).toISOString();
+
+    expect(await savedRule({ frequency: 'daily', until, count: 3 })).toEqual({
+      frequency: 'daily',
+      endDate: until,
+    });
+  });
+
+  it('ignores weekdays on daily resets and never ends without a limit', async () => {
+    expect(await savedRule({ frequency: 'daily', daysOfWeek: ['SA'] })).toEqual(
+      { frequency: 'daily' },
+    );
+  });
+
+  it('saves one-off resets without a rule', async () => {
+    expect(await savedRule()).toBeUndefined();
+  });
+
+  it('saves resets as free when they are hidden from other apps', async () => {
+    const preferences = await CalendarService.loadCalendarPreferences();
+    await CalendarService.saveCalendarPreferences({
+      ...preferences,
+      resetsShowAsFree: true,
+    });
+
+    await CalendarService.addWellnessEvent(slot, { calendarId: 'wellness' });
+    await CalendarService.saveCalendarPreferences(preferences);
+
+    expect(mockedCalendar.saveEvent.mock.calls[0][1]).toMatchObject({
+      availability: 'free',
+    });
+    expect(
+      CalendarService.hasConflict(
+        [
+          event('reset', slot.startDate, slot.endDate, {
+            isAppCreated: true,
+            availability: 'free',
+          }),
+        ],
+        slot.startDate,
+        slot.endDate,
+      ),
+    ).toBe(true);
+  });
+});
+
+describe('rescheduleWellnessEvent', () => {
+  const meta: WellnessMeta = {
+    exerciseId: 'box-breathing',
+    exerciseMood: 'Stressed',
+    slotId: 'slot-1',
+    userMood: 'Stressed',
+    userLevels: { energy: 2, stress: 4 },
+  };
+  const notes = `Bring water\nWellnessMeta:${JSON.stringify(meta)}`;
+  const reset = event('reset-1', at(day, 10), at(day, 10, 15), {
+    isAppCreated: true,
+    slotId: 'slot-1',
+  });
+
+  beforeEach(() => {
+    mockedCalendar.findEventById.mockResolvedValue(
+      nativeEvent('reset-1', at(day, 10), at(day, 10, 15), {
+        notes,
+        calendar: nativeCalendar('wellness'),
+      }),
+    );
+    mockedCalendar.saveEvent.mockClear().mockResolvedValue('reset-1');
+  });
+
+  it('updates the same event and keeps its metadata and notes', async () => {
+    await CalendarService.rescheduleWellnessEvent(reset, {
+      startDate: at(day, 14),
+      endDate: at(day, 14, 30),
+      exerciseId: 'light-stretch',
+      exerciseMood: 'Tired',
+    });
+
+    const [title, details, options] = mockedCalendar.saveEvent.mock.calls[0];
+    expect(title).toBe('Wellness reset');
+    expect(options).toBeUndefined();
+    expect(details).toMatchObject({
+      id: 'reset-1',
+      calendarId: 'wellness',
+      startDate: at(day, 14).toISOString(),
+      endDate: at(day, 14, 30).toISOString(),
+    });
+    const [userNote, metaLine] = (details.notes as string).split('\n');
+    expect(userNote).toBe('Bring water');
+    expect(JSON.parse(metaLine.replace('WellnessMeta:', ''))).toEqual({
+      ...meta,
+      v: 1,
+      exerciseId: 'light-stretch',
+      exerciseMood: 'Tired',
+    });
+  });
+
+  describe('one occurrence of a recurring event', () => {
+    const seriesNotes = `Bring water\nWellnessMeta:${JSON.stringify({
+      ...meta,
+      seriesId: 'series-1',
+      recurrence: { frequency: 'daily', interval: 1 },
+    })}`;
+    const occurrence = event('reset-1', at(day, 10), at(day, 10, 15), {
+      isAppCreated: true,
+      seriesId: 'series-1',
+      occurrenceDate: at(day, 10).toISOString(),
+    });
+    const changes = { startDate: at(day, 14), endDate: at(day, 14, 15) };
+
+    beforeEach(() => {
+      mockedCalendar.findEventById.mockResolvedValue(
+        nativeEvent(
+          'reset-1',
+          at(addDays(day, -2), 10),
+          at(addDays(day, -2), 10, 15),
+          { notes: seriesNotes, calendar: nativeCalendar('wellness') },
+        ),
+      );
+      mockedCalendar.removeEvent.mockClear().mockResolvedValue(true);
+      mockedCalendar.saveEvent.mockResolvedValue('reset-2');
+    });
+
+    it('is taken out of the series and saved on its own on iOS', async () => {
+      const id = await CalendarService.rescheduleWellnessEvent(
+        occurrence,
+        changes,
+      );
+
+      expect(id).toBe('reset-2');
+      expect(mockedCalendar.removeEvent).toHaveBeenCalledWith('reset-1', {
+        exceptionDate: occurrence.occurrenceDate,
+        futureEvents: false,
+      });
+      const [, details, options] = mockedCalendar.saveEvent.mock.calls[0];
+      expect(options).toBeUndefined();
+      expect(details).toMatchObject({
+        calendarId: 'wellness',
+        startDate: at(day, 14).toISOString(),
+        endDate: at(day, 14, 15).toISOString(),
+      });
+      expect(details.recurrenceRule).toBeUndefined();
+      const [, metaLine] = (details.notes as string).split('\n');
+      expect(JSON.parse(metaLine.replace('WellnessMeta:', ''))).toEqual({
+        ...meta,
+        v: 1,
+      });
+    });
+
+    it('is moved in place on Android', async () => {
+      const os = jest.replaceProperty(Platform, 'OS', 'android');
+
+      await CalendarService.rescheduleWellnessEvent(occurrence, changes);
+      os.restore();
+
+      expect(mockedCalendar.removeEvent).not.toHaveBeenCalled();
+      const [, details, options] = mockedCalendar.saveEvent.mock.calls[0];
+      expect(options).toEqual({
+        exceptionDate: occurrence.occurrenceDate,
+        futureEvents: false,
+      });
+      expect(details).toMatchObject({
+        id: 'reset-1',
+        startDate: at(day, 14).toISOString(),
+      });
+    });
+  });
+
+  it('moves a logged outcome to the new time', async () => {
+    await SessionLogService.recordOutcome(reset, 'completed');
+
+    await CalendarService.rescheduleWellnessEvent(reset, {
+      startDate: at(day, 16),
+      endDate: at(day, 16, 15),
+    });
+
+    const outcomes = await SessionLogService.loadOutcomes();
+    expect(outcomes[SessionLogService.outcomeKey(reset)]).toBeUndefined();
+    expect(
+      outcomes[
+        SessionLogService.outcomeKey({
+          id: 'reset-1',
+          startDate: at(day, 16).toISOString(),
+        })
+      ],
+    ).toMatchObject({ status: 'completed', minutes: 15 });
+  });
+
+  it('keeps a mood saved while the outcome moves', async () => {
+    await SessionLogService.recordOutcome(reset, 'completed');
+
+    await Promise.all([
+      SessionLogService.recordMoodAfter(reset, 'Calm'),
+      SessionLogService.moveOutcomes(reset, {
+        id: 'reset-1',
+        startDate: at(day, 18).toISOString(),
+      }),
+    ]);
+
+    const outcomes = await SessionLogService.loadOutcomes();
+    expect(
+      outcomes[
+        SessionLogService.outcomeKey({
+          id: 'reset-1',
+          startDate: at(day, 18).toISOString(),
+        })
+      ],
+    ).toMatchObject({ status: 'completed', moodAfter: 'Calm' });
+  });
+});
+
+describe('removeWellnessEvent', () => {
+  const meta = {
+    exerciseId: 'box-breathing',
+    exerciseMood: 'Stressed',
+    slotId: 'slot-1',
+    seriesId: 'series-1',
+    recurrence: { frequency: 'daily', interval: 1 },
+  };
+  const notes = `Bring water\nWellnessMeta:${JSON.stringify(meta)}`;
+  const occurrence = event('reset-1', at(day, 10), at(day, 10, 15), {
+    isAppCreated: true,
+    seriesId: 'series-1',
+    occurrenceDate: at(day, 10).toISOString(),
+  });
+
+  beforeEach(() => {
+    mockedCalendar.findEventById.mockResolvedValue(
+      nativeEvent(
+        'reset-1',
+        at(addDays(day, -2), 10),
+        at(addDays(day, -2), 10, 15),
+        {
+          notes,
+          calendar: nativeCalendar('wellness'),
+          alarms: [{ date: at(addDays(day, -2), 9, 55).toISOString() }],
+        },
+      ),
+    );
+    mockedCalendar.removeEvent.mockResolvedValue(true);
+    mockedCalendar.saveEvent.mockClear().mockResolvedValue('reset-2');
+  });
+
+  it('restores a removed occurrence as a standalone copy', async () => {
+    const removed = await CalendarService.removeWellnessEvent(occurrence, true);
+    expect(mockedCalendar.removeEvent).toHaveBeenCalledWith('reset-1', {
+      exceptionDate: occurrence.occurrenceDate,
+      futureEvents: false,
+    });
+
+    await CalendarService.restoreEvent(removed);
+    const [title, details] = mockedCalendar.saveEvent.mock.calls[0];
+    expect(title).toBe('Wellness reset');
+    expect(details).toMatchObject({
+      calendarId: 'wellness',
+      startDate: occurrence.startDate,
+      endDate: occurrence.endDate,
+      alarms: [{ date: at(addDays(day, -2), 9, 55).toISOString() }],
+    });
+    expect(details.recurrenceRule).toBeUndefined();
+    const [userNote, metaLine] = (details.notes as string).split('\n');
+    expect(userNote).toBe('Bring water');
+    expect(JSON.parse(metaLine.replace('WellnessMeta:', ''))).toEqual({
+      v: 1,
+      exerciseId: 'box-breathing',
+      exerciseMood: 'Stressed',
+      slotId: 'slot-1',
+    });
+  });
+
+  it('keeps the outcome logged for a restored occurrence', async () => {
+    await SessionLogService.recordOutcome(occurrence, 'skipped');
+
+    const removed = await CalendarService.removeWellnessEvent(occurrence, true);
+    await CalendarService.restoreEvent(removed);
+
+    const outcomes = await SessionLogService.loadOutcomes();
+    expect(outcomes[SessionLogService.outcomeKey(occurrence)]).toBeUndefined();
+    expect(
+      outcomes[SessionLogService.outcomeKey({ ...occurrence, id: 'reset-2' })],
+    ).toMatchObject({ status: 'skipped' });
+  });
+
+  it('fails instead of claiming success when the calendar refuses', async () => {
+    mockedCalendar.removeEvent.mockResolvedValue(false);
+    await expect(
+      CalendarService.removeWellnessEvent(occurrence, false),
+    ).rejects.toThrow();
+  });
+});
+
+describe('migrateWellnessEvents', () => {
+  beforeEach(() => {
+    mockedCalendar.saveEvent.mockClear().mockResolvedValue('migrated');
+  });
+
+  it('rewrites outdated metadata and keeps fields from newer versions', async () => {
+    mockedCalendar.fetchAllEvents.mockResolvedValue([
+      nativeEvent('legacy', at(day, 10), at(day, 10, 15), {
+        notes:
+          'Bring water\nWellnessMeta:{"exercise":"Box Breathing","userMood":"","future":{"a":1}}',
+        calendar: nativeCalendar('wellness'),
+      }),
+      nativeEvent('current', at(day, 12), at(day, 12, 15), {
+        notes: 'WellnessMeta:{"v":1,"exerciseId":"box-breathing"}',
+      }),
+      nativeEvent('garbled', at(day, 15), at(day, 15, 15), {
+        notes: 'WellnessMeta:{"exerciseId":',
+      }),
+    ]);
+
+    const report = await CalendarService.migrateWellnessEvents(1, {
+      startDate: day,
+    });
+
+    expect(report).toEqual({
+      checked: 3,
+      migrated: 1,
+      unreadable: 1,
+      failed: 0,
+      dropped: ['userMood'],
+    });
+    expect(mockedCalendar.saveEvent).toHaveBeenCalledTimes(1);
+    const [, details] = mockedCalendar.saveEvent.mock.calls[0];
+    expect(details).toMatchObject({ id: 'legacy', calendarId: 'wellness' });
+    const [userNote, metaLine] = (details.notes as string).split('\n');
+    expect(userNote).toBe('Bring water');
+    expect(JSON.parse(metaLine.replace('WellnessMeta:', ''))).toEqual({
+      v: 1,
+      future: { a: 1 },
+      exerciseId: 'box-breathing',
+    });
+  });
+});
+
+describe('app event ownership', () => {
+  beforeEach(async () => {
+    mockedCalendar.findCalendars.mockResolvedValue([]);
+    await AppEventRegistryService.loadRegistry();
+    await AppEventRegistryService.unregisterEvents(
+      Object.keys(AppEventRegistryService.listEntries()),
+    );
+  });
+
+  it('never loses registered ids to a load that is still in flight', async () => {
+    const entry = {
+      startDate: at(day, 10).toISOString(),
+      endDate: at(day, 10, 15).toISOString(),
+    };
+    await AppEventRegistryService.registerEvents({ first: entry });
+
+    const staleLoad = AppEventRegistryService.loadRegistry();
+    await AppEventRegistryService.registerEvents({ second: entry });
+    await staleLoad;
+
+    expect(AppEventRegistryService.isRegistered('first')).toBe(true);
+    expect(AppEventRegistryService.isRegistered('second')).toBe(true);
+    expect(
+      Object.keys(await AppEventRegistryService.loadRegistry()).sort(),
+    ).toEqual(['first', 'second']);
+  });
+
+  it('trusts the registry, not titles or notes', async () => {
+    await AppEventRegistryService.registerEvents({
+      renamed: {
+        startDate: at(day, 10).toISOString(),
+        endDate: at(day, 10, 15).toISOString(),
+      },
+    });
+    mockedCalendar.fetchAllEvents.mockResolvedValue([
+      nativeEvent('renamed', at(day, 10), at(day, 10, 15), {
+        title: 'Breathing with Sam',
+      }),
+      nativeEvent('lookalike', at(day, 11), at(day, 12), {
+        notes: 'Demo of the Wellness app',
+      }),
+    ]);
+
+    const events = await CalendarService.fetchBusyEvents(1, {
+      startDate: day,
+    });
+
+    expect(events.map(item => [item.id, item.isAppCreated])).toEqual([
+      ['renamed', true],
+      ['lookalike', false],
+    ]);
+  });
+
+  it('reports resets deleted or moved in another app', async () => {
+    const entry = (hour: number) => ({
+      startDate: at(day, hour).toISOString(),
+      endDate: at(day, hour, 15).toISOString(),
+    });
+    await AppEventRegistryService.registerEvents({
+      gone: entry(9),
+      moved: entry(10),
+      elsewhere: entry(11), // In a calendar that was not fetched
+      later: entry(11),
+    });
+    const native: Record<string, CalendarEventReadable> = {
+      elsewhere: nativeEvent('elsewhere', at(day, 11), at(day, 11, 15)),
+      // Moved to the evening, off the fetched range
+      later: nativeEvent('later', at(day, 20), at(day, 20, 15)),
+    };
+    mockedCalendar.findEventById.mockImplementation(
+      async (id: string) => native[id] ?? null,
+    );
+    const fetched = [
+      event('moved', at(day, 14), at(day, 14, 15), { isAppCreated: true }),
+      event('adopted', at(day, 16), at(day, 16, 15), { isAppCreated: true }),
+    ];
+
+    const report = await CalendarService.reconcileAppEvents(
+      fetched,
+      day,
+      at(day, 18),
+    );
+
+    expect(report).toEqual({ deleted: ['gone'], modified: ['moved', 'later'] });
+    const entries = AppEventRegistryService.listEntries();
+    expect(Object.keys(entries).sort()).toEqual([
+      'adopted',
+      'elsewhere',
+      'later',
+      'moved',
+    ]);
+    expect(entries.moved.startDate).toBe(at(day, 14).toISOString());
+  });
+});
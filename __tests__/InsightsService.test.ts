@@ -0,0 +1,137 @@
+/**
+ * @format
+ */
+
+import { BusyEvent } from '../src/services/CalendarService';
+import InsightsService from '../src/services/InsightsService';
+import { addDays, setHour, startOfDay } from '../src/utils/date';
+
+const now = new Date(2026, 2, 11, 20);
+
+const session = (
+  id: string,
+  daysAgo: number,
+  hour: number,
+  minutes: number,
+  extra: Partial<BusyEvent> = {},
+): BusyEvent => {
+  const start = setHour(addDays(startOfDay(now), -daysAgo), hour);
+  return {
+    id,
+    startDate: start.toISOString(),
+    endDate: new Date(start.getTime() + minutes * 60000).toISOString(),
+    isAppCreated: true,
+    ...extra,
+  };
+};
+
+const events: BusyEvent[] = [
+  session('box-1', 5, 9, 15, {
+    exerciseId: 'box-breathing',
+    exerciseMood: 'Stressed',
+    userMood: 'Stressed',
+    outcome: {
+      status: 'completed',
+      minutes: 15,
+      recordedAt: now.toISOString(),
+      moodAfter: 'Calm',
+    },
+  }),
+  session('box-2', 1, 14, 30, {
+    exerciseId: 'box-breathing',
+    exerciseMood: 'Calm',
+    userMood: 'Stressed',
+    outcome: {
+      status: 'partial',
+      minutes: 10,
+      recordedAt: now.toISOString(),
+      moodAfter: 'Calm',
+    },
+  }),
+  session('stretch', 10, 19, 20, {
+    exerciseId: 'light-stretch',
+    exerciseMood: 'Tired',
+    userMood: 'Tired',
+    outcome: { status: 'skipped', minutes: 0, recordedAt: now.toISOString() },
+  }),
+  session('standup', 2, 9, 15, { isAppCreated: false }),
+  session('too-old', 20, 9, 15, { exerciseId: 'breathwork' }),
+];
+
+describe('computeInsights', () => {
+  const insights = InsightsService.computeInsights(events, 2, now);
+
+  it('sums scheduled and completed minutes per week, oldest first', () => {
+    expect(insights.weeks).toEqual([
+      {
+        weekStart: addDays(startOfDay(now), -13),
+        scheduledMinutes: 20,
+        completedMinutes: 0,
+      },
+      {
+        weekStart: addDays(startOfDay(now), -6),
+        scheduledMinutes: 45,
+        completedMinutes: 25,
+      },
+    ]);
+    expect(insights.totalScheduledMinutes).toBe(65);
+    expect(insights.totalCompletedMinutes).toBe(25);
+  });
+
+  it('ranks exercises by the mood they were picked for', () => {
+    expect(insights.topExercisesByMood).toEqual({
+      Stressed: [{ exerciseId: 'box-breathing', count: 2 }],
+      Tired: [{ exerciseId: 'light-stretch', count: 1 }],
+    });
+  });
+
+  it('reports how often the exercise mood differs from the user mood', () => {
+    expect(insights.moodMismatchRate).toBeCloseTo(1 / 3);
+  });
+
+  it('counts sessions per daypart', () => {
+    expect(insights.daypartCounts).toEqual({
+      morning: 1,
+      afternoon: 1,
+      evening: 1,
+    });
+  });
+
+  it('compares moods before and after rated sessions', () => {
+    expect(insights.exerciseEffects).toEqual([
+      {
+        exerciseId: 'box-breathing',
+        rated: 2,
+        shifts: [{ from: 'Stressed', to: 'Calm', count: 2 }],
+      },
+    ]);
+  });
+
+  it('keeps weeks on calendar days across a DST change', () => {
+    // Clocks move forward on March 8, 2026 in the test time zone
+    const later = new Date(2026, 2, 18, 20);
+    const start = new Date(2026, 2, 12, 9);
+    const { weeks } = InsightsService.computeInsights(
+      [
+        {
+          id: 'after-change',
+          startDate: start.toISOString(),
+          endDate: new Date(start.getTime() + 15 * 60000).toISOString(),
+          isAppCreated: true,
+        },
+      ],
+      2,
+      later,
+    );
+
+    expect(weeks.map(week => week.scheduledMinutes)).toEqual([0, 15]);
+  });
+
+  it('returns empty figures without sessions', () => {
+    const empty = InsightsService.computeInsights([], 1, now);
+
+    expect(empty.totalScheduledMinutes).toBe(0);
+    expect(empty.moodMismatchRate).toBe(0);
+    expect(empty.exerciseEffects).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * @format
+ */
+
+import MoodService from '../src/services/MoodService';
+import { MOOD_LIST } from '../src/types/mood';
+
+describe('moodForLevels', () => {
+  it("maps every mood's own levels back to that mood", () => {
+    MOOD_LIST.forEach(theme => {
+      expect(MoodService.moodForLevels(theme.levels)).toBe(theme.key);
+    });
+  });
+
+  it('picks the nearest mood on the energy/stress pad', () => {
+    expect(MoodService.moodForLevels({ energy: 1, stress: 1 })).toBe('Tired');
+    expect(MoodService.moodForLevels({ energy: 5, stress: 5 })).toBe(
+      'Stressed',
+    );
+    expect(MoodService.moodForLevels({ energy: 3, stress: 3 })).toBe('Focused');
+  });
+
+  it('only chooses among the candidate moods', () => {
+    const candidates = MoodService.visibleMoods(['Tired']);
+
+    expect(
+      MoodService.moodForLevels({ energy: 1, stress: 1 }, candidates),
+    ).toBe('Calm');
+  });
+
+  it('falls back to every mood when there are no candidates', () => {
+    expect(MoodService.moodForLevels({ energy: 1, stress: 1 }, [])).toBe(
+      'Tired',
+    );
+  });
+});
@@ -1,3 +1,5 @@
 module.exports = {
   preset: 'react-native',
+  globalSetup: './jest.globalSetup.js',
+  setupFiles: ['./jest.setup.js'],
 };
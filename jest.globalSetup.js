@@ -0,0 +1,4 @@
+// Tests run in a time zone with daylight saving, so DST change days are covered
+module.exports = () => {
+  process.env.TZ = 'America/New_York';
+};
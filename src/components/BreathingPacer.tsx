@@ -0,0 +1,132 @@
+/**
+ * BreathingPacer Component
+ *
+ * Animated guide for a breathing pattern:
+ * - Orb grows on inhale, shrinks on exhale and rests during holds
+ * - Phase label with a per-phase countdown
+ * - Completed-cycle counter
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import Animated, {
+  cancelAnimation,
+  Easing,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from 'react-native-reanimated';
+
+import * as CONSTS from '../constants/app';
+import { COLORS } from '../constants/colors';
+import { STRINGS } from '../constants/strings';
+import BreathingPatternService from '../services/BreathingPatternService';
+import { BreathingPattern, BreathPhaseKind } from '../types/breathing';
+import { MOOD_THEMES, MoodKey } from '../types/mood';
+
+type Props = {
+  pattern: BreathingPattern;
+  running: boolean;
+  mood: MoodKey;
+};
+
+const PHASE_LABELS: Record<BreathPhaseKind, string> = {
+  inhale: STRINGS.BREATHING.PHASE_INHALE,
+  holdIn: STRINGS.BREATHING.PHASE_HOLD_IN,
+  exhale: STRINGS.BREATHING.PHASE_EXHALE,
+  holdOut: STRINGS.BREATHING.PHASE_HOLD_OUT,
+};
+
+const BreathingPacer = ({ pattern, running, mood }: Props) => {
+  const theme = MOOD_THEMES[mood];
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const size = useSharedValue(0); // 0 = empty lungs, 1 = full
+
+  // Start over when the pattern changes
+  useEffect(() => {
+    setElapsedMs(0);
+    size.value = 0;
+  }, [pattern.id, size]);
+
+  // Advance the pacer clock while running
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => {
+      setElapsedMs(prev => prev + CONSTS.BREATHING.TICK_MS);
+    }, CONSTS.BREATHING.TICK_MS);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  const position = BreathingPatternService.phaseAt(pattern, elapsedMs / 1000);
+  const { cycle, phaseIndex, phase } = position;
+  const phaseRemaining = useRef(position.phaseRemaining);
+  phaseRemaining.current = position.phaseRemaining;
+
+  // Animate once per phase (or on resume), over the time left in it
+  useEffect(() => {
+    if (!running) {
+      cancelAnimation(size);
+      return;
+    }
+    if (phase.kind === 'holdIn' || phase.kind === 'holdOut') return;
+    size.value = withTiming(phase.kind === 'inhale' ? 1 : 0, {
+      duration: phaseRemaining.current * 1000,
+      easing: Easing.inOut(Easing.sin),
+    });
+  }, [running, cycle, phaseIndex, phase.kind, size]);
+
+  const orbStyle = useAnimatedStyle(() => ({
+    transform: [{ scale: 0.6 + 0.4 * size.value }],
+    opacity: 0.55 + 0.35 * size.value,
+  }));
+
+  return (
+    <View style={styles.container}>
+      <Animated.View
+        style={[
+          styles.orb,
+          { backgroundColor: theme.accent, shadowColor: theme.shadow },
+          orbStyle,
+        ]}
+      />
+      <Text style={[styles.phase, { color: theme.primary }]}>
+        {PHASE_LABELS[phase.kind]}
+      </Text>
+      <Text style={styles.count}>{Math.ceil(position.phaseRemaining)}</Text>
+      <Text style={styles.cycles}>{STRINGS.BREATHING.CYCLES(cycle)}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    gap: 6,
+  },
+  orb: {
+    width: 200,
+    height: 200,
+    borderRadius: 100,
+    shadowOpacity: 0.6,
+    shadowRadius: 24,
+    shadowOffset: { width: 0, height: 12 },
+    marginBottom: 10,
+  },
+  phase: {
+    fontSize: 22,
+    fontWeight: '800',
+  },
+  count: {
+    fontSize: 32,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+    fontVariant: ['tabular-nums'],
+  },
+  cycles: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.TEXT_TERTIARY,
+  },
+});
+
+export default BreathingPacer;
@@ -1,25 +1,36 @@
 /**
  * BusyList Component
  *
- * Displays all calendar events for the current day, including:
+ * Displays all calendar events for the selected day, including:
  * - App-created wellness events (with exercise and mood info)
  * - External calendar events (with location and calendar source)
  *
  * Features:
  * - Mood-responsive breathing animations
  * - Gradient backgrounds for app events
- * - Remove functionality for wellness events
+ * - Move and remove actions for wellness events
+ * - Recurrence summary for repeating wellness events
+ * - Done / shortened / skipped logging for past wellness events
+ * - Post-session mood check once a session is logged as done or shortened
+ * - Tap an upcoming or current wellness event to open the session player
  * - Shows calendar metadata for external events
+ * - Marks free, tentative and declined events, which may not block time
  */
 
 import React, { useEffect, useRef } from 'react';
-import { Animated, StyleSheet, Text, View } from 'react-native';
+import { Animated, Pressable, StyleSheet, Text, View } from 'react-native';
 import LinearGradient from 'react-native-linear-gradient';
 
 import { COLORS } from '../constants/colors';
 import { STRINGS } from '../constants/strings';
-import { BusyEvent } from '../services/CalendarService';
-import { MOOD_THEMES, MoodKey } from '../types/mood';
+import {
+  BusyEvent,
+  WeekdayCode,
+  WellnessRecurrence,
+} from '../services/CalendarService';
+import ExerciseService from '../services/ExerciseService';
+import { SessionStatus } from '../services/SessionLogService';
+import { MOOD_THEMES, MoodKey, MoodTheme } from '../types/mood';
 
 /**
  * Formats date range for display (e.g., "9:00 AM → 10:30 AM")
@@ -34,20 +45,116 @@ const formatRange = (start: string, end: string) => {
   return `${formatter.format(startDate)} → ${formatter.format(endDate)}`;
 };
 
+const WEEKDAY_LABELS: Record<WeekdayCode, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+/**
+ * Describes a recurrence (e.g., "Weekdays · until Nov 30", "Daily · 10 times")
+ */
+const describeRecurrence = (recurrence: WellnessRecurrence) => {
+  const days = recurrence.daysOfWeek ?? [];
+  const isWeekdays =
+    days.length === 5 && !days.includes('SA') && !days.includes('SU');
+  let pattern: string = STRINGS.RECURRENCE.DAILY;
+  if (recurrence.frequency === 'weekly') {
+    pattern = isWeekdays
+      ? STRINGS.RECURRENCE.WEEKDAYS
+      : days.map(day => WEEKDAY_LABELS[day]).join('/');
+  }
+
+  if (recurrence.until) {
+    const until = new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+    }).format(new Date(recurrence.until));
+    return `${pattern} · ${STRINGS.RECURRENCE.UNTIL(until)}`;
+  }
+  if (recurrence.count) {
+    return `${pattern} · ${STRINGS.RECURRENCE.TIMES(recurrence.count)}`;
+  }
+  return pattern;
+};
+
+const OUTCOME_ACTIONS: Array<{ status: SessionStatus; label: string }> = [
+  { status: 'completed', label: STRINGS.BUSY_LIST.OUTCOME_DONE },
+  { status: 'partial', label: STRINGS.BUSY_LIST.OUTCOME_PARTIAL },
+  { status: 'skipped', label: STRINGS.BUSY_LIST.OUTCOME_SKIPPED },
+];
+
+type AvailabilityTag = 'free' | 'tentative' | 'declined';
+
+const AVAILABILITY_LABELS: Record<AvailabilityTag, string> = {
+  free: STRINGS.BUSY_LIST.AVAILABILITY_FREE,
+  tentative: STRINGS.BUSY_LIST.AVAILABILITY_TENTATIVE,
+  declined: STRINGS.BUSY_LIST.AVAILABILITY_DECLINED,
+};
+
+/**
+ * Tags an external event that may not block time (declined wins over availability)
+ */
+const availabilityTag = (event: BusyEvent): AvailabilityTag | null => {
+  if (event.isAppCreated) return null;
+  if (event.attendeeStatus === 'declined') return 'declined';
+  if (event.availability === 'free') return 'free';
+  if (
+    event.availability === 'tentative' ||
+    event.attendeeStatus === 'tentative'
+  ) {
+    return 'tentative';
+  }
+  return null;
+};
+
+/**
+ * Describes a logged outcome (e.g., "✓ Completed · 30m")
+ */
+const describeOutcome = (event: BusyEvent) => {
+  if (!event.outcome) return null;
+  switch (event.outcome.status) {
+    case 'completed':
+      return STRINGS.BUSY_LIST.OUTCOME_LABEL_COMPLETED(event.outcome.minutes);
+    case 'partial':
+      return STRINGS.BUSY_LIST.OUTCOME_LABEL_PARTIAL(event.outcome.minutes);
+    case 'skipped':
+      return STRINGS.BUSY_LIST.OUTCOME_LABEL_SKIPPED;
+  }
+};
+
 type Props = {
   events: BusyEvent[];
-  dayLabel: string; // e.g., "Monday"
+  dayLabel: string; // e.g., "Today" or "Wednesday, Oct 22"
   onRemove?: (event: BusyEvent) => void;
+  onMove?: (event: BusyEvent) => void; // Opens the reschedule editor
+  onRecordOutcome?: (event: BusyEvent, status: SessionStatus) => void;
+  onRecordMoodAfter?: (event: BusyEvent, moodAfter: MoodKey) => void;
+  onOpen?: (event: BusyEvent) => void; // Opens the session player
   mood: MoodKey; // Current user mood for theming
+  moods?: MoodTheme[]; // Choices for the post-session mood check
 };
 
-const BusyList = ({ events, dayLabel, onRemove, mood }: Props) => {
+const BusyList = ({
+  events,
+  dayLabel,
+  onRemove,
+  onMove,
+  onRecordOutcome,
+  onRecordMoodAfter,
+  onOpen,
+  mood,
+  moods = [],
+}: Props) => {
   // Breathing animation value (0 to 1)
   const breathe = useRef(new Animated.Value(0)).current;
 
-  // Mood-based breathing duration: Calm=4s, Energetic=2.4s, Stressed=1.4s
-  const breatheDuration =
-    mood === 'Calm' ? 4000 : mood === 'Energetic' ? 2400 : 1400;
+  // Mood-based breathing duration (slower for calmer moods)
+  const breatheDuration = MOOD_THEMES[mood].breathingMs.busy;
 
   // Start breathing loop on mount
   useEffect(() => {
@@ -69,20 +176,6 @@ const BusyList = ({ events, dayLabel, onRemove, mood }: Props) => {
     return () => breatheLoop.stop();
   }, [breathe, breatheDuration]);
 
-  /**
-   * Derives mood from exercise type by matching against MOOD_THEMES
-   */
-  const deriveMoodFromExercise = (
-    exercise?: string,
-    fallbackMood?: MoodKey,
-  ): MoodKey => {
-    if (!exercise) return fallbackMood ?? mood;
-    const match = (Object.keys(MOOD_THEMES) as MoodKey[]).find(key =>
-      MOOD_THEMES[key].exercises.includes(exercise),
-    );
-    return match ?? fallbackMood ?? mood;
-  };
-
   // Don't render if no events
   if (!events.length) {
     return null;
@@ -94,20 +187,35 @@ const BusyList = ({ events, dayLabel, onRemove, mood }: Props) => {
     outputRange: [1, 1.012],
   });
 
+  const now = new Date();
+
   return (
     <View style={styles.container}>
       <Text style={styles.heading}>{STRINGS.BUSY_LIST.HEADING(dayLabel)}</Text>
       {events.map(event => {
-        const exercise = event.exercise;
         const cardMood =
-          event.exerciseMood ?? deriveMoodFromExercise(exercise, mood);
+          event.exerciseMood ??
+          ExerciseService.moodForExercise(event.exerciseId, mood);
         const storedMood = event.userMood ?? cardMood;
         const theme = MOOD_THEMES[cardMood];
+        const isPast = new Date(event.endDate) < now;
+        const outcomeLabel = describeOutcome(event);
+        const skipped = event.outcome?.status === 'skipped';
+        const availability = availabilityTag(event);
+        const tentative = availability === 'tentative';
+        const moodAfter = event.outcome?.moodAfter;
+        const askMoodAfter =
+          !!event.outcome && !skipped && !moodAfter && !!onRecordMoodAfter;
 
         return (
           <Animated.View
-            key={event.id}
-            style={[styles.cardShell, { transform: [{ scale: breatheScale }] }]}
+            key={`${event.id}-${event.startDate}`}
+            style={[
+              styles.cardShell,
+              { transform: [{ scale: breatheScale }] },
+              skipped && styles.cardSkipped,
+              !!availability && !tentative && styles.cardNotBusy,
+            ]}
           >
             <LinearGradient
               colors={
@@ -118,12 +226,25 @@ const BusyList = ({ events, dayLabel, onRemove, mood }: Props) => {
               style={[
                 styles.item,
                 event.isAppCreated && { shadowColor: theme.primary },
+                event.outcome?.status === 'completed' && [
+                  styles.itemCompleted,
+                  { borderColor: theme.primary },
+                ],
+                event.outcome?.status === 'partial' && [
+                  styles.itemPartial,
+                  { borderColor: theme.primary },
+                ],
+                tentative && styles.itemTentative,
               ]}
             >
-              <View style={styles.itemInnerContent}>
+              <Pressable
+                style={styles.itemInnerContent}
+                disabled={!event.isAppCreated || isPast || !onOpen}
+                onPress={() => onOpen?.(event)}
+              >
                 {/* Header: Title + Badge/Calendar name */}
                 <View style={styles.itemHeader}>
-                  <Text style={styles.title}>
+                  <Text style={[styles.title, skipped && styles.titleSkipped]}>
                     {event.title || STRINGS.BUSY_LIST.DEFAULT_TITLE}
                   </Text>
                   {event.isAppCreated ? (
@@ -136,6 +257,20 @@ const BusyList = ({ events, dayLabel, onRemove, mood }: Props) => {
                       >
                         {STRINGS.BUSY_LIST.BADGE_APP}
                       </Text>
+                      {onMove && !isPast && (
+                        <Text
+                          style={[
+                            styles.move,
+                            {
+                              borderColor: theme.primary,
+                              color: theme.primary,
+                            },
+                          ]}
+                          onPress={() => onMove(event)}
+                        >
+                          {STRINGS.BUSY_LIST.BUTTON_MOVE}
+                        </Text>
+                      )}
                       {onRemove && (
                         <Text
                           style={styles.remove}
@@ -146,11 +281,18 @@ const BusyList = ({ events, dayLabel, onRemove, mood }: Props) => {
                       )}
                     </View>
                   ) : (
-                    !!event.calendarName && (
-                      <Text style={styles.calendarLabel}>
-                        {event.calendarName}
-                      </Text>
-                    )
+                    <View style={styles.badgeRow}>
+                      {availability && (
+                        <Text style={styles.availabilityBadge}>
+                          {AVAILABILITY_LABELS[availability]}
+                        </Text>
+                      )}
+                      {!!event.calendarName && (
+                        <Text style={styles.calendarLabel}>
+                          {event.calendarName}
+                        </Text>
+                      )}
+                    </View>
                   )}
                 </View>
 
@@ -163,16 +305,79 @@ const BusyList = ({ events, dayLabel, onRemove, mood }: Props) => {
                 {event.isAppCreated && (
                   <Text style={styles.exercise}>
                     {STRINGS.METADATA.EXERCISE_PREFIX}
-                    {STRINGS.LABELS.EXERCISE(exercise)}
+                    {STRINGS.LABELS.EXERCISE(
+                      ExerciseService.exerciseName(event.exerciseId),
+                    )}
                   </Text>
                 )}
                 {event.isAppCreated && (
                   <Text style={styles.exercise}>
                     {STRINGS.METADATA.MOOD_PREFIX}
-                    {storedMood}
+                    {moodAfter
+                      ? STRINGS.BUSY_LIST.MOOD_SHIFT(storedMood, moodAfter)
+                      : storedMood}
+                  </Text>
+                )}
+
+                {event.isAppCreated && event.recurrence && (
+                  <Text style={styles.exercise}>
+                    {STRINGS.BUSY_LIST.REPEATS_PREFIX}
+                    {describeRecurrence(event.recurrence)}
                   </Text>
                 )}
 
+                {/* Session outcome: logged label, or actions once the event is over */}
+                {event.isAppCreated && outcomeLabel && (
+                  <Text style={[styles.outcome, { color: theme.primary }]}>
+                    {outcomeLabel}
+                  </Text>
+                )}
+                {event.isAppCreated &&
+                  isPast &&
+                  !event.outcome &&
+                  onRecordOutcome && (
+                    <View style={styles.outcomeRow}>
+                      <Text style={styles.meta}>
+                        {STRINGS.BUSY_LIST.OUTCOME_PROMPT}
+                      </Text>
+                      {OUTCOME_ACTIONS.map(action => (
+                        <Text
+                          key={action.status}
+                          style={[
+                            styles.outcomeAction,
+                            {
+                              borderColor: theme.primary,
+                              color: theme.primary,
+                            },
+                          ]}
+                          onPress={() => onRecordOutcome(event, action.status)}
+                        >
+                          {action.label}
+                        </Text>
+                      ))}
+                    </View>
+                  )}
+
+                {event.isAppCreated && askMoodAfter && (
+                  <View style={styles.outcomeRow}>
+                    <Text style={styles.meta}>
+                      {STRINGS.BUSY_LIST.MOOD_AFTER_PROMPT}
+                    </Text>
+                    {moods.map(item => (
+                      <Text
+                        key={item.key}
+                        style={[
+                          styles.outcomeAction,
+                          { borderColor: item.primary, color: item.primary },
+                        ]}
+                        onPress={() => onRecordMoodAfter?.(event, item.key)}
+                      >
+                        {item.title}
+                      </Text>
+                    ))}
+                  </View>
+                )}
+
                 {/* External event metadata */}
                 {!event.isAppCreated && event.location && (
                   <Text style={styles.meta}>
@@ -186,7 +391,7 @@ const BusyList = ({ events, dayLabel, onRemove, mood }: Props) => {
                     {event.calendarName}
                   </Text>
                 )}
-              </View>
+              </Pressable>
             </LinearGradient>
           </Animated.View>
         );
@@ -216,6 +421,59 @@ const styles = StyleSheet.create({
   item: {
     borderRadius: 16,
   },
+  itemCompleted: {
+    borderWidth: 2,
+  },
+  itemPartial: {
+    borderWidth: 2,
+    borderStyle: 'dashed',
+  },
+  cardSkipped: {
+    opacity: 0.55,
+  },
+  cardNotBusy: {
+    opacity: 0.6,
+  },
+  itemTentative: {
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+    borderColor: COLORS.TEXT_TERTIARY,
+  },
+  availabilityBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+    fontSize: 11,
+    fontWeight: '700',
+    color: COLORS.TEXT_SECONDARY,
+    backgroundColor: '#FFFFFFCC',
+    borderWidth: 1,
+    borderColor: COLORS.TEXT_TERTIARY,
+  },
+  titleSkipped: {
+    textDecorationLine: 'line-through',
+  },
+  outcome: {
+    marginTop: 4,
+    fontSize: 12,
+    fontWeight: '800',
+  },
+  outcomeRow: {
+    marginTop: 6,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+  },
+  outcomeAction: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+    fontSize: 12,
+    fontWeight: '800',
+    backgroundColor: '#FFFFFFDD',
+  },
   itemInnerContent: {
     paddingHorizontal: 10,
     paddingVertical: 12,
@@ -243,6 +501,14 @@ const styles = StyleSheet.create({
     backgroundColor: '#FFFFFFCC',
     borderWidth: 1,
   },
+  move: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+    fontSize: 12,
+    fontWeight: '800',
+  },
   remove: {
     paddingHorizontal: 8,
     paddingVertical: 3,
@@ -0,0 +1,115 @@
+/**
+ * DayStrip Component
+ *
+ * Horizontal week strip for the planning horizon:
+ * - One pill per day (weekday + date)
+ * - Active day highlighted with the mood's primary color
+ * - Dot marker on days that already have a wellness event
+ */
+
+import React from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { COLORS } from '../constants/colors';
+import { STRINGS } from '../constants/strings';
+import { MOOD_THEMES, MoodKey } from '../types/mood';
+import { isSameDay } from '../utils/date';
+
+type Props = {
+  days: Date[]; // Midnight of each selectable day
+  selectedDay: Date;
+  onSelect: (day: Date) => void;
+  markedDays?: Date[]; // Days with app-created events
+  mood: MoodKey;
+};
+
+/**
+ * Formats the short weekday label, using Today/Tomorrow for the first two days
+ */
+const formatWeekday = (day: Date, index: number) => {
+  if (index === 0) return STRINGS.DAY_STRIP.TODAY;
+  if (index === 1) return STRINGS.DAY_STRIP.TOMORROW;
+  return new Intl.DateTimeFormat('en-US', { weekday: 'short' }).format(day);
+};
+
+const DayStrip = ({ days, selectedDay, onSelect, markedDays, mood }: Props) => {
+  const theme = MOOD_THEMES[mood];
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.row}
+    >
+      {days.map((day, index) => {
+        const active = isSameDay(day, selectedDay);
+        const marked = markedDays?.some(item => isSameDay(item, day));
+        return (
+          <Pressable
+            key={day.toISOString()}
+            onPress={() => onSelect(day)}
+            style={[
+              styles.pill,
+              { borderColor: theme.primary },
+              active && { backgroundColor: theme.primary },
+            ]}
+          >
+            <Text style={[styles.weekday, active && styles.textActive]}>
+              {formatWeekday(day, index)}
+            </Text>
+            <Text style={[styles.date, active && styles.textActive]}>
+              {day.getDate()}
+            </Text>
+            <View
+              style={[
+                styles.dot,
+                marked && {
+                  backgroundColor: active ? COLORS.TEXT_INVERSE : theme.primary,
+                },
+              ]}
+            />
+          </Pressable>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    gap: 8,
+    paddingVertical: 8,
+    paddingRight: 8,
+  },
+  pill: {
+    minWidth: 56,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 14,
+    borderWidth: 1,
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.7)',
+  },
+  weekday: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: COLORS.TEXT_TERTIARY,
+  },
+  date: {
+    fontSize: 17,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  textActive: {
+    color: COLORS.TEXT_INVERSE,
+  },
+  dot: {
+    width: 5,
+    height: 5,
+    borderRadius: 3,
+    marginTop: 3,
+    backgroundColor: 'transparent',
+  },
+});
+
+export default DayStrip;
@@ -0,0 +1,548 @@
+/**
+ * DayTimeline Component
+ *
+ * Vertical timeline for the selected day, an alternative to BusyList:
+ * - Hour grid spanning the day's working hours
+ * - Busy events as blocks (overlapping events share the row side by side)
+ * - Suggested free windows as highlighted gaps
+ * - A "now" line on today's timeline
+ * - Long-press a gap to add a wellness event at that point
+ * - Hold and drag an upcoming wellness event to reschedule it
+ */
+
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, {
+  useAnimatedStyle,
+  useSharedValue,
+} from 'react-native-reanimated';
+
+import * as CONSTS from '../constants/app';
+import { COLORS } from '../constants/colors';
+import { STRINGS } from '../constants/strings';
+import { BusyEvent, SuggestedSlot } from '../services/CalendarService';
+import ExerciseService from '../services/ExerciseService';
+import { MOOD_THEMES, MoodKey } from '../types/mood';
+import { DayHours } from '../types/schedule';
+import { diffMinutes, isSameDay, setHour } from '../utils/date';
+
+type Props = {
+  day: Date; // Midnight of the selected day
+  dayLabel: string; // e.g., "Today" or "Wednesday, Oct 22"
+  hours: DayHours; // Working hours for the day; the grid spans these
+  events: BusyEvent[]; // Events that overlap the day
+  slots: SuggestedSlot[]; // Free windows to highlight
+  mood: MoodKey;
+  onCreate?: (slot: SuggestedSlot) => void; // Long-press on a gap
+  onMove?: (event: BusyEvent, startDate: Date) => void; // Dropped after a drag
+};
+
+type Block = {
+  event: BusyEvent;
+  top: number;
+  height: number;
+  column: number;
+  columns: number;
+};
+
+const PX_PER_MINUTE = CONSTS.TIMELINE.HOUR_HEIGHT / 60;
+const SNAP_PX = CONSTS.TIMELINE.SNAP_MINUTES * PX_PER_MINUTE;
+
+/**
+ * Formats an hour label (e.g., "9 AM")
+ */
+const formatHour = (date: Date) =>
+  new Intl.DateTimeFormat('en-US', { hour: 'numeric' }).format(date);
+
+/**
+ * Formats Date to time string (e.g., "9:00 AM")
+ */
+const formatTime = (value: Date) =>
+  new Intl.DateTimeFormat('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(value);
+
+/**
+ * layoutBlocks: Positions events on the grid
+ * Events are clipped to the grid; overlapping events split the width into
+ * columns, each event taking the first column that is free at its start
+ */
+const layoutBlocks = (
+  events: BusyEvent[],
+  gridStart: Date,
+  gridEnd: Date,
+): Block[] => {
+  const clipped = events
+    .filter(event => !event.allDay)
+    .map(event => ({
+      event,
+      start: new Date(
+        Math.max(new Date(event.startDate).getTime(), gridStart.getTime()),
+      ),
+      end: new Date(
+        Math.min(new Date(event.endDate).getTime(), gridEnd.getTime()),
+      ),
+    }))
+    .filter(item => item.end > item.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const blocks: Block[] = [];
+  let cluster: Block[] = [];
+  let columnEnds: Date[] = [];
+  let clusterEnd = gridStart;
+
+  const closeCluster = () => {
+    cluster.forEach(block => {
+      block.columns = columnEnds.length;
+    });
+    cluster = [];
+    columnEnds = [];
+  };
+
+  clipped.forEach(({ event, start, end }) => {
+    if (start >= clusterEnd) closeCluster();
+    let column = columnEnds.findIndex(columnEnd => columnEnd <= start);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(end);
+    } else {
+      columnEnds[column] = end;
+    }
+    clusterEnd = end > clusterEnd ? end : clusterEnd;
+
+    const block: Block = {
+      event,
+      top: diffMinutes(gridStart, start) * PX_PER_MINUTE,
+      height: Math.max(
+        diffMinutes(start, end) * PX_PER_MINUTE,
+        CONSTS.TIMELINE.MIN_BLOCK_HEIGHT,
+      ),
+      column,
+      columns: 1,
+    };
+    cluster.push(block);
+    blocks.push(block);
+  });
+  closeCluster();
+
+  return blocks;
+};
+
+/**
+ * DraggableBlock: Wraps an app-created event so it can be dragged to a new time
+ * Dragging starts after a short hold; the offset snaps to SNAP_MINUTES
+ */
+const DraggableBlock = ({
+  block,
+  enabled,
+  onDrop,
+  children,
+}: {
+  block: Block;
+  enabled: boolean;
+  onDrop: (minutes: number) => void;
+  children: (previewMinutes: number) => React.ReactNode;
+}) => {
+  const offset = useSharedValue(0);
+  const lifted = useSharedValue(0);
+  const [previewMinutes, setPreviewMinutes] = useState(0);
+
+  const pan = Gesture.Pan()
+    .runOnJS(true)
+    .enabled(enabled)
+    .activateAfterLongPress(CONSTS.TIMELINE.DRAG_DELAY_MS)
+    .onStart(() => {
+      lifted.value = 1;
+    })
+    .onUpdate(event => {
+      const steps = Math.round(event.translationY / SNAP_PX);
+      offset.value = steps * SNAP_PX;
+      setPreviewMinutes(steps * CONSTS.TIMELINE.SNAP_MINUTES);
+    })
+    .onEnd(event => {
+      const minutes =
+        Math.round(event.translationY / SNAP_PX) * CONSTS.TIMELINE.SNAP_MINUTES;
+      if (minutes) onDrop(minutes);
+    })
+    .onFinalize(() => {
+      offset.value = 0;
+      lifted.value = 0;
+      setPreviewMinutes(0);
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ translateY: offset.value }],
+    opacity: 1 - 0.15 * lifted.value,
+    zIndex: lifted.value ? 10 : 1,
+  }));
+
+  return (
+    <GestureDetector gesture={pan}>
+      <Animated.View
+        style={[
+          styles.blockShell,
+          {
+            top: block.top,
+            height: block.height,
+            left: `${(block.column / block.columns) * 100}%`,
+            width: `${100 / block.columns}%`,
+          },
+          animatedStyle,
+        ]}
+      >
+        {children(previewMinutes)}
+      </Animated.View>
+    </GestureDetector>
+  );
+};
+
+/**
+ * GapBlock: A highlighted free window; long-press adds a reset at that point
+ */
+const GapBlock = ({
+  slot,
+  gridStart,
+  color,
+  onCreate,
+}: {
+  slot: SuggestedSlot;
+  gridStart: Date;
+  color: string;
+  onCreate?: (slot: SuggestedSlot) => void;
+}) => {
+  const top = diffMinutes(gridStart, slot.startDate) * PX_PER_MINUTE;
+  const height = diffMinutes(slot.startDate, slot.endDate) * PX_PER_MINUTE;
+
+  const longPress = Gesture.LongPress()
+    .runOnJS(true)
+    .enabled(!!onCreate)
+    .onStart(event => {
+      // Start where the finger is, snapped, as long as the slot still fits
+      const offsetMinutes =
+        Math.floor(event.y / SNAP_PX) * CONSTS.TIMELINE.SNAP_MINUTES;
+      const latestStart = slot.endDate.getTime() - slot.durationMinutes * 60000;
+      const start = new Date(
+        Math.min(slot.startDate.getTime() + offsetMinutes * 60000, latestStart),
+      );
+      onCreate?.({
+        ...slot,
+        id: `${start.getTime()}-timeline`,
+        startDate: start,
+        endDate: new Date(start.getTime() + slot.durationMinutes * 60000),
+      });
+    });
+
+  return (
+    <GestureDetector gesture={longPress}>
+      <View
+        style={[
+          styles.gap,
+          { top, height, borderColor: color, backgroundColor: `${color}14` },
+        ]}
+      >
+        <Text style={[styles.gapText, { color }]} numberOfLines={1}>
+          {STRINGS.TIMELINE.GAP_LABEL} · {formatTime(slot.startDate)}
+        </Text>
+      </View>
+    </GestureDetector>
+  );
+};
+
+const DayTimeline = ({
+  day,
+  dayLabel,
+  hours,
+  events,
+  slots,
+  mood,
+  onCreate,
+  onMove,
+}: Props) => {
+  const theme = MOOD_THEMES[mood];
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the "now" line current while the timeline is on screen
+  useEffect(() => {
+    const timer = setInterval(
+      () => setNow(new Date()),
+      CONSTS.TIMELINE.NOW_TICK_MS,
+    );
+    return () => clearInterval(timer);
+  }, []);
+
+  // Off days still get a grid, using the default hours
+  const startMinutes = hours.enabled
+    ? hours.start
+    : CONSTS.CALENDAR.DAY_START_HOUR * 60;
+  const endMinutes = hours.enabled
+    ? hours.end
+    : CONSTS.CALENDAR.DAY_END_HOUR * 60;
+  const firstHour = Math.floor(startMinutes / 60);
+  const lastHour = Math.ceil(endMinutes / 60);
+  const gridStart = setHour(day, firstHour);
+  const gridEnd = setHour(day, lastHour);
+  const gridHeight = (lastHour - firstHour) * CONSTS.TIMELINE.HOUR_HEIGHT;
+
+  const blocks = layoutBlocks(events, gridStart, gridEnd);
+  const allDayEvents = events.filter(event => event.allDay);
+  const gaps = slots.filter(
+    slot => slot.startDate >= gridStart && slot.endDate <= gridEnd,
+  );
+  const showNow = isSameDay(day, now) && now >= gridStart && now <= gridEnd;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>{STRINGS.TIMELINE.HEADING(dayLabel)}</Text>
+      <Text style={styles.hint}>
+        {hours.enabled ? STRINGS.TIMELINE.HINT : STRINGS.TIMELINE.DAY_OFF}
+      </Text>
+
+      {!!allDayEvents.length && (
+        <View style={styles.allDayRow}>
+          <Text style={styles.allDayLabel}>{STRINGS.TIMELINE.ALL_DAY}</Text>
+          {allDayEvents.map(event => (
+            <Text key={event.id} style={styles.allDayChip} numberOfLines={1}>
+              {event.title || STRINGS.BUSY_LIST.DEFAULT_TITLE}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      <View style={[styles.grid, { height: gridHeight }]}>
+        {/* Hour lines and labels */}
+        {Array.from({ length: lastHour - firstHour + 1 }, (_, index) => (
+          <View
+            key={index}
+            style={[
+              styles.hourRow,
+              { top: index * CONSTS.TIMELINE.HOUR_HEIGHT },
+            ]}
+          >
+            <Text style={styles.hourLabel}>
+              {formatHour(setHour(day, firstHour + index))}
+            </Text>
+            <View style={styles.hourLine} />
+          </View>
+        ))}
+
+        <View style={styles.lane}>
+          {gaps.map(slot => (
+            <GapBlock
+              key={slot.id}
+              slot={slot}
+              gridStart={gridStart}
+              color={theme.primary}
+              onCreate={onCreate}
+            />
+          ))}
+
+          {blocks.map(block => {
+            const { event } = block;
+            const eventStart = new Date(event.startDate);
+            const cardMood =
+              event.exerciseMood ??
+              ExerciseService.moodForExercise(event.exerciseId, mood);
+            const blockTheme = MOOD_THEMES[cardMood];
+            const movable =
+              !!event.isAppCreated && !!onMove && eventStart > now;
+            const notBusy =
+              event.availability === 'free' ||
+              event.attendeeStatus === 'declined';
+
+            return (
+              <DraggableBlock
+                key={`${event.id}-${event.startDate}`}
+                block={block}
+                enabled={movable}
+                onDrop={minutes =>
+                  onMove?.(
+                    event,
+                    new Date(eventStart.getTime() + minutes * 60000),
+                  )
+                }
+              >
+                {previewMinutes => (
+                  <View
+                    style={[
+                      styles.block,
+                      event.isAppCreated
+                        ? {
+                            backgroundColor: blockTheme.accent,
+                            borderColor: blockTheme.primary,
+                          }
+                        : styles.blockExternal,
+                      notBusy && styles.blockNotBusy,
+                    ]}
+                  >
+                    <Text style={styles.blockTitle} numberOfLines={1}>
+                      {event.isAppCreated
+                        ? STRINGS.LABELS.EXERCISE(
+                            ExerciseService.exerciseName(event.exerciseId),
+                          )
+                        : event.title || STRINGS.BUSY_LIST.DEFAULT_TITLE}
+                    </Text>
+                    {block.height >= CONSTS.TIMELINE.HOUR_HEIGHT / 2 && (
+                      <Text style={styles.blockTime} numberOfLines={1}>
+                        {formatTime(
+                          new Date(
+                            eventStart.getTime() + previewMinutes * 60000,
+                          ),
+                        )}
+                      </Text>
+                    )}
+                  </View>
+                )}
+              </DraggableBlock>
+            );
+          })}
+
+          {showNow && (
+            <View
+              pointerEvents="none"
+              style={[
+                styles.nowLine,
+                {
+                  top: diffMinutes(gridStart, now) * PX_PER_MINUTE,
+                  backgroundColor: theme.primary,
+                },
+              ]}
+            >
+              <Text style={[styles.nowLabel, { color: theme.primary }]}>
+                {STRINGS.TIMELINE.NOW}
+              </Text>
+            </View>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    marginTop: 16,
+    gap: 8,
+  },
+  heading: {
+    fontSize: 18,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  hint: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 12,
+  },
+  allDayRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+  },
+  allDayLabel: {
+    width: CONSTS.TIMELINE.LABEL_WIDTH - 6,
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  allDayChip: {
+    maxWidth: '70%',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    backgroundColor: COLORS.BG_LIGHTER,
+    color: COLORS.TEXT_SECONDARY,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  grid: {
+    marginTop: 8,
+  },
+  hourRow: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 0,
+  },
+  hourLabel: {
+    width: CONSTS.TIMELINE.LABEL_WIDTH,
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  hourLine: {
+    flex: 1,
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: COLORS.BG_LIGHTER,
+  },
+  lane: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: CONSTS.TIMELINE.LABEL_WIDTH,
+    right: 0,
+  },
+  gap: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  gapText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  blockShell: {
+    position: 'absolute',
+    paddingHorizontal: 1,
+    paddingVertical: 1,
+  },
+  block: {
+    flex: 1,
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  blockExternal: {
+    backgroundColor: COLORS.BG_LIGHT,
+    borderColor: COLORS.BG_LIGHTER,
+  },
+  blockNotBusy: {
+    opacity: 0.5,
+  },
+  blockTitle: {
+    fontSize: 12,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  blockTime: {
+    fontSize: 11,
+    color: COLORS.TEXT_TERTIARY,
+  },
+  nowLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 2,
+    zIndex: 20,
+  },
+  nowLabel: {
+    position: 'absolute',
+    right: 0,
+    top: -14,
+    fontSize: 10,
+    fontWeight: '800',
+  },
+});
+
+export default DayTimeline;
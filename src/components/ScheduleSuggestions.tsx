@@ -1,12 +1,14 @@
 /**
  * ScheduleSuggestions Component
  *
- * Displays free time slot cards with:
- * - Dynamic duration selection (15m or 30m)
+ * Displays free time slot cards, best-ranked first, with:
+ * - Fit score, with the top slot marked as the best fit
+ * - Duration selection (short or long reset, from Settings)
  * - Mood-specific exercise options
  * - Breathing animations tied to current mood
  * - Conflict detection with visual feedback
  * - Time adjustment capability
+ * - Optional repeat (daily, weekdays, Mon/Wed/Fri) with an end
  * - Add/remove functionality
  *
  * Each card maintains local state for exercise and duration selection,
@@ -33,36 +35,97 @@ import LinearGradient from 'react-native-linear-gradient';
 import * as CONSTS from '../constants/app';
 import { COLORS } from '../constants/colors';
 import { STRINGS } from '../constants/strings';
-import { SuggestedSlot } from '../services/CalendarService';
+import { SuggestedSlot, WellnessRecurrence } from '../services/CalendarService';
+import ExerciseService from '../services/ExerciseService';
 import { MOOD_THEMES, MoodKey } from '../types/mood';
 
 const AnimatedLinearGradient = Animated.createAnimatedComponent(LinearGradient);
 
+type RepeatOption = 'once' | 'daily' | 'weekdays' | 'monWedFri';
+type EndOption = 'times5' | 'times10' | 'weeks2' | 'weeks4';
+
+const REPEAT_OPTIONS: Array<{ key: RepeatOption; label: string }> = [
+  { key: 'once', label: STRINGS.RECURRENCE.ONCE },
+  { key: 'daily', label: STRINGS.RECURRENCE.DAILY },
+  { key: 'weekdays', label: STRINGS.RECURRENCE.WEEKDAYS },
+  { key: 'monWedFri', label: STRINGS.RECURRENCE.MON_WED_FRI },
+];
+
+const END_OPTIONS: Array<{ key: EndOption; label: string }> = [
+  { key: 'times5', label: STRINGS.RECURRENCE.TIMES(5) },
+  { key: 'times10', label: STRINGS.RECURRENCE.TIMES(10) },
+  { key: 'weeks2', label: STRINGS.RECURRENCE.WEEKS(2) },
+  { key: 'weeks4', label: STRINGS.RECURRENCE.WEEKS(4) },
+];
+
 /**
- * getSuggestionBreathingDuration: Returns animation duration based on mood
+ * buildRecurrence: Turns the card's repeat/end chips into a WellnessRecurrence
+ * Week-based ends become an `until` date, count-based ends a `count`
  */
-const getSuggestionBreathingDuration = (mood: MoodKey): number => {
-  switch (mood) {
-    case 'Calm':
-      return CONSTS.BREATHING_DURATION.SUGGESTION_CALM;
-    case 'Energetic':
-      return CONSTS.BREATHING_DURATION.SUGGESTION_ENERGETIC;
-    case 'Stressed':
-      return CONSTS.BREATHING_DURATION.SUGGESTION_STRESSED;
+const buildRecurrence = (
+  repeat: RepeatOption,
+  end: EndOption,
+  start: Date,
+): WellnessRecurrence | undefined => {
+  if (repeat === 'once') return undefined;
+
+  const recurrence: WellnessRecurrence =
+    repeat === 'daily'
+      ? { frequency: 'daily' }
+      : {
+          frequency: 'weekly',
+          daysOfWeek:
+            repeat === 'weekdays'
+              ? ['MO', 'TU', 'WE', 'TH', 'FR']
+              : ['MO', 'WE', 'FR'],
+        };
+
+  if (end === 'times5') recurrence.count = 5;
+  if (end === 'times10') recurrence.count = 10;
+  if (end === 'weeks2' || end === 'weeks4') {
+    const weeks = end === 'weeks2' ? 2 : 4;
+    recurrence.until = new Date(
+      start.getTime() + weeks * 7 * 24 * 60 * 60 * 1000,
+    ).toISOString();
   }
+  return recurrence;
 };
 
 export type SuggestionListProps = {
   mood: MoodKey;
   slots: SuggestedSlot[];
-  onAdd: (slot: SuggestedSlot, exercise?: string) => void;
+  onAdd: (
+    slot: SuggestedSlot,
+    exerciseId?: string,
+    recurrence?: WellnessRecurrence,
+  ) => void;
   onChangeTime: (slot: SuggestedSlot) => void;
+  shortMinutes: number; // Short reset length from Settings (the default)
+  longMinutes: number; // Long reset length from Settings
   addedEventIds: Record<string, string>; // Maps slot.id to calendar event ID
   conflictSlotId?: string | null; // Triggers red flash animation
   loading: boolean;
   error?: string;
 };
 
+/**
+ * durationOptions: Duration chips for a card, shortest first
+ * The slot's own length is the most that fits before the next meeting; when
+ * even the short reset is too long, that length is offered instead. A custom
+ * exercise's own length is added, trimmed to what fits.
+ */
+const durationOptions = (
+  shortMinutes: number,
+  longMinutes: number,
+  fitMinutes: number,
+  exerciseMinutes?: number,
+): number[] => {
+  const options = [shortMinutes, longMinutes];
+  if (fitMinutes < shortMinutes) options.unshift(fitMinutes);
+  if (exerciseMinutes) options.push(Math.min(exerciseMinutes, fitMinutes));
+  return Array.from(new Set(options)).sort((a, b) => a - b);
+};
+
 /**
  * Formats Date to time string (e.g., "9:00 AM")
  */
@@ -82,6 +145,8 @@ const ScheduleSuggestions = ({
   slots,
   onAdd,
   onChangeTime,
+  shortMinutes,
+  longMinutes,
   addedEventIds,
   conflictSlotId,
   loading,
@@ -110,7 +175,7 @@ const ScheduleSuggestions = ({
   if (!slots.length) {
     return (
       <View style={styles.stateRow}>
-        <Text style={styles.stateText}>No free windows found today.</Text>
+        <Text style={styles.stateText}>{STRINGS.EMPTY_STATES.NO_WINDOWS}</Text>
       </View>
     );
   }
@@ -118,14 +183,17 @@ const ScheduleSuggestions = ({
   // Render suggestion cards
   return (
     <View style={styles.list}>
-      {slots.map(slot => (
+      {slots.map((slot, index) => (
         <SuggestionCard
           key={slot.id}
           slot={slot}
+          isBestFit={index === 0}
           mood={mood}
           addedId={addedEventIds[slot.id]}
           onAdd={onAdd}
           onChangeTime={onChangeTime}
+          shortMinutes={shortMinutes}
+          longMinutes={longMinutes}
           isConflicted={conflictSlotId === slot.id}
         />
       ))}
@@ -135,18 +203,26 @@ const ScheduleSuggestions = ({
 
 type CardProps = {
   slot: SuggestedSlot;
+  isBestFit: boolean; // First card in the ranked list
   mood: MoodKey;
   addedId?: string; // If present, event was already added
   isConflicted: boolean; // Triggers red flash animation
-  onAdd: (slot: SuggestedSlot, exercise?: string) => void;
+  onAdd: (
+    slot: SuggestedSlot,
+    exerciseId?: string,
+    recurrence?: WellnessRecurrence,
+  ) => void;
   onChangeTime: (slot: SuggestedSlot) => void;
+  shortMinutes: number;
+  longMinutes: number;
 };
 
 /**
  * SuggestionCard: Individual time slot card with local state management
  *
  * Features:
- * - Random initial duration (15m or 30m)
+ * - Starts on the short duration from Settings; lengths that would run into
+ *   the next meeting are disabled
  * - Mood-specific exercise chips
  * - Breathing animation (scale + shadow)
  * - Gradient background matching mood theme
@@ -155,11 +231,14 @@ type CardProps = {
  */
 const SuggestionCard = ({
   slot,
+  isBestFit,
   mood,
   addedId,
   isConflicted,
   onAdd,
   onChangeTime,
+  shortMinutes,
+  longMinutes,
 }: CardProps) => {
   const theme = MOOD_THEMES[mood];
 
@@ -172,16 +251,18 @@ const SuggestionCard = ({
   const [selectedExercise, setSelectedExercise] = useState<string | undefined>(
     undefined,
   );
-  const [selectedDuration, setSelectedDuration] = useState<15 | 30>(() =>
-    Math.random() < 0.5 ? 15 : 30,
+  const [selectedDuration, setSelectedDuration] = useState(() =>
+    Math.min(shortMinutes, slot.durationMinutes),
   );
+  const [selectedRepeat, setSelectedRepeat] = useState<RepeatOption>('once');
+  const [selectedEnd, setSelectedEnd] = useState<EndOption>('times10');
   const [gradients, setGradients] = useState(() => ({
     previous: theme.cardGradient,
     current: theme.cardGradient,
   }));
 
-  // Mood-based breathing duration: Calm=3.6s, Energetic=2.0s, Stressed=1.2s
-  const breatheDuration = getSuggestionBreathingDuration(mood);
+  // Mood-based breathing duration (slower for calmer moods)
+  const breatheDuration = theme.breathingMs.suggestion;
 
   // Start breathing loop
   useEffect(() => {
@@ -230,8 +311,10 @@ const SuggestionCard = ({
   // Reset selections when slot changes
   useEffect(() => {
     setSelectedExercise(undefined);
-    setSelectedDuration(Math.random() < 0.5 ? 15 : 30);
-  }, [slot.id, slot.durationMinutes]);
+    setSelectedDuration(Math.min(shortMinutes, slot.durationMinutes));
+    setSelectedRepeat('once');
+    setSelectedEnd('times10');
+  }, [slot.id, slot.durationMinutes, shortMinutes]);
 
   // Conflict background interpolation (normal → red)
   const conflictStyle = useMemo(() => {
@@ -293,12 +376,26 @@ const SuggestionCard = ({
         ]}
       >
         {/* Time range display (updates with duration selection) */}
-        <Text style={styles.timeLabel}>
-          {formatTime(slot.startDate)} →{' '}
-          {formatTime(
-            new Date(slot.startDate.getTime() + selectedDuration * 60000),
+        <View style={styles.timeRow}>
+          <Text style={styles.timeLabel}>
+            {formatTime(slot.startDate)} →{' '}
+            {formatTime(
+              new Date(slot.startDate.getTime() + selectedDuration * 60000),
+            )}
+          </Text>
+          {slot.score !== undefined && (
+            <Text
+              style={[
+                styles.fitBadge,
+                { borderColor: theme.primary, color: theme.primary },
+              ]}
+            >
+              {isBestFit
+                ? STRINGS.SUGGESTIONS.BADGE_BEST_FIT(slot.score)
+                : STRINGS.SUGGESTIONS.BADGE_FIT(slot.score)}
+            </Text>
           )}
-        </Text>
+        </View>
 
         <Text style={styles.title}>
           {addedId
@@ -311,18 +408,28 @@ const SuggestionCard = ({
             : STRINGS.SUGGESTIONS.CARD_META_IDLE}
         </Text>
 
-        {/* Duration selector: 15m or 30m chips */}
+        {/* Duration selector: short and long reset chips */}
         <View style={styles.row}>
           <Text style={styles.label}>{STRINGS.SUGGESTIONS.LABEL_DURATION}</Text>
           <View style={styles.chipRow}>
-            {[15, 30].map(duration => {
+            {durationOptions(
+              shortMinutes,
+              longMinutes,
+              slot.durationMinutes,
+              ExerciseService.getExercise(selectedExercise)?.defaultMinutes,
+            ).map(duration => {
               const active = selectedDuration === duration;
+              const fits = duration <= slot.durationMinutes;
               return (
                 <Pressable
                   key={duration}
-                  style={[styles.durationChip, active && styles.chipActive]}
-                  onPress={() => setSelectedDuration(duration as 15 | 30)}
-                  disabled={!!addedId} // Disable after adding
+                  style={[
+                    styles.durationChip,
+                    active && styles.chipActive,
+                    !fits && styles.chipDisabled,
+                  ]}
+                  onPress={() => setSelectedDuration(duration)}
+                  disabled={!!addedId || !fits} // Disable after adding
                 >
                   <Text
                     style={[styles.chipText, active && styles.chipTextActive]}
@@ -339,18 +446,50 @@ const SuggestionCard = ({
         <View style={styles.row}>
           <Text style={styles.label}>{STRINGS.SUGGESTIONS.LABEL_EXERCISE}</Text>
           <View style={styles.chipRow}>
-            {MOOD_THEMES[mood].exercises.map(item => {
-              const active = selectedExercise === item;
+            {ExerciseService.exercisesForMood(mood).map(item => {
+              const active = selectedExercise === item.id;
               return (
                 <Pressable
-                  key={item}
+                  key={item.id}
                   style={[styles.chip, active && styles.chipActive]}
-                  onPress={() => setSelectedExercise(item)}
+                  onPress={() => {
+                    setSelectedExercise(item.id);
+                    // Custom exercises carry their own preferred duration
+                    if (item.defaultMinutes) {
+                      setSelectedDuration(
+                        Math.min(item.defaultMinutes, slot.durationMinutes),
+                      );
+                    }
+                  }}
+                >
+                  <Text
+                    style={[styles.chipText, active && styles.chipTextActive]}
+                  >
+                    {item.name}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Repeat selector: one-off or recurring */}
+        <View style={styles.row}>
+          <Text style={styles.label}>{STRINGS.RECURRENCE.LABEL_REPEAT}</Text>
+          <View style={styles.chipRow}>
+            {REPEAT_OPTIONS.map(option => {
+              const active = selectedRepeat === option.key;
+              return (
+                <Pressable
+                  key={option.key}
+                  style={[styles.durationChip, active && styles.chipActive]}
+                  onPress={() => setSelectedRepeat(option.key)}
+                  disabled={!!addedId}
                 >
                   <Text
                     style={[styles.chipText, active && styles.chipTextActive]}
                   >
-                    {item}
+                    {option.label}
                   </Text>
                 </Pressable>
               );
@@ -358,6 +497,32 @@ const SuggestionCard = ({
           </View>
         </View>
 
+        {/* End selector: only relevant for recurring events */}
+        {selectedRepeat !== 'once' && (
+          <View style={styles.row}>
+            <Text style={styles.label}>{STRINGS.RECURRENCE.LABEL_ENDS}</Text>
+            <View style={styles.chipRow}>
+              {END_OPTIONS.map(option => {
+                const active = selectedEnd === option.key;
+                return (
+                  <Pressable
+                    key={option.key}
+                    style={[styles.durationChip, active && styles.chipActive]}
+                    onPress={() => setSelectedEnd(option.key)}
+                    disabled={!!addedId}
+                  >
+                    <Text
+                      style={[styles.chipText, active && styles.chipTextActive]}
+                    >
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
         {/* Action buttons: Change time (secondary) + Add (primary) */}
         <View style={styles.actionsRow}>
           <Pressable
@@ -384,6 +549,7 @@ const SuggestionCard = ({
                   ),
                 },
                 selectedExercise,
+                buildRecurrence(selectedRepeat, selectedEnd, slot.startDate),
               )
             }
           >
@@ -427,6 +593,22 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#ffffff88',
   },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  fitBadge: {
+    marginTop: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 11,
+    fontWeight: '700',
+    backgroundColor: '#FFFFFFCC',
+  },
   timeLabel: {
     fontSize: 17,
     fontWeight: '700',
@@ -470,6 +652,9 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     backgroundColor: 'rgba(255,255,255,0.78)',
   },
+  chipDisabled: {
+    opacity: 0.4,
+  },
   chipActive: {
     backgroundColor: COLORS.TEXT_PRIMARY,
   },
@@ -1,28 +1,18 @@
 /**
  * App Constants
- * 
+ *
  * Only necessary magic numbers and configuration values.
  * Keep it lean - don't extract everything to constants.
  */
 
 // ========== Animation Timings (milliseconds) ==========
 
-// Breathing animation durations for each mood
-export const BREATHING_DURATION = {
-  CALM: 1800,
-  ENERGETIC: 1013,
-  STRESSED: 563,
-  SUGGESTION_CALM: 2025,
-  SUGGESTION_ENERGETIC: 1125,
-  SUGGESTION_STRESSED: 675,
-  BUSY_CALM: 2250,
-  BUSY_ENERGETIC: 1350,
-  BUSY_STRESSED: 788,
-} as const;
+// Breathing animation durations live on each MoodTheme (breathingMs)
 
 // Key timeouts and transitions
 export const TIMING = {
   BANNER_DISPLAY: 2200,
+  UNDO_DISPLAY: 6000, // How long the undo action stays on screen after a removal
   CONFLICT_RESET: 1200,
   CONFLICT_PULSE: 180,
   GRADIENT_TRANSITION: 420,
@@ -43,12 +33,96 @@ export const SHADOW = {
 // ========== Calendar Configuration ==========
 
 export const CALENDAR = {
-  DAYS_TO_FETCH: 1,
+  DAYS_TO_FETCH: 14, // Planning horizon shown in the day strip
   MIN_DURATION_MINUTES: 15,
   MAX_DURATION_MINUTES: 30,
   DAY_START_HOUR: 7,
   DAY_END_HOUR: 22,
   MIN_FUTURE_BUFFER_MINUTES: 15,
+  SUGGESTIONS_PER_DAY: 6, // Best-ranked windows shown for the selected day
+  REMINDER_MINUTES: 5, // Alarm before app-created events
+  META_MIGRATION_PAST_DAYS: 180, // How far back "Update saved resets" rewrites old events
+} as const;
+
+// ========== Working Hours ==========
+
+export const SCHEDULE = {
+  STEP_MINUTES: 15, // Stepper increment on the Working hours screen
+  MIN_WINDOW_MINUTES: 15, // Shortest working day or quiet period
+} as const;
+
+// ========== Day Timeline ==========
+
+export const TIMELINE = {
+  HOUR_HEIGHT: 56, // Pixels per hour on the grid
+  SNAP_MINUTES: 15, // Dragged and long-pressed times snap to this step
+  MIN_BLOCK_HEIGHT: 18, // Short events stay tappable
+  LABEL_WIDTH: 52, // Hour label column
+  DRAG_DELAY_MS: 250, // Hold before a block starts dragging, so scrolling still works
+  NOW_TICK_MS: 60000, // How often the "now" line moves
+  QUICK_ADD_CHOICES: 2, // Exercises offered after a long-press; Android alerts fit three buttons
+} as const;
+
+// ========== Meeting Buffers ==========
+
+// Defaults for the padding kept free around calendar meetings
+export const BUFFERS = {
+  BEFORE_MINUTES: 5,
+  AFTER_MINUTES: 10,
+  LONG_MEETING_MINUTES: 60, // Meetings at least this long use AFTER_LONG_MINUTES
+  AFTER_LONG_MINUTES: 15,
+  OPTIONS: [0, 5, 10, 15, 20], // Choices offered on the Calendars screen
+} as const;
+
+// ========== Slot Scoring ==========
+
+// Each factor scores 0-1; weights sum to 1 and the total is scaled to 0-100
+export const SLOT_SCORING = {
+  WEIGHT_BUFFER: 0.25, // Room after the previous and before the next meeting
+  WEIGHT_BREAK: 0.25, // Length of the back-to-back meetings before the gap
+  WEIGHT_GAP: 0.2, // Size of the free window
+  WEIGHT_DAYPART: 0.15, // Falls in a preferred daypart
+  WEIGHT_MOOD: 0.15, // Stressed moods favour sooner slots
+  BUFFER_CAP_MINUTES: 10,
+  BREAK_CAP_MINUTES: 180,
+  GAP_CAP_MINUTES: 90,
+  URGENCY_HOURS: 6,
+  MAX_SLOTS: 10,
+} as const;
+
+// ========== Mood Journal ==========
+
+export const JOURNAL = {
+  HISTORY_DAYS: 14, // Days shown on the History screen
+  MAX_ENTRIES: 500, // Oldest mood entries are dropped beyond this
+} as const;
+
+// ========== Mood Check-in ==========
+
+export const CHECK_IN = {
+  MIN_LEVEL: 1,
+  MAX_LEVEL: 5,
+} as const;
+
+// ========== Session Player ==========
+
+export const SESSION = {
+  COMPLETION_RATIO: 0.9, // Share of the planned time that counts as completed
+} as const;
+
+// ========== Breathing Pacer ==========
+
+export const BREATHING = {
+  MIN_PHASE_SECONDS: 1,
+  MAX_PHASE_SECONDS: 20,
+  TICK_MS: 100, // Pacer clock resolution; supports half-second phases
+} as const;
+
+// ========== Insights ==========
+
+export const INSIGHTS = {
+  WEEK_OPTIONS: [4, 8, 12], // Selectable look-back windows
+  DEFAULT_WEEKS: 4,
 } as const;
 
 // ========== Time of Day Thresholds ==========
@@ -65,8 +139,22 @@ export const DURATIONS = {
   LONG: 30,
 } as const;
 
+// ========== Settings ==========
+
+// Choices offered on the Settings screen; defaults come from the sections above
+export const SETTINGS = {
+  DAYS_TO_FETCH_OPTIONS: [7, 14, 21, 28],
+  SHORT_MINUTES_OPTIONS: [10, 15, 20],
+  LONG_MINUTES_OPTIONS: [20, 30, 45, 60],
+  FUTURE_BUFFER_OPTIONS: [0, 5, 15, 30],
+  SUGGESTIONS_PER_DAY_OPTIONS: [3, 6, 10],
+  MAX_SLOTS_OPTIONS: [5, 10, 20],
+  MORNING_END_OPTIONS: [10, 11, 12, 13],
+  AFTERNOON_END_OPTIONS: [16, 17, 18, 19, 20],
+  REMINDER_OPTIONS: [0, 5, 10, 15, 30], // 0 turns the alarm off
+} as const;
+
 // ========== Dayparts ==========
 
 export const DAYPARTS = ['morning', 'afternoon', 'evening'] as const;
-export type Daypart = typeof DAYPARTS[number];
-
+export type Daypart = (typeof DAYPARTS)[number];
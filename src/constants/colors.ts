@@ -58,4 +58,31 @@ export const MOOD_COLORS = {
     ACCENT: '#FFD166',
     SHADOW: 'rgba(249,115,22,0.52)',
   },
+  TIRED: {
+    GRADIENT_START: '#A78BFA',
+    GRADIENT_END: '#4C1D95',
+    CARD_GRADIENT_START: '#EDE9FE',
+    CARD_GRADIENT_END: '#C4B5FD',
+    PRIMARY: '#5B21B6',
+    ACCENT: '#C4B5FD',
+    SHADOW: 'rgba(91,33,182,0.45)',
+  },
+  ANXIOUS: {
+    GRADIENT_START: '#2DD4BF',
+    GRADIENT_END: '#0F766E',
+    CARD_GRADIENT_START: '#CCFBF1',
+    CARD_GRADIENT_END: '#5EEAD4',
+    PRIMARY: '#0F766E',
+    ACCENT: '#99F6E4',
+    SHADOW: 'rgba(15,118,110,0.5)',
+  },
+  FOCUSED: {
+    GRADIENT_START: '#4ADE80',
+    GRADIENT_END: '#166534',
+    CARD_GRADIENT_START: '#DCFCE7',
+    CARD_GRADIENT_END: '#86EFAC',
+    PRIMARY: '#15803D',
+    ACCENT: '#86EFAC',
+    SHADOW: 'rgba(21,128,61,0.45)',
+  },
 } as const;
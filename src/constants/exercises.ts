@@ -0,0 +1,163 @@
+/**
+ * Exercise Catalog
+ *
+ * Built-in exercises, listed per mood in display order.
+ * Instructions are spread evenly across the session by the session player.
+ */
+
+import { Exercise } from '../types/exercise';
+
+export const EXERCISES: Exercise[] = [
+  {
+    id: 'breathwork',
+    name: 'Breathwork',
+    moods: ['Calm', 'Anxious', 'Focused'],
+    minMinutes: 5,
+    maxMinutes: 30,
+    intensity: 'low',
+    setting: 'indoor',
+    instructions: [
+      'Sit tall and let your shoulders drop.',
+      'Breathe in slowly through your nose.',
+      'Let the breath out a little longer than it came in.',
+      'Keep a soft, steady rhythm.',
+    ],
+    equipment: [],
+  },
+  {
+    id: 'light-stretch',
+    name: 'Light Stretch',
+    moods: ['Calm', 'Tired'],
+    minMinutes: 10,
+    maxMinutes: 30,
+    intensity: 'low',
+    setting: 'indoor',
+    instructions: [
+      'Stand up and reach both arms overhead.',
+      'Fold gently forward, knees soft.',
+      'Roll up slowly and circle your shoulders.',
+      'Stretch each side by reaching over your head.',
+    ],
+    equipment: [],
+  },
+  {
+    id: 'calm-walk',
+    name: 'Calm Walk',
+    moods: ['Calm', 'Focused'],
+    minMinutes: 15,
+    maxMinutes: 30,
+    intensity: 'low',
+    setting: 'outdoor',
+    instructions: [
+      'Head outside or find a quiet corridor.',
+      'Walk at an easy pace, arms loose.',
+      'Notice five things you can see and hear.',
+      'Slow down for the last minute and breathe.',
+    ],
+    equipment: [],
+  },
+  {
+    id: 'box-breathing',
+    name: 'Box Breathing',
+    moods: ['Stressed', 'Anxious'],
+    minMinutes: 5,
+    maxMinutes: 20,
+    intensity: 'low',
+    setting: 'indoor',
+    instructions: [
+      'Breathe in for a count of four.',
+      'Hold for four.',
+      'Breathe out for four.',
+      'Hold for four, then repeat.',
+    ],
+    equipment: [],
+  },
+  {
+    id: 'slow-walk',
+    name: 'Slow Walk',
+    moods: ['Stressed', 'Anxious'],
+    minMinutes: 10,
+    maxMinutes: 30,
+    intensity: 'low',
+    setting: 'either',
+    instructions: [
+      'Step away from your screen.',
+      'Walk slowly, feeling each foot land.',
+      'Match your breath to your steps.',
+      'Finish with three deep breaths standing still.',
+    ],
+    equipment: [],
+  },
+  {
+    id: 'neck-release',
+    name: 'Neck Release',
+    moods: ['Stressed', 'Focused', 'Tired'],
+    minMinutes: 5,
+    maxMinutes: 15,
+    intensity: 'low',
+    setting: 'indoor',
+    instructions: [
+      'Drop your chin gently toward your chest.',
+      'Tilt one ear toward your shoulder and hold.',
+      'Switch sides and hold.',
+      'Roll your shoulders back five times.',
+    ],
+    equipment: [],
+  },
+  {
+    id: 'hiit-burst',
+    name: 'HIIT Burst',
+    moods: ['Energetic'],
+    minMinutes: 10,
+    maxMinutes: 20,
+    intensity: 'high',
+    setting: 'indoor',
+    instructions: [
+      'Warm up with marching on the spot.',
+      'Jumping jacks at full effort.',
+      'Squats at a steady pace.',
+      'Cool down and shake out your arms and legs.',
+    ],
+    equipment: ['Exercise mat'],
+  },
+  {
+    id: 'dance-break',
+    name: 'Dance Break',
+    moods: ['Energetic', 'Tired'],
+    minMinutes: 5,
+    maxMinutes: 15,
+    intensity: 'medium',
+    setting: 'indoor',
+    instructions: [
+      'Put on a song you love.',
+      'Start with small moves and build up.',
+      'Go all in for the chorus.',
+      'Slow it down and catch your breath.',
+    ],
+    equipment: ['Music'],
+  },
+  {
+    id: 'power-walk',
+    name: 'Power Walk',
+    moods: ['Energetic', 'Tired'],
+    minMinutes: 15,
+    maxMinutes: 30,
+    intensity: 'medium',
+    setting: 'outdoor',
+    instructions: [
+      'Start at a brisk pace.',
+      'Swing your arms and lengthen your stride.',
+      'Push the pace for a few minutes.',
+      'Ease off and let your heart rate settle.',
+    ],
+    equipment: ['Walking shoes'],
+  },
+];
+
+// Shown when an event's exercise is unknown
+export const DEFAULT_INSTRUCTIONS = [
+  'Find a comfortable spot.',
+  'Breathe slowly and notice how you feel.',
+  'Move gently in whatever way feels good.',
+  'Take one last deep breath before returning.',
+];
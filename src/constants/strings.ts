@@ -1,13 +1,27 @@
 /**
  * strings.ts
- * 
+ *
  * Centralized string constants for the Wellness app.
  * All user-facing text is defined here for easy localization and maintenance.
- * 
+ *
  * Organization:
  * - HEADER: Main app title and subtitle
  * - MOODS: Mood option labels
+ * - MOOD_PICKER: Choosing which moods appear in the picker
+ * - CHECK_IN: Energy/stress check-in
+ * - DAY_STRIP: Day switcher for the planning horizon
  * - BUSY_LIST: Event listing section
+ * - TIMELINE: Day timeline view
+ * - RECURRENCE: Repeat options for wellness events
+ * - RESCHEDULE: Moving an existing wellness event
+ * - CALENDARS: Calendar-management screen
+ * - SCHEDULE: Working hours and quiet periods
+ * - SETTINGS: Planning, slot and reminder preferences
+ * - HISTORY: Mood journal timeline
+ * - INSIGHTS: Adherence dashboard
+ * - SESSION: Guided session player
+ * - BREATHING: Breathing pacer and pattern editor
+ * - EXERCISES: Custom exercise editor
  * - SUGGESTIONS: Free slot card section
  * - ALERTS: User confirmation and error messages
  * - BANNERS: Toast notification messages
@@ -29,19 +43,373 @@ export const STRINGS = {
     CALM: 'Calm',
     STRESSED: 'Stressed',
     ENERGETIC: 'Energetic',
+    TIRED: 'Tired',
+    ANXIOUS: 'Anxious',
+    FOCUSED: 'Focused',
+  },
+
+  // ========== MOOD PICKER ==========
+  MOOD_PICKER: {
+    BUTTON_EDIT: 'Edit',
+    TITLE: 'Moods',
+    SUBTITLE: 'Choose which moods appear in the picker.',
+    BUTTON_DONE: 'Done',
+    ACTIVE_HINT: 'Current mood',
+    SAVE_FAILED: 'Could not save your mood choices.',
+  },
+
+  // ========== CHECK IN ==========
+  CHECK_IN: {
+    LINK: 'Check in',
+    TITLE: 'How are you, really?',
+    SUBTITLE: 'Rate your energy and stress. We pick the closest mood.',
+    BUTTON_CANCEL: 'Cancel',
+    BUTTON_SAVE: 'Save check-in',
+    LABEL_ENERGY: 'Energy',
+    LABEL_STRESS: 'Stress',
+    SCALE_ENERGY: ['Drained', 'Low', 'Okay', 'Good', 'Buzzing'],
+    SCALE_STRESS: ['Relaxed', 'Easy', 'Some', 'High', 'Overwhelmed'],
+    LABEL_NOTE: 'Note (optional)',
+    PLACEHOLDER_NOTE: 'What is on your mind?',
+    RESULT: (mood: string) => `Closest mood: ${mood}`,
+    LEVELS: (energy: number, stress: number, max: number) =>
+      `Energy ${energy}/${max} · Stress ${stress}/${max}`,
+  },
+
+  // ========== DAY STRIP ==========
+  DAY_STRIP: {
+    TODAY: 'Today',
+    TOMORROW: 'Tomorrow',
   },
 
   // ========== BUSY LIST ==========
   BUSY_LIST: {
-    HEADING: (dayLabel: string) => `Busy today (${dayLabel})`,
+    HEADING: (dayLabel: string) => `Busy · ${dayLabel}`,
     DEFAULT_TITLE: 'Busy block',
     BADGE_APP: 'App',
+    BUTTON_MOVE: 'Move',
     BUTTON_REMOVE: 'Remove',
+    REPEATS_PREFIX: 'Repeats: ',
+    OUTCOME_PROMPT: 'How did it go?',
+    OUTCOME_DONE: 'Done',
+    OUTCOME_PARTIAL: 'Shortened',
+    OUTCOME_SKIPPED: 'Skipped',
+    OUTCOME_LABEL_COMPLETED: (minutes: number) => `✓ Completed · ${minutes}m`,
+    OUTCOME_LABEL_PARTIAL: (minutes: number) => `◐ Shortened · ${minutes}m`,
+    OUTCOME_LABEL_SKIPPED: '✕ Skipped',
+    MOOD_AFTER_PROMPT: 'Feeling now?',
+    AVAILABILITY_FREE: 'Free',
+    AVAILABILITY_TENTATIVE: 'Tentative',
+    AVAILABILITY_DECLINED: 'Declined',
+    MOOD_SHIFT: (before: string, after: string) => `${before} → ${after}`,
+  },
+
+  // ========== TIMELINE ==========
+  TIMELINE: {
+    VIEW_LIST: 'List',
+    VIEW_TIMELINE: 'Timeline',
+    HEADING: (dayLabel: string) => `Timeline · ${dayLabel}`,
+    HINT: 'Hold a free window to add a reset. Hold and drag a reset to move it.',
+    DAY_OFF: 'Not a working day — shown with default hours.',
+    ALL_DAY: 'All day',
+    GAP_LABEL: 'Free',
+    NOW: 'Now',
+    CONFIRM_ADD_TITLE: (time: string) => `Add a reset at ${time}?`,
+    CONFIRM_ADD_MESSAGE: (minutes: number) =>
+      `${minutes}m. Pick an exercise to save it to your calendar.`,
+  },
+
+  // ========== RECURRENCE ==========
+  RECURRENCE: {
+    LABEL_REPEAT: 'Repeat',
+    LABEL_ENDS: 'Ends',
+    ONCE: 'Once',
+    DAILY: 'Daily',
+    WEEKDAYS: 'Weekdays',
+    MON_WED_FRI: 'Mon/Wed/Fri',
+    TIMES: (count: number) => `${count} times`,
+    WEEKS: (weeks: number) => `${weeks} weeks`,
+    UNTIL: (date: string) => `until ${date}`,
+  },
+
+  // ========== RESCHEDULE ==========
+  RESCHEDULE: {
+    TITLE: 'Move reset',
+    SUBTITLE: 'Pick a new time; your notes and check-in stay attached.',
+    SUBTITLE_RECURRING:
+      'Only this occurrence moves; the rest of the series stays.',
+    BUTTON_CANCEL: 'Cancel',
+    BUTTON_SAVE: 'Move reset',
+    LABEL_START: 'Starts at',
+    LABEL_DURATION: 'Duration',
+    LABEL_EXERCISE: 'Exercise',
+    MINUTES: (minutes: number) => `${minutes}m`,
+    SUMMARY: (start: string, end: string) => `${start} → ${end}`,
+  },
+
+  // ========== CALENDARS ==========
+  CALENDARS: {
+    LINK: 'Calendars',
+    TITLE: 'Calendars',
+    SUBTITLE: 'Choose what blocks your time and where resets are saved.',
+    BUTTON_DONE: 'Done',
+    SECTION_BUSY: 'Counts as busy',
+    SECTION_TARGET: 'Save wellness events to',
+    SECTION_BUFFERS: 'Buffers around meetings',
+    BUFFERS_HINT:
+      'Suggestions keep this much time free around meetings. Wellness events are not padded.',
+    BUFFER_BEFORE: 'Before a meeting',
+    BUFFER_AFTER: 'After a meeting',
+    BUFFER_AFTER_LONG: (minutes: number) => `After meetings of ${minutes}m+`,
+    BUFFER_MINUTES: (minutes: number) => `${minutes}m`,
+    TENTATIVE_IS_BUSY: 'Tentative events count as busy',
+    TENTATIVE_HINT:
+      'Events shown as free and invitations you declined never block.',
+    SECTION_ALL_DAY: 'All-day events',
+    ALL_DAY_IGNORE: 'Ignore',
+    ALL_DAY_BUSY: 'Busy all day',
+    ALL_DAY_OUT_OF_OFFICE: 'Out of office',
+    ALL_DAY_HINT: {
+      ignore: 'Holidays and birthdays never block your resets.',
+      busy: 'An all-day event blocks the whole day.',
+      outOfOffice:
+        'No suggestions on days off, but you can still add a reset yourself.',
+    },
+    AUTOMATIC: 'Wellness calendar (created by the app)',
+    APP_CALENDAR_BADGE: 'Owned by Wellness',
+    READ_ONLY: 'Read-only',
+    TARGET_ALWAYS_BUSY: 'Always shown — wellness events live here',
+    LOADING: 'Loading calendars…',
+    LOAD_FAILED: 'Could not load your calendars.',
+    SECTION_APP_DATA: 'Wellness calendar & data',
+    APP_DATA_HINT:
+      'Resets are saved to a calendar the app owns. On Android it stays on this device and is never synced to your accounts.',
+    RESETS_SHOW_AS_FREE: 'Save new resets as free time',
+    RESETS_SHOW_AS_FREE_HINT:
+      "Shared calendars and meeting schedulers won't see you as busy. Resets already in your calendar keep their status. The Wellness calendar can't be hidden from other apps; calendar apps on this device still list it.",
+    BUTTON_REMOVE_APP_CALENDAR: 'Remove Wellness calendar',
+    BUTTON_DELETE_ALL: 'Delete all app data',
+    CONFIRM_REMOVE_TITLE: 'Remove Wellness calendar?',
+    CONFIRM_REMOVE_MESSAGE:
+      'The calendar and every reset in it will be deleted from this device.',
+    CONFIRM_DELETE_ALL_TITLE: 'Delete all app data?',
+    CONFIRM_DELETE_ALL_MESSAGE:
+      'Removes the Wellness calendar, its resets and every preference stored on this device.',
+    CONFIRM_DESTRUCTIVE: 'Delete',
+    ACTION_FAILED: 'Could not complete that action.',
+    BUTTON_MIGRATE: 'Update saved resets',
+    MIGRATE_HINT:
+      'Rewrites the details stored with older or hand-edited resets so they keep working with new app versions.',
+    MIGRATE_RESULT: (updated: number, unreadable: number) =>
+      [
+        updated
+          ? `${updated} reset${updated === 1 ? '' : 's'} updated.`
+          : 'Everything is up to date.',
+        unreadable
+          ? `${unreadable} could not be read and ${
+              unreadable === 1 ? 'was' : 'were'
+            } left as is.`
+          : '',
+      ]
+        .filter(Boolean)
+        .join(' '),
+  },
+
+  // ========== SCHEDULE ==========
+  SCHEDULE: {
+    LINK: 'Hours',
+    TITLE: 'Working hours',
+    SUBTITLE: 'Resets are only suggested inside these hours.',
+    BUTTON_DONE: 'Done',
+    SECTION_DAYS: 'Days',
+    SECTION_QUIET: 'Quiet hours',
+    QUIET_HINT:
+      'No suggestions during these periods on any day. A period can run past midnight, e.g. 10 PM to 7 AM.',
+    BUTTON_WEEKENDS_OFF: 'Weekends off',
+    WEEKDAYS: [
+      'Sunday',
+      'Monday',
+      'Tuesday',
+      'Wednesday',
+      'Thursday',
+      'Friday',
+      'Saturday',
+    ],
+    QUIET_LABELS: {
+      lunch: 'Lunch',
+      'wind-down': 'Wind-down before sleep',
+    } as Record<string, string>,
+    DAY_OFF: 'Off',
+    LABEL_FROM: 'From',
+    LABEL_TO: 'To',
+    STEP_EARLIER: '−',
+    STEP_LATER: '+',
+    LOADING: 'Loading your hours…',
+    SAVE_FAILED: 'Could not save your hours.',
+  },
+
+  // ========== SETTINGS ==========
+  SETTINGS: {
+    LINK: 'Settings',
+    TITLE: 'Settings',
+    SUBTITLE: 'Tune how far ahead and how often resets are suggested.',
+    BUTTON_DONE: 'Done',
+    SECTION_PLANNING: 'Planning',
+    SECTION_SLOTS: 'Reset length',
+    SECTION_TIME_OF_DAY: 'Time of day',
+    SECTION_REMINDERS: 'Reminders',
+    LABEL_DAYS_TO_FETCH: 'Days to plan ahead',
+    LABEL_SUGGESTIONS_PER_DAY: 'Suggestions per day',
+    LABEL_MAX_SLOTS: 'Slots ranked per scan',
+    LABEL_FUTURE_BUFFER: 'Earliest suggestion from now',
+    LABEL_SHORT_MINUTES: 'Shortest reset',
+    LABEL_LONG_MINUTES: 'Longest reset',
+    LABEL_MORNING_END: 'Morning ends',
+    LABEL_AFTERNOON_END: 'Afternoon ends',
+    LABEL_REMINDER: 'Alert before a reset',
+    REMINDER_HINT: 'Applies to resets you add from now on.',
+    DAYS: (days: number) => `${days} days`,
+    MINUTES: (minutes: number) => `${minutes}m`,
+    HOUR: (hour: number) => `${hour % 12 || 12} ${hour < 12 ? 'AM' : 'PM'}`,
+    COUNT: (count: number) => `${count}`,
+    REMINDER_OFF: 'Off',
+    BUTTON_RESET: 'Reset to defaults',
+    CONFIRM_RESET_TITLE: 'Reset settings?',
+    CONFIRM_RESET_MESSAGE:
+      'Every setting on this screen goes back to its default. Working hours and calendars are kept.',
+    CONFIRM_RESET: 'Reset',
+    LOADING: 'Loading settings…',
+    SAVE_FAILED: 'Could not save your settings.',
+  },
+
+  // ========== HISTORY ==========
+  HISTORY: {
+    LINK: 'History',
+    TITLE: 'History',
+    SUBTITLE: (days: number) =>
+      `Your moods and wellness resets over the last ${days} days.`,
+    BUTTON_DONE: 'Done',
+    MOOD_ENTRY: (mood: string) => `Feeling ${mood}`,
+    EVENT_MOOD: (mood: string) => `Scheduled while ${mood}`,
+    LOADING: 'Loading your history…',
+    LOAD_FAILED: 'Could not load your history.',
+    EMPTY: 'Nothing recorded yet. Pick a mood or add a reset to start.',
+  },
+
+  // ========== INSIGHTS ==========
+  INSIGHTS: {
+    LINK: 'Insights',
+    TITLE: 'Insights',
+    SUBTITLE: 'How your planned resets turned into real ones.',
+    BUTTON_DONE: 'Done',
+    WEEKS: (weeks: number) => `${weeks}w`,
+    SECTION_MINUTES: 'Minutes per week',
+    LEGEND_SCHEDULED: 'Scheduled',
+    LEGEND_COMPLETED: 'Completed',
+    TOTALS: (completed: number, scheduled: number) =>
+      `${completed} of ${scheduled} scheduled minutes completed`,
+    SECTION_EXERCISES: 'Most used exercises by mood',
+    SECTION_MISMATCH: 'Exercise mood vs your mood',
+    MISMATCH: (percent: number) =>
+      `${percent}% of sessions used an exercise from a different mood`,
+    SECTION_EFFECT: 'Mood before → after',
+    EFFECT_RATED: (count: number) =>
+      `${count} rated ${count === 1 ? 'session' : 'sessions'}`,
+    EFFECT_SHIFT: (before: string, after: string) => `${before} → ${after}`,
+    EFFECT_EMPTY: 'Rate how you feel after a session to see its effect here.',
+    SECTION_DAYPART: 'Time of day',
+    DAYPART_LABELS: {
+      morning: 'Morning',
+      afternoon: 'Afternoon',
+      evening: 'Evening',
+    },
+    LOADING: 'Crunching your sessions…',
+    LOAD_FAILED: 'Could not load insights.',
+    EMPTY: 'No wellness sessions in this window yet.',
+  },
+
+  // ========== SESSION ==========
+  SESSION: {
+    BUTTON_CLOSE: 'Close',
+    BUTTON_START: 'Start',
+    BUTTON_PAUSE: 'Pause',
+    BUTTON_RESUME: 'Resume',
+    BUTTON_END: 'End session',
+    BUTTON_SAVE: 'Save & close',
+    BUTTON_DISCARD: 'Close without saving',
+    STEP_COUNTER: (index: number, total: number) => `Step ${index} of ${total}`,
+    PAUSED: 'Paused',
+    SUMMARY_TITLE: 'Session complete',
+    SUMMARY_PARTIAL_TITLE: 'Nice effort',
+    SUMMARY_MINUTES: (done: number, planned: number) =>
+      `${done} of ${planned} minutes`,
+    SUMMARY_HINT: 'Saving marks this reset in your Busy list and Insights.',
+    MOOD_AFTER_PROMPT: 'How do you feel now?',
+  },
+
+  // ========== BREATHING ==========
+  BREATHING: {
+    PHASE_INHALE: 'Breathe in',
+    PHASE_HOLD_IN: 'Hold',
+    PHASE_EXHALE: 'Breathe out',
+    PHASE_HOLD_OUT: 'Hold',
+    CYCLES: (count: number) => `${count} ${count === 1 ? 'cycle' : 'cycles'}`,
+    LABEL_PATTERN: 'Pattern',
+    BUTTON_MANAGE: 'Edit patterns',
+    TITLE: 'Breathing patterns',
+    SUBTITLE: 'Built-in patterns plus your own. Set a hold to 0 to skip it.',
+    BUTTON_DONE: 'Done',
+    BUTTON_SAVE: 'Save pattern',
+    BUTTON_DELETE: 'Delete',
+    SECTION_PATTERNS: 'Patterns',
+    SECTION_NEW: 'New pattern',
+    BADGE_BUILT_IN: 'Built-in',
+    PLACEHOLDER_NAME: 'Name',
+    FIELD_INHALE: 'In',
+    FIELD_HOLD_IN: 'Hold',
+    FIELD_EXHALE: 'Out',
+    FIELD_HOLD_OUT: 'Hold',
+    PHASE_SUMMARY: (seconds: number[]) => seconds.join('-'),
+    INVALID: (min: number, max: number) =>
+      `Add a name and in/out times between ${min} and ${max} seconds.`,
+    LOAD_FAILED: 'Could not load breathing patterns.',
+    SAVE_FAILED: 'Could not save the pattern. Please try again.',
+  },
+
+  // ========== EXERCISES ==========
+  EXERCISES: {
+    LINK: 'Exercises',
+    TITLE: 'My exercises',
+    SUBTITLE: 'Add your own resets. They show up for the moods you pick.',
+    BUTTON_DONE: 'Done',
+    SECTION_CUSTOM: 'Your exercises',
+    SECTION_EDIT: 'Edit exercise',
+    SECTION_NEW: 'New exercise',
+    EMPTY: 'No custom exercises yet.',
+    BUTTON_EDIT: 'Edit',
+    BUTTON_DELETE: 'Delete',
+    BUTTON_SAVE: 'Save exercise',
+    BUTTON_CANCEL_EDIT: 'Cancel',
+    PLACEHOLDER_NAME: 'Name (e.g., Eye rest 20-20-20)',
+    PLACEHOLDER_INSTRUCTIONS: 'One step per line',
+    LABEL_MOODS: 'Suits these moods',
+    LABEL_DURATION: 'Default duration',
+    LABEL_INSTRUCTIONS: 'Instructions',
+    MINUTES: (minutes: number) => `${minutes}m`,
+    SUMMARY: (moods: string[], minutes: number) =>
+      `${moods.join(', ')} · ${minutes}m`,
+    INVALID: 'Add a name and at least one mood.',
+    LOAD_FAILED: 'Could not load your exercises.',
+    SAVE_FAILED: 'Could not save the exercise. Please try again.',
+    CONFIRM_DELETE_TITLE: 'Delete exercise?',
+    CONFIRM_DELETE_MESSAGE: (name: string) =>
+      `${name} will no longer be suggested. Scheduled resets stay in your calendar.`,
+    CONFIRM_DELETE: 'Delete',
   },
 
   // ========== SUGGESTIONS ==========
   SUGGESTIONS: {
-    SECTION_TITLE: "Today's windows",
+    SECTION_TITLE: (dayLabel: string) => `Windows · ${dayLabel}`,
     CARD_TITLE_IDLE: 'Add a wellness pause',
     CARD_TITLE_ADDED: 'Locked in — nice!',
     CARD_META_IDLE: 'One tap to schedule',
@@ -52,39 +420,64 @@ export const STRINGS = {
     BUTTON_ADD: 'Add',
     BUTTON_ADDED: 'Added',
     TIME_PLACEHOLDER: (start: string, end: string) => `${start} → ${end}`,
+    BADGE_FIT: (score: number) => `${score}% fit`,
+    BADGE_BEST_FIT: (score: number) => `Best fit · ${score}%`,
   },
 
   // ========== ALERTS ==========
   ALERTS: {
     ALREADY_ADDED_TITLE: 'Already added',
-    ALREADY_ADDED_MESSAGE: 'Manage removals from the Busy list.',
+    ALREADY_ADDED_MESSAGE: 'Move or remove it from the Busy list.',
     CHOOSE_EXERCISE_TITLE: 'Choose exercise',
     CHOOSE_EXERCISE_MESSAGE: 'Pick an exercise for this slot before adding.',
     TOO_LATE_TITLE: 'Too late',
-    TOO_LATE_MESSAGE: 'Pick a time in the future today.',
-    TODAY_ONLY_TITLE: 'Today only',
-    TODAY_ONLY_MESSAGE: 'You can only add events for today.',
+    TOO_LATE_MESSAGE: 'Pick a time in the future.',
+    OUTSIDE_HORIZON_TITLE: 'Too far ahead',
+    OUTSIDE_HORIZON_MESSAGE: (days: number) =>
+      `You can plan up to ${days} days ahead.`,
     CONFLICT_TITLE: 'Conflict',
-    CONFLICT_MESSAGE: 'This time overlaps with another event.',
+    CONFLICT_MESSAGE:
+      'This time overlaps with another event or the buffer around it.',
     FUTURE_VALIDATION_TITLE: 'Too late',
     FUTURE_VALIDATION_MESSAGE: 'Pick a time in the future.',
     CALENDAR_ERROR_TITLE: 'Calendar error',
     CALENDAR_ERROR_MESSAGE: 'Could not update your calendar.',
     PERMISSIONS_DENIED: 'Calendar access denied. Please enable permissions.',
+    REMOVE_RECURRING_TITLE: 'Remove recurring reset',
+    REMOVE_RECURRING_MESSAGE:
+      'Remove only this occurrence or every occurrence in the series?',
+    REMOVE_OCCURRENCE: 'This occurrence',
+    REMOVE_SERIES: 'Whole series',
+    CANCEL: 'Cancel',
   },
 
   // ========== BANNERS ==========
   BANNERS: {
     ADDED: 'Added to your calendar',
     ADD_FAILED: 'Calendar add failed',
-    REMOVED_AND_REFRESHED: 'Removed and refreshed',
+    REMOVED: 'Reset removed',
+    REMOVE_FAILED: 'Could not remove the reset',
+    UNDO: 'Undo',
+    RESTORED: 'Reset restored',
+    RESTORE_FAILED: 'Could not restore the reset',
+    CHANGED_ELSEWHERE: (deleted: number, moved: number) =>
+      [
+        deleted
+          ? `${deleted} reset${deleted === 1 ? ' was' : 's were'} deleted`
+          : '',
+        moved ? `${moved} reset${moved === 1 ? ' was' : 's were'} moved` : '',
+      ]
+        .filter(Boolean)
+        .join(' and ') + ' in another app',
+    MOVED: 'Moved in your calendar',
+    MOVE_FAILED: 'Could not move the reset',
+    OUTCOME_SAVED: 'Session logged',
+    OUTCOME_FAILED: 'Could not log session',
     RESYNC_FAILED: 'Resync failed',
   },
 
   // ========== LABELS ==========
   LABELS: {
-    DURATION_15M: '15m',
-    DURATION_30M: '30m',
     EXERCISE: (name?: string) => name || 'Wellness practice',
     MOOD: (moodName: string) => moodName,
   },
@@ -106,6 +499,7 @@ export const STRINGS = {
   // ========== EMPTY STATES ==========
   EMPTY_STATES: {
     NO_SUGGESTIONS: 'No available slots.',
+    NO_WINDOWS: 'No free windows found for this day.',
   },
 
   // ========== TIME PICKER ==========
@@ -0,0 +1,360 @@
+/**
+ * BreathingPatternsScreen Component
+ *
+ * Breathing pattern library, presented as a modal from the session player:
+ * - Lists built-in and custom patterns with their phase timings
+ * - Creates custom inhale/hold/exhale/hold patterns
+ * - Deletes custom patterns
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import * as CONSTS from '../constants/app';
+import { COLORS } from '../constants/colors';
+import { STRINGS } from '../constants/strings';
+import BreathingPatternService from '../services/BreathingPatternService';
+import {
+  BreathingPattern,
+  BreathPhase,
+  BreathPhaseKind,
+} from '../types/breathing';
+import { MOOD_THEMES, MoodKey } from '../types/mood';
+
+type Props = {
+  visible: boolean;
+  mood: MoodKey;
+  onClose: (changed: boolean) => void; // changed: patterns were added or deleted
+};
+
+const FIELDS: { kind: BreathPhaseKind; label: string }[] = [
+  { kind: 'inhale', label: STRINGS.BREATHING.FIELD_INHALE },
+  { kind: 'holdIn', label: STRINGS.BREATHING.FIELD_HOLD_IN },
+  { kind: 'exhale', label: STRINGS.BREATHING.FIELD_EXHALE },
+  { kind: 'holdOut', label: STRINGS.BREATHING.FIELD_HOLD_OUT },
+];
+
+const EMPTY_FORM: Record<BreathPhaseKind, string> = {
+  inhale: '4',
+  holdIn: '0',
+  exhale: '6',
+  holdOut: '0',
+};
+
+/**
+ * buildPhases: Turns the form fields into phases, skipping zero-length holds
+ */
+const buildPhases = (form: Record<BreathPhaseKind, string>): BreathPhase[] =>
+  FIELDS.map(({ kind }) => ({
+    kind,
+    seconds: Number(form[kind].replace(',', '.')),
+  })).filter(
+    phase =>
+      phase.seconds > 0 || phase.kind === 'inhale' || phase.kind === 'exhale',
+  );
+
+const BreathingPatternsScreen = ({ visible, mood, onClose }: Props) => {
+  const theme = MOOD_THEMES[mood];
+  const [patterns, setPatterns] = useState<BreathingPattern[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [changed, setChanged] = useState(false);
+  const [name, setName] = useState('');
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  /**
+   * load: Reads built-in and custom patterns
+   */
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(undefined);
+    try {
+      setPatterns(await BreathingPatternService.listPatterns());
+    } catch (caughtError) {
+      console.warn('Unable to load breathing patterns', caughtError);
+      setError(STRINGS.BREATHING.LOAD_FAILED);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload every time the screen opens
+  useEffect(() => {
+    if (visible) {
+      setChanged(false);
+      load();
+    }
+  }, [visible, load]);
+
+  const draft = {
+    id: 'draft',
+    name,
+    phases: buildPhases(form),
+  };
+  const isValid = BreathingPatternService.isValidPattern(draft);
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    try {
+      await BreathingPatternService.saveCustomPattern({
+        name,
+        phases: draft.phases,
+      });
+      setName('');
+      setForm(EMPTY_FORM);
+      setChanged(true);
+      load();
+    } catch (caughtError) {
+      console.warn('Unable to save breathing pattern', caughtError);
+      setError(STRINGS.BREATHING.SAVE_FAILED);
+    }
+  };
+
+  const handleDelete = async (patternId: string) => {
+    try {
+      await BreathingPatternService.deleteCustomPattern(patternId);
+      setChanged(true);
+      load();
+    } catch (caughtError) {
+      console.warn('Unable to delete breathing pattern', caughtError);
+      setError(STRINGS.BREATHING.SAVE_FAILED);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={() => onClose(changed)}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{STRINGS.BREATHING.TITLE}</Text>
+            <Text style={styles.subtitle}>{STRINGS.BREATHING.SUBTITLE}</Text>
+          </View>
+          <Pressable onPress={() => onClose(changed)}>
+            <Text style={[styles.done, { color: theme.primary }]}>
+              {STRINGS.BREATHING.BUTTON_DONE}
+            </Text>
+          </Pressable>
+        </View>
+
+        {loading && (
+          <View style={styles.stateRow}>
+            <ActivityIndicator />
+          </View>
+        )}
+        {!loading && error && (
+          <View style={styles.stateRow}>
+            <Text style={[styles.stateText, styles.error]}>{error}</Text>
+          </View>
+        )}
+
+        {!loading && (
+          <ScrollView
+            contentContainerStyle={styles.content}
+            keyboardShouldPersistTaps="handled"
+          >
+            <Text style={styles.sectionTitle}>
+              {STRINGS.BREATHING.SECTION_PATTERNS}
+            </Text>
+            {patterns.map(pattern => (
+              <View key={pattern.id} style={styles.row}>
+                <View style={styles.rowText}>
+                  <Text style={styles.rowTitle}>{pattern.name}</Text>
+                  <Text style={styles.rowMeta}>
+                    {STRINGS.BREATHING.PHASE_SUMMARY(
+                      pattern.phases.map(phase => phase.seconds),
+                    )}
+                  </Text>
+                </View>
+                {pattern.isCustom ? (
+                  <Pressable onPress={() => handleDelete(pattern.id)}>
+                    <Text style={styles.delete}>
+                      {STRINGS.BREATHING.BUTTON_DELETE}
+                    </Text>
+                  </Pressable>
+                ) : (
+                  <Text style={styles.rowMeta}>
+                    {STRINGS.BREATHING.BADGE_BUILT_IN}
+                  </Text>
+                )}
+              </View>
+            ))}
+
+            <Text style={styles.sectionTitle}>
+              {STRINGS.BREATHING.SECTION_NEW}
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder={STRINGS.BREATHING.PLACEHOLDER_NAME}
+              placeholderTextColor={COLORS.TEXT_TERTIARY}
+            />
+            <View style={styles.fieldRow}>
+              {FIELDS.map(field => (
+                <View key={field.kind} style={styles.field}>
+                  <Text style={styles.rowMeta}>{field.label}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form[field.kind]}
+                    onChangeText={value =>
+                      setForm(prev => ({ ...prev, [field.kind]: value }))
+                    }
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              ))}
+            </View>
+            {!isValid && (
+              <Text style={styles.rowMeta}>
+                {STRINGS.BREATHING.INVALID(
+                  CONSTS.BREATHING.MIN_PHASE_SECONDS,
+                  CONSTS.BREATHING.MAX_PHASE_SECONDS,
+                )}
+              </Text>
+            )}
+            <Pressable
+              style={[
+                styles.saveButton,
+                { backgroundColor: theme.primary },
+                !isValid && styles.saveDisabled,
+              ]}
+              disabled={!isValid}
+              onPress={handleSave}
+            >
+              <Text style={styles.saveText}>
+                {STRINGS.BREATHING.BUTTON_SAVE}
+              </Text>
+            </Pressable>
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BG_WHITE,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  subtitle: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 14,
+  },
+  done: {
+    fontSize: 16,
+    fontWeight: '700',
+    paddingVertical: 6,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 48,
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: COLORS.BG_LIGHTER,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontWeight: '700',
+    color: COLORS.TEXT_SECONDARY,
+  },
+  rowMeta: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 12,
+  },
+  delete: {
+    color: COLORS.TEXT_ERROR,
+    fontWeight: '700',
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+    gap: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.BG_LIGHTER,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    color: COLORS.TEXT_PRIMARY,
+  },
+  saveButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveDisabled: {
+    opacity: 0.4,
+  },
+  saveText: {
+    color: COLORS.TEXT_INVERSE,
+    fontWeight: '800',
+  },
+  stateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  stateText: {
+    fontSize: 15,
+    color: COLORS.TEXT_TERTIARY,
+  },
+  error: {
+    color: COLORS.TEXT_ERROR,
+  },
+});
+
+export default BreathingPatternsScreen;
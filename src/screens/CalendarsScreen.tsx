@@ -0,0 +1,649 @@
+/**
+ * CalendarsScreen Component
+ *
+ * Calendar management, presented as a full-screen modal from HomeScreen:
+ * - Lists every device calendar with a "counts as busy" toggle
+ * - Lets the user pick the single calendar that receives wellness events
+ * - Sets the buffers kept free before and after meetings
+ * - Chooses how all-day events count (ignored, busy or out of office)
+ * - Decides whether tentative events block time
+ * - Persists choices immediately via CalendarService preferences
+ * - Rewrites old or hand-edited wellness metadata in the current format
+ * - Removes the app's own Wellness calendar or all app data on request
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import * as CONSTS from '../constants/app';
+import { COLORS } from '../constants/colors';
+import { STRINGS } from '../constants/strings';
+import CalendarService, {
+  AllDayMode,
+  CalendarInfo,
+  CalendarPreferences,
+  MeetingBuffers,
+} from '../services/CalendarService';
+import SettingsService from '../services/SettingsService';
+import { MOOD_THEMES, MoodKey } from '../types/mood';
+import { addDays } from '../utils/date';
+
+type BufferField = 'beforeMinutes' | 'afterMinutes' | 'afterLongMinutes';
+
+const ALL_DAY_OPTIONS: Array<{ mode: AllDayMode; label: string }> = [
+  { mode: 'ignore', label: STRINGS.CALENDARS.ALL_DAY_IGNORE },
+  { mode: 'busy', label: STRINGS.CALENDARS.ALL_DAY_BUSY },
+  { mode: 'outOfOffice', label: STRINGS.CALENDARS.ALL_DAY_OUT_OF_OFFICE },
+];
+
+type Props = {
+  visible: boolean;
+  mood: MoodKey;
+  onClose: (changed: boolean) => void; // changed: preferences were edited
+  onDataDeleted: () => void; // Everything stored on device was just deleted
+};
+
+const CalendarsScreen = ({ visible, mood, onClose, onDataDeleted }: Props) => {
+  const theme = MOOD_THEMES[mood];
+  const [calendars, setCalendars] = useState<CalendarInfo[]>([]);
+  const [preferences, setPreferences] = useState<CalendarPreferences | null>(
+    null,
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>(undefined);
+  // Failed actions show next to the buttons; the screen stays usable
+  const [actionError, setActionError] = useState<string | undefined>(undefined);
+  const [changed, setChanged] = useState(false);
+  const [migrating, setMigrating] = useState(false);
+  const [migrationResult, setMigrationResult] = useState<string | undefined>(
+    undefined,
+  );
+
+  /**
+   * load: Reads device calendars and stored preferences
+   */
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(undefined);
+    try {
+      const [list, stored] = await Promise.all([
+        CalendarService.listCalendars(),
+        CalendarService.loadCalendarPreferences(),
+      ]);
+      setCalendars(list);
+      setPreferences(stored);
+    } catch (caughtError) {
+      console.warn('Unable to load calendars', caughtError);
+      setError(STRINGS.CALENDARS.LOAD_FAILED);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload every time the screen opens
+  useEffect(() => {
+    if (visible) {
+      setChanged(false);
+      setMigrationResult(undefined);
+      setActionError(undefined);
+      load();
+    }
+  }, [visible, load]);
+
+  /**
+   * update: Applies and persists a preference change
+   */
+  const update = (next: CalendarPreferences) => {
+    setPreferences(next);
+    setChanged(true);
+    CalendarService.saveCalendarPreferences(next).catch(caughtError =>
+      console.warn('Unable to save calendar preferences', caughtError),
+    );
+  };
+
+  const toggleBusy = (calendarId: string, busy: boolean) => {
+    if (!preferences) return;
+    const excluded = preferences.excludedCalendarIds.filter(
+      id => id !== calendarId,
+    );
+    update({
+      ...preferences,
+      excludedCalendarIds: busy ? excluded : [...excluded, calendarId],
+    });
+  };
+
+  const selectTarget = (calendarId?: string) => {
+    if (!preferences) return;
+    update({ ...preferences, targetCalendarId: calendarId });
+  };
+
+  const setBuffer = (field: BufferField, minutes: number) => {
+    if (!preferences) return;
+    const buffers: MeetingBuffers = {
+      ...preferences.buffers,
+      [field]: minutes,
+    };
+    update({ ...preferences, buffers });
+  };
+
+  /**
+   * confirmThen: Asks before a destructive action, then reloads the list
+   */
+  const confirmThen = (
+    title: string,
+    message: string,
+    action: () => Promise<unknown>,
+  ) => {
+    Alert.alert(title, message, [
+      { text: STRINGS.ALERTS.CANCEL, style: 'cancel' },
+      {
+        text: STRINGS.CALENDARS.CONFIRM_DESTRUCTIVE,
+        style: 'destructive',
+        onPress: async () => {
+          setActionError(undefined);
+          try {
+            await action();
+            setChanged(true);
+            load();
+          } catch (caughtError) {
+            console.warn('Calendar data action failed', caughtError);
+            setActionError(STRINGS.CALENDARS.ACTION_FAILED);
+          }
+        },
+      },
+    ]);
+  };
+
+  /**
+   * migrate: Rewrites wellness metadata from the recent past through the horizon
+   */
+  const migrate = async () => {
+    setMigrating(true);
+    setActionError(undefined);
+    setMigrationResult(undefined);
+    try {
+      const pastDays = CONSTS.CALENDAR.META_MIGRATION_PAST_DAYS;
+      const report = await CalendarService.migrateWellnessEvents(
+        pastDays + SettingsService.getSettings().daysToFetch,
+        { startDate: addDays(new Date(), -pastDays) },
+      );
+      setMigrationResult(
+        STRINGS.CALENDARS.MIGRATE_RESULT(report.migrated, report.unreadable),
+      );
+      if (report.migrated) setChanged(true);
+      if (report.failed) setActionError(STRINGS.CALENDARS.ACTION_FAILED);
+    } catch (caughtError) {
+      console.warn('Wellness metadata migration failed', caughtError);
+      setActionError(STRINGS.CALENDARS.ACTION_FAILED);
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  // The app calendar is the implicit default, so it is not listed twice
+  const writable = calendars.filter(
+    calendar => calendar.isWritable && !calendar.isAppCalendar,
+  );
+  const hasAppCalendar = calendars.some(calendar => calendar.isAppCalendar);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={() => onClose(changed)}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{STRINGS.CALENDARS.TITLE}</Text>
+            <Text style={styles.subtitle}>{STRINGS.CALENDARS.SUBTITLE}</Text>
+          </View>
+          <Pressable onPress={() => onClose(changed)}>
+            <Text style={[styles.done, { color: theme.primary }]}>
+              {STRINGS.CALENDARS.BUTTON_DONE}
+            </Text>
+          </Pressable>
+        </View>
+
+        {loading && (
+          <View style={styles.stateRow}>
+            <ActivityIndicator />
+            <Text style={styles.stateText}>{STRINGS.CALENDARS.LOADING}</Text>
+          </View>
+        )}
+        {!loading && error && (
+          <View style={styles.stateRow}>
+            <Text style={[styles.stateText, styles.error]}>{error}</Text>
+          </View>
+        )}
+
+        {!loading && !error && preferences && (
+          <ScrollView contentContainerStyle={styles.content}>
+            {/* Busy toggles */}
+            <Text style={styles.sectionTitle}>
+              {STRINGS.CALENDARS.SECTION_BUSY}
+            </Text>
+            {calendars.map(calendar => {
+              // Wellness events live in the target and app calendars
+              const isTarget =
+                calendar.isAppCalendar ||
+                calendar.id === preferences.targetCalendarId;
+              const busy =
+                isTarget ||
+                !preferences.excludedCalendarIds.includes(calendar.id);
+              return (
+                <View key={calendar.id} style={styles.row}>
+                  <View
+                    style={[
+                      styles.swatch,
+                      { backgroundColor: calendar.color ?? COLORS.BG_LIGHTER },
+                    ]}
+                  />
+                  <View style={styles.rowText}>
+                    <Text style={styles.rowTitle}>{calendar.title}</Text>
+                    <Text style={styles.rowMeta}>
+                      {isTarget
+                        ? STRINGS.CALENDARS.TARGET_ALWAYS_BUSY
+                        : [
+                            calendar.isAppCalendar
+                              ? STRINGS.CALENDARS.APP_CALENDAR_BADGE
+                              : calendar.source,
+                            !calendar.isWritable && STRINGS.CALENDARS.READ_ONLY,
+                          ]
+                            .filter(Boolean)
+                            .join(' · ')}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={busy}
+                    disabled={isTarget}
+                    onValueChange={value => toggleBusy(calendar.id, value)}
+                    trackColor={{
+                      true: theme.primary,
+                      false: COLORS.BG_LIGHTER,
+                    }}
+                  />
+                </View>
+              );
+            })}
+
+            {/* Target calendar (single choice) */}
+            <Text style={styles.sectionTitle}>
+              {STRINGS.CALENDARS.SECTION_TARGET}
+            </Text>
+            {[undefined, ...writable].map(calendar => {
+              const id = calendar?.id;
+              const active = preferences.targetCalendarId === id;
+              return (
+                <Pressable
+                  key={id ?? 'automatic'}
+                  style={styles.row}
+                  onPress={() => selectTarget(id)}
+                >
+                  <View
+                    style={[
+                      styles.radio,
+                      { borderColor: theme.primary },
+                      active && { backgroundColor: theme.primary },
+                    ]}
+                  />
+                  <View style={styles.rowText}>
+                    <Text style={styles.rowTitle}>
+                      {calendar?.title ?? STRINGS.CALENDARS.AUTOMATIC}
+                    </Text>
+                    {!!calendar?.source && (
+                      <Text style={styles.rowMeta}>{calendar.source}</Text>
+                    )}
+                  </View>
+                </Pressable>
+              );
+            })}
+
+            {/* Meeting buffers */}
+            <Text style={styles.sectionTitle}>
+              {STRINGS.CALENDARS.SECTION_BUFFERS}
+            </Text>
+            <Text style={styles.rowMeta}>{STRINGS.CALENDARS.BUFFERS_HINT}</Text>
+            {(
+              [
+                ['beforeMinutes', STRINGS.CALENDARS.BUFFER_BEFORE],
+                ['afterMinutes', STRINGS.CALENDARS.BUFFER_AFTER],
+                [
+                  'afterLongMinutes',
+                  STRINGS.CALENDARS.BUFFER_AFTER_LONG(
+                    preferences.buffers.longMeetingMinutes,
+                  ),
+                ],
+              ] as Array<[BufferField, string]>
+            ).map(([field, label]) => (
+              <View key={field} style={styles.bufferRow}>
+                <Text style={styles.rowTitle}>{label}</Text>
+                <View style={styles.chipRow}>
+                  {CONSTS.BUFFERS.OPTIONS.map(minutes => {
+                    const active = preferences.buffers[field] === minutes;
+                    return (
+                      <Pressable
+                        key={minutes}
+                        style={[
+                          styles.chip,
+                          active && { backgroundColor: theme.primary },
+                        ]}
+                        onPress={() => setBuffer(field, minutes)}
+                      >
+                        <Text
+                          style={[
+                            styles.chipText,
+                            active && styles.chipTextActive,
+                          ]}
+                        >
+                          {STRINGS.CALENDARS.BUFFER_MINUTES(minutes)}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+
+            {/* Tentative events */}
+            <View style={styles.row}>
+              <View style={styles.rowText}>
+                <Text style={styles.rowTitle}>
+                  {STRINGS.CALENDARS.TENTATIVE_IS_BUSY}
+                </Text>
+                <Text style={styles.rowMeta}>
+                  {STRINGS.CALENDARS.TENTATIVE_HINT}
+                </Text>
+              </View>
+              <Switch
+                value={preferences.tentativeIsBusy}
+                onValueChange={value =>
+                  update({ ...preferences, tentativeIsBusy: value })
+                }
+                trackColor={{
+                  true: theme.primary,
+                  false: COLORS.BG_LIGHTER,
+                }}
+              />
+            </View>
+
+            {/* All-day events */}
+            <Text style={styles.sectionTitle}>
+              {STRINGS.CALENDARS.SECTION_ALL_DAY}
+            </Text>
+            <View style={styles.chipRow}>
+              {ALL_DAY_OPTIONS.map(option => {
+                const active = preferences.allDayMode === option.mode;
+                return (
+                  <Pressable
+                    key={option.mode}
+                    style={[
+                      styles.chip,
+                      active && { backgroundColor: theme.primary },
+                    ]}
+                    onPress={() =>
+                      update({ ...preferences, allDayMode: option.mode })
+                    }
+                  >
+                    <Text
+                      style={[styles.chipText, active && styles.chipTextActive]}
+                    >
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <Text style={styles.rowMeta}>
+              {STRINGS.CALENDARS.ALL_DAY_HINT[preferences.allDayMode]}
+            </Text>
+
+            {/* App-owned calendar and local data */}
+            <Text style={styles.sectionTitle}>
+              {STRINGS.CALENDARS.SECTION_APP_DATA}
+            </Text>
+            <Text style={styles.rowMeta}>
+              {STRINGS.CALENDARS.APP_DATA_HINT}
+            </Text>
+            <View style={styles.row}>
+              <View style={styles.rowText}>
+                <Text style={styles.rowTitle}>
+                  {STRINGS.CALENDARS.RESETS_SHOW_AS_FREE}
+                </Text>
+                <Text style={styles.rowMeta}>
+                  {STRINGS.CALENDARS.RESETS_SHOW_AS_FREE_HINT}
+                </Text>
+              </View>
+              <Switch
+                value={preferences.resetsShowAsFree}
+                onValueChange={value =>
+                  update({ ...preferences, resetsShowAsFree: value })
+                }
+                trackColor={{
+                  true: theme.primary,
+                  false: COLORS.BG_LIGHTER,
+                }}
+              />
+            </View>
+            <View style={styles.actions}>
+              <Text style={styles.rowMeta}>
+                {STRINGS.CALENDARS.MIGRATE_HINT}
+              </Text>
+              <Pressable
+                style={[styles.migrateButton, { borderColor: theme.primary }]}
+                disabled={migrating}
+                onPress={migrate}
+              >
+                {migrating ? (
+                  <ActivityIndicator />
+                ) : (
+                  <Text style={[styles.migrateText, { color: theme.primary }]}>
+                    {STRINGS.CALENDARS.BUTTON_MIGRATE}
+                  </Text>
+                )}
+              </Pressable>
+              {!!migrationResult && (
+                <Text style={styles.rowMeta}>{migrationResult}</Text>
+              )}
+              {!!actionError && (
+                <Text style={[styles.rowMeta, styles.error]}>
+                  {actionError}
+                </Text>
+              )}
+              {hasAppCalendar && (
+                <Pressable
+                  style={[styles.dangerButton, styles.dangerButtonGhost]}
+                  onPress={() =>
+                    confirmThen(
+                      STRINGS.CALENDARS.CONFIRM_REMOVE_TITLE,
+                      STRINGS.CALENDARS.CONFIRM_REMOVE_MESSAGE,
+                      CalendarService.removeAppCalendar,
+                    )
+                  }
+                >
+                  <Text style={styles.dangerGhostText}>
+                    {STRINGS.CALENDARS.BUTTON_REMOVE_APP_CALENDAR}
+                  </Text>
+                </Pressable>
+              )}
+              <Pressable
+                style={styles.dangerButton}
+                onPress={() =>
+                  confirmThen(
+                    STRINGS.CALENDARS.CONFIRM_DELETE_ALL_TITLE,
+                    STRINGS.CALENDARS.CONFIRM_DELETE_ALL_MESSAGE,
+                    async () => {
+                      await CalendarService.deleteAllAppData();
+                      onDataDeleted();
+                    },
+                  )
+                }
+              >
+                <Text style={styles.dangerText}>
+                  {STRINGS.CALENDARS.BUTTON_DELETE_ALL}
+                </Text>
+              </Pressable>
+            </View>
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BG_WHITE,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  subtitle: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 14,
+  },
+  done: {
+    fontSize: 16,
+    fontWeight: '700',
+    paddingVertical: 6,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 48,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 16,
+    marginBottom: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: COLORS.BG_LIGHTER,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontWeight: '700',
+    color: COLORS.TEXT_SECONDARY,
+  },
+  rowMeta: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 12,
+  },
+  bufferRow: {
+    paddingVertical: 8,
+    gap: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.BG_LIGHT,
+  },
+  chipText: {
+    color: COLORS.TEXT_PRIMARY,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: COLORS.TEXT_INVERSE,
+  },
+  swatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  radio: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+  },
+  actions: {
+    marginTop: 12,
+    gap: 10,
+  },
+  migrateButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1.2,
+    alignItems: 'center',
+  },
+  migrateText: {
+    fontWeight: '800',
+  },
+  dangerButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: COLORS.TEXT_ERROR,
+  },
+  dangerButtonGhost: {
+    backgroundColor: COLORS.BG_WHITE,
+    borderWidth: 1.2,
+    borderColor: COLORS.TEXT_ERROR,
+  },
+  dangerText: {
+    color: COLORS.TEXT_INVERSE,
+    fontWeight: '800',
+  },
+  dangerGhostText: {
+    color: COLORS.TEXT_ERROR,
+    fontWeight: '800',
+  },
+  stateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  stateText: {
+    fontSize: 15,
+    color: COLORS.TEXT_TERTIARY,
+  },
+  error: {
+    color: COLORS.TEXT_ERROR,
+  },
+});
+
+export default CalendarsScreen;
@@ -0,0 +1,284 @@
+/**
+ * CheckInScreen Component
+ *
+ * Two-axis mood check-in, presented as a modal from the Header:
+ * - Energy and stress rated on a 1-5 scale
+ * - Live preview of the closest mood theme
+ * - Optional free-text note stored in the mood journal
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import * as CONSTS from '../constants/app';
+import { COLORS } from '../constants/colors';
+import { STRINGS } from '../constants/strings';
+import MoodService from '../services/MoodService';
+import { MOOD_THEMES, MoodCheckIn, MoodTheme } from '../types/mood';
+
+type Props = {
+  visible: boolean;
+  moods: MoodTheme[]; // Moods the check-in may map to
+  initial?: MoodCheckIn; // Last check-in, used as the starting point
+  onCancel: () => void;
+  onSave: (checkIn: MoodCheckIn) => void;
+};
+
+const LEVELS = Array.from(
+  { length: CONSTS.CHECK_IN.MAX_LEVEL - CONSTS.CHECK_IN.MIN_LEVEL + 1 },
+  (_, index) => CONSTS.CHECK_IN.MIN_LEVEL + index,
+);
+
+const MIDDLE_LEVEL = LEVELS[Math.floor(LEVELS.length / 2)];
+
+/**
+ * LevelRow: One axis of the check-in as a row of numbered pills
+ */
+const LevelRow = ({
+  label,
+  scale,
+  value,
+  color,
+  onChange,
+}: {
+  label: string;
+  scale: readonly string[];
+  value: number;
+  color: string;
+  onChange: (value: number) => void;
+}) => (
+  <View style={styles.axis}>
+    <View style={styles.axisHeader}>
+      <Text style={styles.axisLabel}>{label}</Text>
+      <Text style={[styles.axisValue, { color }]}>
+        {scale[value - CONSTS.CHECK_IN.MIN_LEVEL]}
+      </Text>
+    </View>
+    <View style={styles.levelRow}>
+      {LEVELS.map(level => {
+        const active = level === value;
+        return (
+          <Pressable
+            key={level}
+            style={[
+              styles.level,
+              { borderColor: color },
+              active && { backgroundColor: color },
+            ]}
+            onPress={() => onChange(level)}
+          >
+            <Text style={[styles.levelText, active && styles.levelTextActive]}>
+              {level}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  </View>
+);
+
+const CheckInScreen = ({
+  visible,
+  moods,
+  initial,
+  onCancel,
+  onSave,
+}: Props) => {
+  const [energy, setEnergy] = useState(MIDDLE_LEVEL);
+  const [stress, setStress] = useState(MIDDLE_LEVEL);
+  const [note, setNote] = useState('');
+
+  // Start from the last check-in every time the screen opens
+  useEffect(() => {
+    if (!visible) return;
+    setEnergy(initial?.energy ?? MIDDLE_LEVEL);
+    setStress(initial?.stress ?? MIDDLE_LEVEL);
+    setNote('');
+  }, [visible, initial?.energy, initial?.stress]);
+
+  const closest = MoodService.moodForLevels({ energy, stress }, moods);
+  const theme = MOOD_THEMES[closest];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{STRINGS.CHECK_IN.TITLE}</Text>
+            <Text style={styles.subtitle}>{STRINGS.CHECK_IN.SUBTITLE}</Text>
+          </View>
+          <Pressable onPress={onCancel}>
+            <Text style={[styles.done, { color: theme.primary }]}>
+              {STRINGS.CHECK_IN.BUTTON_CANCEL}
+            </Text>
+          </Pressable>
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+        >
+          <LevelRow
+            label={STRINGS.CHECK_IN.LABEL_ENERGY}
+            scale={STRINGS.CHECK_IN.SCALE_ENERGY}
+            value={energy}
+            color={theme.primary}
+            onChange={setEnergy}
+          />
+          <LevelRow
+            label={STRINGS.CHECK_IN.LABEL_STRESS}
+            scale={STRINGS.CHECK_IN.SCALE_STRESS}
+            value={stress}
+            color={theme.primary}
+            onChange={setStress}
+          />
+
+          <View
+            style={[
+              styles.result,
+              { backgroundColor: theme.accent, borderColor: theme.primary },
+            ]}
+          >
+            <Text style={styles.resultText}>
+              {STRINGS.CHECK_IN.RESULT(theme.title)}
+            </Text>
+          </View>
+
+          <Text style={styles.axisLabel}>{STRINGS.CHECK_IN.LABEL_NOTE}</Text>
+          <TextInput
+            style={styles.input}
+            value={note}
+            onChangeText={setNote}
+            placeholder={STRINGS.CHECK_IN.PLACEHOLDER_NOTE}
+            placeholderTextColor={COLORS.TEXT_TERTIARY}
+            multiline
+          />
+
+          <Pressable
+            style={[styles.saveButton, { backgroundColor: theme.primary }]}
+            onPress={() => onSave({ energy, stress, note })}
+          >
+            <Text style={styles.saveText}>{STRINGS.CHECK_IN.BUTTON_SAVE}</Text>
+          </Pressable>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BG_WHITE,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  subtitle: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 14,
+  },
+  done: {
+    fontSize: 16,
+    fontWeight: '700',
+    paddingVertical: 6,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 48,
+    gap: 14,
+  },
+  axis: {
+    gap: 8,
+  },
+  axisHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  axisLabel: {
+    fontSize: 15,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  axisValue: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  levelRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  level: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  levelText: {
+    fontWeight: '700',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  levelTextActive: {
+    color: COLORS.TEXT_INVERSE,
+  },
+  result: {
+    paddingVertical: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  resultText: {
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  input: {
+    minHeight: 72,
+    borderWidth: 1,
+    borderColor: COLORS.BG_LIGHTER,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    color: COLORS.TEXT_PRIMARY,
+    textAlignVertical: 'top',
+  },
+  saveButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveText: {
+    color: COLORS.TEXT_INVERSE,
+    fontWeight: '800',
+  },
+});
+
+export default CheckInScreen;
@@ -0,0 +1,485 @@
+/**
+ * ExercisesScreen Component
+ *
+ * Custom exercise editor, presented as a modal from HomeScreen:
+ * - Lists the user's own exercises
+ * - Creates and edits name, moods, default duration and instructions
+ * - Deletes exercises after confirmation
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import * as CONSTS from '../constants/app';
+import { COLORS } from '../constants/colors';
+import { STRINGS } from '../constants/strings';
+import ExerciseService, {
+  CustomExerciseInput,
+} from '../services/ExerciseService';
+import SettingsService from '../services/SettingsService';
+import { Exercise } from '../types/exercise';
+import { MOOD_THEMES, MoodKey } from '../types/mood';
+
+type Props = {
+  visible: boolean;
+  mood: MoodKey;
+  onClose: (changed: boolean) => void; // changed: exercises were edited
+};
+
+type Draft = {
+  id?: string;
+  name: string;
+  moods: MoodKey[];
+  defaultMinutes: number;
+  instructions: string; // One step per line
+};
+
+const emptyDraft = (mood: MoodKey): Draft => ({
+  name: '',
+  moods: [mood],
+  defaultMinutes: SettingsService.getSettings().shortMinutes,
+  instructions: '',
+});
+
+/**
+ * toInput: Converts the form draft to service input
+ */
+const toInput = (draft: Draft): CustomExerciseInput => ({
+  id: draft.id,
+  name: draft.name,
+  moods: draft.moods,
+  defaultMinutes: draft.defaultMinutes,
+  instructions: draft.instructions.split('\n'),
+});
+
+const ExercisesScreen = ({ visible, mood, onClose }: Props) => {
+  const theme = MOOD_THEMES[mood];
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [changed, setChanged] = useState(false);
+  const [draft, setDraft] = useState<Draft>(() => emptyDraft(mood));
+
+  /**
+   * load: Reads custom exercises
+   */
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(undefined);
+    try {
+      setExercises(await ExerciseService.loadCustomExercises());
+    } catch (caughtError) {
+      console.warn('Unable to load custom exercises', caughtError);
+      setError(STRINGS.EXERCISES.LOAD_FAILED);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload every time the screen opens
+  useEffect(() => {
+    if (visible) {
+      setChanged(false);
+      load();
+    }
+  }, [visible, load]);
+
+  /**
+   * close: Clears the editor so the next visit starts fresh
+   */
+  const close = () => {
+    setDraft(emptyDraft(mood));
+    onClose(changed);
+  };
+
+  const isValid = ExerciseService.isValidCustomExercise(toInput(draft));
+
+  // The reset lengths from Settings, plus the exercise's own when it differs
+  const { shortMinutes, longMinutes } = SettingsService.getSettings();
+  const durations = Array.from(
+    new Set<number>([shortMinutes, longMinutes, draft.defaultMinutes]),
+  ).sort((a, b) => a - b);
+
+  const toggleMood = (key: MoodKey) => {
+    setDraft(prev => ({
+      ...prev,
+      moods: prev.moods.includes(key)
+        ? prev.moods.filter(item => item !== key)
+        : [...prev.moods, key],
+    }));
+  };
+
+  const startEdit = (exercise: Exercise) => {
+    setDraft({
+      id: exercise.id,
+      name: exercise.name,
+      moods: exercise.moods,
+      defaultMinutes: exercise.defaultMinutes ?? CONSTS.DURATIONS.SHORT,
+      instructions: exercise.instructions.join('\n'),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    try {
+      await ExerciseService.saveCustomExercise(toInput(draft));
+      setDraft(emptyDraft(mood));
+      setChanged(true);
+      load();
+    } catch (caughtError) {
+      console.warn('Unable to save custom exercise', caughtError);
+      setError(STRINGS.EXERCISES.SAVE_FAILED);
+    }
+  };
+
+  const handleDelete = (exercise: Exercise) => {
+    Alert.alert(
+      STRINGS.EXERCISES.CONFIRM_DELETE_TITLE,
+      STRINGS.EXERCISES.CONFIRM_DELETE_MESSAGE(exercise.name),
+      [
+        { text: STRINGS.ALERTS.CANCEL, style: 'cancel' },
+        {
+          text: STRINGS.EXERCISES.CONFIRM_DELETE,
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await ExerciseService.deleteCustomExercise(exercise.id);
+              if (draft.id === exercise.id) setDraft(emptyDraft(mood));
+              setChanged(true);
+              load();
+            } catch (caughtError) {
+              console.warn('Unable to delete custom exercise', caughtError);
+              setError(STRINGS.EXERCISES.SAVE_FAILED);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={close}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{STRINGS.EXERCISES.TITLE}</Text>
+            <Text style={styles.subtitle}>{STRINGS.EXERCISES.SUBTITLE}</Text>
+          </View>
+          <Pressable onPress={close}>
+            <Text style={[styles.done, { color: theme.primary }]}>
+              {STRINGS.EXERCISES.BUTTON_DONE}
+            </Text>
+          </Pressable>
+        </View>
+
+        {loading && (
+          <View style={styles.stateRow}>
+            <ActivityIndicator />
+          </View>
+        )}
+        {!loading && error && (
+          <View style={styles.stateRow}>
+            <Text style={[styles.stateText, styles.error]}>{error}</Text>
+          </View>
+        )}
+
+        {!loading && (
+          <ScrollView
+            contentContainerStyle={styles.content}
+            keyboardShouldPersistTaps="handled"
+          >
+            {/* Existing custom exercises */}
+            <Text style={styles.sectionTitle}>
+              {STRINGS.EXERCISES.SECTION_CUSTOM}
+            </Text>
+            {!exercises.length && (
+              <Text style={styles.rowMeta}>{STRINGS.EXERCISES.EMPTY}</Text>
+            )}
+            {exercises.map(exercise => (
+              <View key={exercise.id} style={styles.row}>
+                <View style={styles.rowText}>
+                  <Text style={styles.rowTitle}>{exercise.name}</Text>
+                  <Text style={styles.rowMeta}>
+                    {STRINGS.EXERCISES.SUMMARY(
+                      exercise.moods,
+                      exercise.defaultMinutes ?? CONSTS.DURATIONS.SHORT,
+                    )}
+                  </Text>
+                </View>
+                <Pressable onPress={() => startEdit(exercise)}>
+                  <Text style={[styles.rowAction, { color: theme.primary }]}>
+                    {STRINGS.EXERCISES.BUTTON_EDIT}
+                  </Text>
+                </Pressable>
+                <Pressable onPress={() => handleDelete(exercise)}>
+                  <Text style={[styles.rowAction, styles.delete]}>
+                    {STRINGS.EXERCISES.BUTTON_DELETE}
+                  </Text>
+                </Pressable>
+              </View>
+            ))}
+
+            {/* Editor */}
+            <Text style={styles.sectionTitle}>
+              {draft.id
+                ? STRINGS.EXERCISES.SECTION_EDIT
+                : STRINGS.EXERCISES.SECTION_NEW}
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={draft.name}
+              onChangeText={name => setDraft(prev => ({ ...prev, name }))}
+              placeholder={STRINGS.EXERCISES.PLACEHOLDER_NAME}
+              placeholderTextColor={COLORS.TEXT_TERTIARY}
+            />
+
+            <Text style={styles.label}>{STRINGS.EXERCISES.LABEL_MOODS}</Text>
+            <View style={styles.chipRow}>
+              {(Object.keys(MOOD_THEMES) as MoodKey[]).map(key => {
+                const active = draft.moods.includes(key);
+                return (
+                  <Pressable
+                    key={key}
+                    style={[
+                      styles.chip,
+                      { borderColor: MOOD_THEMES[key].primary },
+                      active && { backgroundColor: MOOD_THEMES[key].primary },
+                    ]}
+                    onPress={() => toggleMood(key)}
+                  >
+                    <Text
+                      style={[styles.chipText, active && styles.chipTextActive]}
+                    >
+                      {MOOD_THEMES[key].title}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <Text style={styles.label}>{STRINGS.EXERCISES.LABEL_DURATION}</Text>
+            <View style={styles.chipRow}>
+              {durations.map(minutes => {
+                const active = draft.defaultMinutes === minutes;
+                return (
+                  <Pressable
+                    key={minutes}
+                    style={[
+                      styles.chip,
+                      { borderColor: theme.primary },
+                      active && { backgroundColor: theme.primary },
+                    ]}
+                    onPress={() =>
+                      setDraft(prev => ({ ...prev, defaultMinutes: minutes }))
+                    }
+                  >
+                    <Text
+                      style={[styles.chipText, active && styles.chipTextActive]}
+                    >
+                      {STRINGS.EXERCISES.MINUTES(minutes)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <Text style={styles.label}>
+              {STRINGS.EXERCISES.LABEL_INSTRUCTIONS}
+            </Text>
+            <TextInput
+              style={[styles.input, styles.multiline]}
+              value={draft.instructions}
+              onChangeText={instructions =>
+                setDraft(prev => ({ ...prev, instructions }))
+              }
+              placeholder={STRINGS.EXERCISES.PLACEHOLDER_INSTRUCTIONS}
+              placeholderTextColor={COLORS.TEXT_TERTIARY}
+              multiline
+            />
+
+            {!isValid && (
+              <Text style={styles.rowMeta}>{STRINGS.EXERCISES.INVALID}</Text>
+            )}
+            <Pressable
+              style={[
+                styles.saveButton,
+                { backgroundColor: theme.primary },
+                !isValid && styles.saveDisabled,
+              ]}
+              disabled={!isValid}
+              onPress={handleSave}
+            >
+              <Text style={styles.saveText}>
+                {STRINGS.EXERCISES.BUTTON_SAVE}
+              </Text>
+            </Pressable>
+            {!!draft.id && (
+              <Pressable onPress={() => setDraft(emptyDraft(mood))}>
+                <Text style={styles.cancel}>
+                  {STRINGS.EXERCISES.BUTTON_CANCEL_EDIT}
+                </Text>
+              </Pressable>
+            )}
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BG_WHITE,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  subtitle: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 14,
+  },
+  done: {
+    fontSize: 16,
+    fontWeight: '700',
+    paddingVertical: 6,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 48,
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 16,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.TEXT_TERTIARY,
+    marginTop: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: COLORS.BG_LIGHTER,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontWeight: '700',
+    color: COLORS.TEXT_SECONDARY,
+  },
+  rowMeta: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 12,
+  },
+  rowAction: {
+    fontWeight: '700',
+  },
+  delete: {
+    color: COLORS.TEXT_ERROR,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 7,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  chipText: {
+    color: COLORS.TEXT_PRIMARY,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: COLORS.TEXT_INVERSE,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.BG_LIGHTER,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    color: COLORS.TEXT_PRIMARY,
+  },
+  multiline: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  saveButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveDisabled: {
+    opacity: 0.4,
+  },
+  saveText: {
+    color: COLORS.TEXT_INVERSE,
+    fontWeight: '800',
+  },
+  cancel: {
+    textAlign: 'center',
+    fontWeight: '700',
+    color: COLORS.TEXT_TERTIARY,
+    paddingVertical: 8,
+  },
+  stateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  stateText: {
+    fontSize: 15,
+    color: COLORS.TEXT_TERTIARY,
+  },
+  error: {
+    color: COLORS.TEXT_ERROR,
+  },
+});
+
+export default ExercisesScreen;
@@ -0,0 +1,354 @@
+/**
+ * HistoryScreen Component
+ *
+ * Mood journal, presented as a full-screen modal from HomeScreen:
+ * - Day-by-day timeline over the last JOURNAL.HISTORY_DAYS days
+ * - Mood changes recorded from the Header pills
+ * - Wellness events scheduled on each day, with the mood at scheduling time
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import * as CONSTS from '../constants/app';
+import { COLORS } from '../constants/colors';
+import { STRINGS } from '../constants/strings';
+import CalendarService, { BusyEvent } from '../services/CalendarService';
+import ExerciseService from '../services/ExerciseService';
+import MoodJournalService, { MoodEntry } from '../services/MoodJournalService';
+import { MOOD_THEMES, MoodKey } from '../types/mood';
+import { addDays, startOfDay } from '../utils/date';
+
+type Props = {
+  visible: boolean;
+  mood: MoodKey;
+  onClose: () => void;
+};
+
+type TimelineItem =
+  | { kind: 'mood'; at: Date; entry: MoodEntry }
+  | { kind: 'event'; at: Date; event: BusyEvent };
+
+type TimelineDay = {
+  day: Date;
+  items: TimelineItem[];
+};
+
+/**
+ * buildTimeline: Merges mood entries and events into days, newest day first
+ */
+const buildTimeline = (
+  entries: MoodEntry[],
+  events: BusyEvent[],
+  since: Date,
+): TimelineDay[] => {
+  const items: TimelineItem[] = [
+    ...entries.map(entry => ({
+      kind: 'mood' as const,
+      at: new Date(entry.recordedAt),
+      entry,
+    })),
+    ...events.map(event => ({
+      kind: 'event' as const,
+      at: new Date(event.startDate),
+      event,
+    })),
+  ].filter(item => item.at >= since);
+
+  const byDay = items.reduce<Record<string, TimelineDay>>((acc, item) => {
+    const day = startOfDay(item.at);
+    const key = day.toISOString();
+    if (!acc[key]) acc[key] = { day, items: [] };
+    acc[key].items.push(item);
+    return acc;
+  }, {});
+
+  return Object.values(byDay)
+    .sort((a, b) => b.day.getTime() - a.day.getTime())
+    .map(group => ({
+      ...group,
+      items: group.items.sort((a, b) => a.at.getTime() - b.at.getTime()),
+    }));
+};
+
+/**
+ * Formats Date to time string (e.g., "9:00 AM")
+ */
+const formatTime = (value: Date) => {
+  return new Intl.DateTimeFormat('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(value);
+};
+
+const HistoryScreen = ({ visible, mood, onClose }: Props) => {
+  const theme = MOOD_THEMES[mood];
+  const [timeline, setTimeline] = useState<TimelineDay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  /**
+   * load: Reads the mood journal and app-created events for the window
+   */
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(undefined);
+    try {
+      const since = addDays(
+        startOfDay(new Date()),
+        -(CONSTS.JOURNAL.HISTORY_DAYS - 1),
+      );
+      const [entries, events] = await Promise.all([
+        MoodJournalService.loadMoodHistory(),
+        CalendarService.fetchBusyEvents(CONSTS.JOURNAL.HISTORY_DAYS, {
+          startDate: since,
+        }),
+      ]);
+      setTimeline(
+        buildTimeline(
+          entries,
+          events.filter(event => event.isAppCreated),
+          since,
+        ),
+      );
+    } catch (caughtError) {
+      console.warn('Unable to load history', caughtError);
+      setError(STRINGS.HISTORY.LOAD_FAILED);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload every time the screen opens
+  useEffect(() => {
+    if (visible) load();
+  }, [visible, load]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{STRINGS.HISTORY.TITLE}</Text>
+            <Text style={styles.subtitle}>
+              {STRINGS.HISTORY.SUBTITLE(CONSTS.JOURNAL.HISTORY_DAYS)}
+            </Text>
+          </View>
+          <Pressable onPress={onClose}>
+            <Text style={[styles.done, { color: theme.primary }]}>
+              {STRINGS.HISTORY.BUTTON_DONE}
+            </Text>
+          </Pressable>
+        </View>
+
+        {loading && (
+          <View style={styles.stateRow}>
+            <ActivityIndicator />
+            <Text style={styles.stateText}>{STRINGS.HISTORY.LOADING}</Text>
+          </View>
+        )}
+        {!loading && error && (
+          <View style={styles.stateRow}>
+            <Text style={[styles.stateText, styles.error]}>{error}</Text>
+          </View>
+        )}
+        {!loading && !error && !timeline.length && (
+          <View style={styles.stateRow}>
+            <Text style={styles.stateText}>{STRINGS.HISTORY.EMPTY}</Text>
+          </View>
+        )}
+
+        {!loading && !error && !!timeline.length && (
+          <ScrollView contentContainerStyle={styles.content}>
+            {timeline.map(group => (
+              <View key={group.day.toISOString()} style={styles.day}>
+                <Text style={styles.dayTitle}>
+                  {group.day.toLocaleDateString('en-US', {
+                    weekday: 'long',
+                    month: 'short',
+                    day: 'numeric',
+                  })}
+                </Text>
+                {group.items.map(item => {
+                  if (item.kind === 'mood') {
+                    const itemTheme = MOOD_THEMES[item.entry.mood];
+                    return (
+                      <View
+                        key={`mood-${item.entry.recordedAt}`}
+                        style={styles.item}
+                      >
+                        <Text style={styles.time}>{formatTime(item.at)}</Text>
+                        <View
+                          style={[
+                            styles.dot,
+                            { backgroundColor: itemTheme.primary },
+                          ]}
+                        />
+                        <View style={styles.itemText}>
+                          <Text style={styles.itemTitle}>
+                            {STRINGS.HISTORY.MOOD_ENTRY(item.entry.mood)}
+                          </Text>
+                          {item.entry.checkIn && (
+                            <Text style={styles.itemMeta}>
+                              {STRINGS.CHECK_IN.LEVELS(
+                                item.entry.checkIn.energy,
+                                item.entry.checkIn.stress,
+                                CONSTS.CHECK_IN.MAX_LEVEL,
+                              )}
+                            </Text>
+                          )}
+                          {!!item.entry.checkIn?.note && (
+                            <Text style={styles.itemMeta}>
+                              {item.entry.checkIn.note}
+                            </Text>
+                          )}
+                        </View>
+                      </View>
+                    );
+                  }
+
+                  const eventMood = item.event.exerciseMood ?? mood;
+                  const itemTheme = MOOD_THEMES[eventMood];
+                  return (
+                    <View
+                      key={`event-${item.event.id}-${item.event.startDate}`}
+                      style={styles.item}
+                    >
+                      <Text style={styles.time}>{formatTime(item.at)}</Text>
+                      <View
+                        style={[
+                          styles.eventMarker,
+                          { borderColor: itemTheme.primary },
+                        ]}
+                      />
+                      <View style={styles.itemText}>
+                        <Text style={styles.itemTitle}>
+                          {STRINGS.LABELS.EXERCISE(
+                            ExerciseService.exerciseName(item.event.exerciseId),
+                          )}
+                        </Text>
+                        {!!item.event.userMood && (
+                          <Text style={styles.itemMeta}>
+                            {STRINGS.HISTORY.EVENT_MOOD(item.event.userMood)}
+                          </Text>
+                        )}
+                      </View>
+                    </View>
+                  );
+                })}
+              </View>
+            ))}
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BG_WHITE,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  subtitle: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 14,
+  },
+  done: {
+    fontSize: 16,
+    fontWeight: '700',
+    paddingVertical: 6,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 48,
+    gap: 18,
+  },
+  day: {
+    gap: 8,
+  },
+  dayTitle: {
+    fontSize: 17,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  time: {
+    width: 72,
+    fontSize: 13,
+    color: COLORS.TEXT_TERTIARY,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  eventMarker: {
+    width: 10,
+    height: 10,
+    borderRadius: 3,
+    borderWidth: 2,
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontWeight: '700',
+    color: COLORS.TEXT_SECONDARY,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: COLORS.TEXT_TERTIARY,
+  },
+  stateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  stateText: {
+    fontSize: 15,
+    color: COLORS.TEXT_TERTIARY,
+  },
+  error: {
+    color: COLORS.TEXT_ERROR,
+  },
+});
+
+export default HistoryScreen;
@@ -9,11 +9,12 @@
  * - Conflict detection and time adjustment
  *
  * State Management:
- * - mood: Current user mood (Calm/Stressed/Energetic)
- * - busyEvents: All calendar events for today
- * - slots: Suggested free time slots (max 3: morning/afternoon/evening)
+ * - mood: Current user mood, restored from the journal
+ * - selectedDay: Day shown in the day strip (today up to DAYS_TO_FETCH ahead)
+ * - busyEvents: All calendar events for the planning horizon
+ * - slots: Suggested free time slots for selectedDay (scored, capped by settings)
  * - loading/error: Async operation states
- * - banner: Toast notifications for user feedback
+ * - banner: Toast notifications for user feedback (with Undo after a removal)
  */
 
 import DateTimePicker from '@react-native-community/datetimepicker';
@@ -40,6 +41,8 @@ import {
 } from 'react-native';
 
 import BusyList from '../components/BusyList';
+import DayStrip from '../components/DayStrip';
+import DayTimeline from '../components/DayTimeline';
 import MoodScene from '../components/MoodScene';
 import ScheduleSuggestions from '../components/ScheduleSuggestions';
 import * as CONSTS from '../constants/app';
@@ -47,39 +50,84 @@ import { BANNER, COLORS } from '../constants/colors';
 import { STRINGS } from '../constants/strings';
 import CalendarService, {
   BusyEvent,
+  BlockingOptions,
+  DEFAULT_MEETING_BUFFERS,
+  RemovedEvent,
+  RescheduleChanges,
   SuggestedSlot,
+  WellnessRecurrence,
 } from '../services/CalendarService';
-import { MOOD_THEMES, MoodKey } from '../types/mood';
-
-const MOODS: MoodKey[] = ['Calm', 'Stressed', 'Energetic'];
+import ExerciseService from '../services/ExerciseService';
+import MoodJournalService from '../services/MoodJournalService';
+import MoodService from '../services/MoodService';
+import ScheduleService from '../services/ScheduleService';
+import SessionLogService, {
+  SessionOutcome,
+  SessionStatus,
+} from '../services/SessionLogService';
+import SettingsService from '../services/SettingsService';
+import CalendarsScreen from './CalendarsScreen';
+import CheckInScreen from './CheckInScreen';
+import ExercisesScreen from './ExercisesScreen';
+import HistoryScreen from './HistoryScreen';
+import InsightsScreen from './InsightsScreen';
+import MoodsScreen from './MoodsScreen';
+import RescheduleScreen from './RescheduleScreen';
+import SessionPlayerScreen from './SessionPlayerScreen';
+import SettingsScreen from './SettingsScreen';
+import WorkingHoursScreen from './WorkingHoursScreen';
+import {
+  DEFAULT_MOOD,
+  MOOD_THEMES,
+  MoodCheckIn,
+  MoodKey,
+  MoodTheme,
+} from '../types/mood';
+import { DEFAULT_SCHEDULE, WeeklySchedule } from '../types/schedule';
+import { AppSettings, DEFAULT_SETTINGS } from '../types/settings';
+import {
+  addDays,
+  daypartFor,
+  diffMinutes,
+  endOfDay,
+  isSameDay,
+  startOfDay,
+} from '../utils/date';
 
 /**
- * getBreathingDuration: Returns animation duration based on mood
- * Calm: 3.2s, Energetic: 1.8s, Stressed: 1.0s
+ * BannerAction: Button shown at the end of a banner (e.g., Undo)
  */
-const getBreathingDuration = (mood: MoodKey): number => {
-  switch (mood) {
-    case 'Calm':
-      return CONSTS.BREATHING_DURATION.CALM;
-    case 'Energetic':
-      return CONSTS.BREATHING_DURATION.ENERGETIC;
-    case 'Stressed':
-      return CONSTS.BREATHING_DURATION.STRESSED;
-  }
+type BannerAction = {
+  label: string;
+  onPress: () => void;
+};
+
+type HeaderLink = {
+  label: string;
+  onPress: () => void;
 };
 
 type HeaderProps = {
   mood: MoodKey;
+  moods: MoodTheme[]; // Moods shown in the picker
   onChangeMood: (next: MoodKey) => void;
+  onEditMoods: () => void;
+  links: HeaderLink[]; // Entry points to secondary screens
 };
 
 /**
  * Header Component: App title, subtitle, and mood selector pills
  * Features breathing animation on active mood pill
  */
-const Header = ({ mood, onChangeMood }: HeaderProps) => {
+const Header = ({
+  mood,
+  moods,
+  onChangeMood,
+  onEditMoods,
+  links,
+}: HeaderProps) => {
   const breathe = useRef(new Animated.Value(0)).current;
-  const breatheDuration = getBreathingDuration(mood);
+  const breatheDuration = MOOD_THEMES[mood].breathingMs.header;
 
   // Start breathing loop on mount, restart when duration changes
   useEffect(() => {
@@ -113,14 +161,24 @@ const Header = ({ mood, onChangeMood }: HeaderProps) => {
         <Text style={styles.headline}>{STRINGS.HEADER.APP_TITLE}</Text>
         <Text style={styles.subhead}>{STRINGS.HEADER.APP_SUBTITLE}</Text>
       </View>
+      <View style={styles.linkRow}>
+        {links.map(link => (
+          <Text
+            key={link.label}
+            onPress={link.onPress}
+            style={[styles.link, { color: MOOD_THEMES[mood].primary }]}
+          >
+            {link.label}
+          </Text>
+        ))}
+      </View>
       <View style={styles.moodRow}>
-        {MOODS.map(item => {
-          const theme = MOOD_THEMES[item];
-          const active = item === mood;
+        {moods.map(theme => {
+          const active = theme.key === mood;
           return (
             <Animated.Text
-              key={item}
-              onPress={() => onChangeMood(item)}
+              key={theme.key}
+              onPress={() => onChangeMood(theme.key)}
               style={[
                 styles.moodPill,
                 { backgroundColor: theme.accent, borderColor: theme.primary },
@@ -130,59 +188,249 @@ const Header = ({ mood, onChangeMood }: HeaderProps) => {
                 ],
               ]}
             >
-              {item}
+              {theme.title}
             </Animated.Text>
           );
         })}
+        <Text
+          onPress={onEditMoods}
+          style={[styles.moodEdit, { color: MOOD_THEMES[mood].primary }]}
+        >
+          {STRINGS.MOOD_PICKER.BUTTON_EDIT}
+        </Text>
       </View>
     </View>
   );
 };
 
+/**
+ * buildDaySuggestions: Calculates suggested slots for a single day
+ *
+ * Algorithm:
+ * 1. Find free slots (short-long setting) within that day's working hours, outside quiet periods
+ * 2. Keep slots at least the future-buffer setting away from now
+ * 3. Today only: fall back to now+buffer if nothing else fits and that time is free
+ * 4. Keep the best-ranked slots (findFreeSlots scores them, mood included)
+ */
+const buildDaySuggestions = (
+  events: BusyEvent[],
+  day: Date,
+  mood: MoodKey,
+  blocking: BlockingOptions,
+  schedule: WeeklySchedule,
+  settings: AppSettings,
+): SuggestedSlot[] => {
+  const sortedEvents = [...events].sort(
+    (a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime(),
+  );
+
+  const free = CalendarService.findFreeSlots(sortedEvents, {
+    days: 1,
+    minMinutes: settings.shortMinutes,
+    maxMinutes: settings.longMinutes,
+    schedule,
+    startDate: day,
+    mood,
+    ...blocking,
+  });
+
+  // Filter to the selected day, at least the future buffer away
+  const now = new Date();
+  const minStart = new Date(
+    now.getTime() + settings.minFutureBufferMinutes * 60 * 1000,
+  );
+  const dayStart = startOfDay(day);
+  const dayEnd = endOfDay(day);
+
+  let filtered = free.filter(
+    slot =>
+      slot.startDate >= minStart &&
+      slot.startDate >= dayStart &&
+      slot.endDate <= dayEnd,
+  );
+
+  // Fallback: if no slots found today, create one from now+buffer (if a short slot still fits)
+  if (
+    !filtered.length &&
+    isSameDay(day, now) &&
+    !CalendarService.isOutOfOffice(events, day, blocking.allDayMode)
+  ) {
+    const minutesLeft = Math.floor(
+      (dayEnd.getTime() - minStart.getTime()) / 60000,
+    );
+    const duration = Math.max(0, Math.min(settings.longMinutes, minutesLeft));
+    const fallbackEnd = new Date(minStart.getTime() + duration * 60000);
+    if (
+      duration >= settings.shortMinutes &&
+      ScheduleService.isWithinSchedule(schedule, minStart, fallbackEnd) &&
+      !CalendarService.hasConflict(events, minStart, fallbackEnd, blocking)
+    ) {
+      filtered = [
+        {
+          id: `${minStart.getTime()}-fallback`,
+          startDate: minStart,
+          endDate: fallbackEnd,
+          durationMinutes: duration,
+          status: 'available',
+        },
+      ];
+    }
+  }
+
+  // Already ranked best first
+  return filtered.slice(0, settings.suggestionsPerDay);
+};
+
+/**
+ * formatDayLabel: "Today", "Tomorrow" or e.g. "Wednesday, Oct 22"
+ */
+const formatDayLabel = (day: Date): string => {
+  const today = startOfDay(new Date());
+  if (isSameDay(day, today)) return STRINGS.DAY_STRIP.TODAY;
+  if (isSameDay(day, addDays(today, 1))) return STRINGS.DAY_STRIP.TOMORROW;
+  return day.toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+/**
+ * Formats Date to time string (e.g., "9:00 AM")
+ */
+const formatTime = (value: Date) =>
+  new Intl.DateTimeFormat('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(value);
+
 const HomeScreen = () => {
   // ========== State ==========
-  const [mood, setMood] = useState<MoodKey>('Calm');
+  const [mood, setMood] = useState<MoodKey>(DEFAULT_MOOD);
+  const [selectedDay, setSelectedDay] = useState<Date>(() =>
+    startOfDay(new Date()),
+  );
   const [busyEvents, setBusyEvents] = useState<BusyEvent[]>([]);
+  const [blocking, setBlocking] = useState<BlockingOptions>({
+    buffers: DEFAULT_MEETING_BUFFERS,
+    allDayMode: 'ignore',
+  }); // Meeting buffers, all-day and tentative handling from calendar preferences
+  const [schedule, setSchedule] = useState<WeeklySchedule>(DEFAULT_SCHEDULE); // Working hours and quiet periods
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS); // Horizon, slot lengths, dayparts
+  const [outcomes, setOutcomes] = useState<Record<string, SessionOutcome>>({});
   const [slots, setSlots] = useState<SuggestedSlot[]>([]);
   const [editingSlot, setEditingSlot] = useState<SuggestedSlot | null>(null); // For time picker
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | undefined>(undefined);
   const [pickerVisible, setPickerVisible] = useState(false);
   const [conflictSlotId, setConflictSlotId] = useState<string | null>(null); // For red flash animation
+  const [calendarsVisible, setCalendarsVisible] = useState(false);
+  const [historyVisible, setHistoryVisible] = useState(false);
+  const [insightsVisible, setInsightsVisible] = useState(false);
+  const [exercisesVisible, setExercisesVisible] = useState(false);
+  const [moodsVisible, setMoodsVisible] = useState(false);
+  const [hoursVisible, setHoursVisible] = useState(false);
+  const [settingsVisible, setSettingsVisible] = useState(false);
+  const [hiddenMoods, setHiddenMoods] = useState<MoodKey[]>([]);
+  const [checkIn, setCheckIn] = useState<MoodCheckIn | undefined>(undefined); // Latest energy/stress check-in
+  const [checkInVisible, setCheckInVisible] = useState(false);
+  const [activeSession, setActiveSession] = useState<BusyEvent | null>(null); // Event open in the player
+  const [movingEvent, setMovingEvent] = useState<BusyEvent | null>(null); // Event open in the reschedule editor
+  const [dayView, setDayView] = useState<'list' | 'timeline'>('list'); // How the selected day's events are shown
   const [banner, setBanner] = useState<string | null>(null);
   const [bannerTone, setBannerTone] = useState<'success' | 'error'>('success');
+  const [bannerAction, setBannerAction] = useState<BannerAction | null>(null); // e.g., Undo after a removal
   const bannerTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const appState = useRef(AppState.currentState);
 
+  // Restore the moods hidden from the picker
+  useEffect(() => {
+    MoodService.loadHiddenMoods()
+      .then(setHiddenMoods)
+      .catch(caughtError =>
+        console.warn('Unable to load hidden moods', caughtError),
+      );
+  }, []);
+
+  // Restore the last recorded mood on launch
+  useEffect(() => {
+    MoodJournalService.getLastEntry()
+      .then(lastEntry => {
+        if (!lastEntry) return;
+        setMood(lastEntry.mood);
+        setCheckIn(lastEntry.checkIn);
+      })
+      .catch(caughtError =>
+        console.warn('Unable to restore mood', caughtError),
+      );
+  }, []);
+
   /**
-   * moodForExercise: Derives mood from exercise type
-   * Used to theme wellness events based on their activity
+   * resetLocalState: Drops state restored from storage after all app data is deleted
+   * Calendar data follows on the next sync
    */
-  const moodForExercise = useCallback(
-    (exercise?: string): MoodKey => {
-      if (!exercise) return mood;
-      const match = (Object.keys(MOOD_THEMES) as MoodKey[]).find(key =>
-        MOOD_THEMES[key].exercises.includes(exercise),
+  const resetLocalState = () => {
+    setMood(DEFAULT_MOOD);
+    setCheckIn(undefined);
+    setHiddenMoods([]);
+    setOutcomes({});
+  };
+
+  /**
+   * handleChangeMood: Switches mood and records it in the journal
+   * A plain pill tap replaces any earlier check-in values
+   */
+  const handleChangeMood = useCallback(
+    (next: MoodKey) => {
+      if (next === mood) return;
+      setMood(next);
+      setCheckIn(undefined);
+      MoodJournalService.recordMood(next).catch(caughtError =>
+        console.warn('Unable to record mood', caughtError),
       );
-      return match ?? mood;
     },
     [mood],
   );
 
+  /**
+   * handleCheckIn: Applies a check-in's closest mood and records the raw values
+   */
+  const handleCheckIn = (next: MoodCheckIn) => {
+    const nextMood = MoodService.moodForLevels(
+      next,
+      MoodService.visibleMoods(hiddenMoods),
+    );
+    setCheckInVisible(false);
+    setMood(nextMood);
+    setCheckIn(next);
+    MoodJournalService.recordMood(nextMood, next).catch(caughtError =>
+      console.warn('Unable to record check-in', caughtError),
+    );
+  };
+
   /**
    * showBanner: Displays toast notification
+   * Banners with an action (e.g., Undo) stay up longer so there is time to tap it
    */
   const showBanner = useCallback(
-    (message: string, tone: 'success' | 'error' = 'success') => {
+    (
+      message: string,
+      tone: 'success' | 'error' = 'success',
+      action?: BannerAction,
+    ) => {
       if (bannerTimer.current) {
         clearTimeout(bannerTimer.current);
         bannerTimer.current = null;
       }
       setBanner(message);
       setBannerTone(tone);
+      setBannerAction(action ?? null);
       bannerTimer.current = setTimeout(
-        () => setBanner(null),
-        CONSTS.TIMING.BANNER_DISPLAY,
+        () => {
+          setBanner(null);
+          setBannerAction(null);
+        },
+        action ? CONSTS.TIMING.UNDO_DISPLAY : CONSTS.TIMING.BANNER_DISPLAY,
       );
     },
     [],
@@ -201,13 +449,46 @@ const HomeScreen = () => {
    * mergedBusyEvents: Enriches app-created events with exercise mood
    */
   const mergedBusyEvents = useMemo<BusyEvent[]>(() => {
-    return busyEvents.map(event => {
+    return SessionLogService.attachOutcomes(busyEvents, outcomes).map(event => {
       if (!event.isAppCreated) return event;
-      const exercise = event.exercise;
-      const exerciseMood = event.exerciseMood ?? moodForExercise(exercise);
-      return { ...event, exercise, exerciseMood };
+      const exerciseMood =
+        event.exerciseMood ??
+        ExerciseService.moodForExercise(event.exerciseId, mood);
+      return { ...event, exerciseMood };
     });
-  }, [busyEvents, moodForExercise]);
+  }, [busyEvents, outcomes, mood]);
+
+  /**
+   * planningDays: Midnight of every day in the planning horizon
+   */
+  const planningDays = useMemo<Date[]>(() => {
+    const today = startOfDay(new Date());
+    return Array.from({ length: settings.daysToFetch }, (_, index) =>
+      addDays(today, index),
+    );
+  }, [settings.daysToFetch]);
+
+  /**
+   * dayEvents: Events that overlap the selected day (shown in BusyList)
+   */
+  const dayEvents = useMemo<BusyEvent[]>(() => {
+    const dayStart = startOfDay(selectedDay);
+    const dayEnd = endOfDay(selectedDay);
+    return mergedBusyEvents.filter(
+      event =>
+        new Date(event.startDate) <= dayEnd &&
+        new Date(event.endDate) > dayStart,
+    );
+  }, [mergedBusyEvents, selectedDay]);
+
+  /**
+   * wellnessDays: Days that already hold an app-created event (strip markers)
+   */
+  const wellnessDays = useMemo<Date[]>(() => {
+    return busyEvents
+      .filter(event => event.isAppCreated)
+      .map(event => startOfDay(new Date(event.startDate)));
+  }, [busyEvents]);
 
   /**
    * addedEventIdsBySlot: Maps slot IDs to calendar event IDs
@@ -222,35 +503,25 @@ const HomeScreen = () => {
     }, {});
   }, [busyEvents]);
 
-  /**
-   * getTimeOfDay: Determines current time period for background tinting
-   */
-  const getTimeOfDay = (): 'morning' | 'afternoon' | 'evening' => {
-    const hour = new Date().getHours();
-    if (hour < CONSTS.TIME_OF_DAY.MORNING_END) return 'morning';
-    if (hour < CONSTS.TIME_OF_DAY.AFTERNOON_END) return 'afternoon';
-    return 'evening';
-  };
-
   /**
    * timeOfDay: Determines morning/afternoon/evening for background tinting
    */
-  const timeOfDay: 'morning' | 'afternoon' | 'evening' = useMemo(() => {
-    return getTimeOfDay();
-  }, []);
+  const timeOfDay = useMemo<CONSTS.Daypart>(
+    () => daypartFor(new Date(), settings),
+    [settings],
+  );
 
   /**
-   * syncCalendar: Fetches events and calculates free slots
+   * syncCalendar: Fetches events for the whole planning horizon
    *
    * Algorithm:
    * 1. Request calendar permissions
-   * 2. Fetch all events for next 1 day
-   * 3. Find free slots (15-30 min) between 7 AM - 9 PM
-   * 4. Filter to today only, min 15 min in future
-   * 5. Group by daypart (morning/afternoon/evening)
-   * 6. Keep earliest slot per daypart (max 3 total)
+   * 2. Fetch all events for the next DAYS_TO_FETCH days from busy calendars
+   * 3. Store them; suggestions for the selected day are derived below
+   * Failures show in the screen's error row
+   * @returns Promise<boolean> - false when the events could not be refreshed
    */
-  const syncCalendar = useCallback(async () => {
+  const syncCalendar = useCallback(async (): Promise<boolean> => {
     setLoading(true);
     setError(undefined);
     try {
@@ -259,116 +530,76 @@ const HomeScreen = () => {
       if (!permitted) {
         setError(STRINGS.ALERTS.PERMISSIONS_DENIED);
         setLoading(false);
-        return;
+        return false;
       }
 
-      // Fetch busy events
-      const busy = await CalendarService.fetchBusyEvents(1);
-      const sortedEvents = [...busy].sort(
-        (a, b) =>
-          new Date(a.startDate).getTime() - new Date(b.startDate).getTime(),
-      );
+      // Settings decide the planning horizon, so they load first
+      const storedSettings = await SettingsService.loadSettings();
+      setSettings(storedSettings);
 
+      // Fetch busy events from the calendars that count as busy
+      const calendars = await CalendarService.getBusyCalendarIds();
+      const [busy, storedOutcomes, preferences, storedSchedule] =
+        await Promise.all([
+          CalendarService.fetchBusyEvents(storedSettings.daysToFetch, {
+            calendars,
+          }),
+          SessionLogService.loadOutcomes(),
+          CalendarService.loadCalendarPreferences(),
+          ScheduleService.loadSchedule(),
+        ]);
       setBusyEvents(busy);
+      setOutcomes(storedOutcomes);
 
-      // Find free slots
-      const free = CalendarService.findFreeSlots(sortedEvents, {
-        days: CONSTS.CALENDAR.DAYS_TO_FETCH,
-        minMinutes: CONSTS.CALENDAR.MIN_DURATION_MINUTES,
-        maxMinutes: CONSTS.CALENDAR.MAX_DURATION_MINUTES,
-        dayStartHour: CONSTS.CALENDAR.DAY_START_HOUR,
-        dayEndHour: CONSTS.CALENDAR.DAY_END_HOUR,
-      });
-
-      console.log({ free: JSON.stringify(free, null, 2) });
-
-      // Filter to today, at least 15 min in future
-      const now = new Date();
-      const minStart = new Date(
-        now.getTime() + CONSTS.CALENDAR.MIN_FUTURE_BUFFER_MINUTES * 60 * 1000,
-      );
-      const startOfToday = new Date(
-        now.getFullYear(),
-        now.getMonth(),
-        now.getDate(),
-        0,
-        0,
-        0,
-        0,
-      );
-      const endOfToday = new Date(
-        now.getFullYear(),
-        now.getMonth(),
-        now.getDate(),
-        23,
-        59,
-        59,
-        999,
-      );
-
-      let filtered = free.filter(
-        slot =>
-          slot.startDate >= minStart &&
-          slot.startDate >= startOfToday &&
-          slot.endDate <= endOfToday,
-      );
-
-      console.log({ filtered: JSON.stringify(filtered, null, 2) });
-
-      // Fallback: if no slots found, create one from now+15 to end of day (if ≥15 min remains)
-      if (!filtered.length) {
-        const minutesLeft = Math.floor(
-          (endOfToday.getTime() - minStart.getTime()) / 60000,
-        );
-        const duration = Math.max(0, Math.min(30, minutesLeft));
-        if (duration >= 15) {
-          filtered = [
-            {
-              id: `${minStart.getTime()}-fallback`,
-              startDate: minStart,
-              endDate: new Date(minStart.getTime() + duration * 60000),
-              durationMinutes: duration,
-              status: 'available',
-            },
-          ];
-        }
-      }
-
-      console.log({ filtered: JSON.stringify(filtered, null, 2) });
-
-      // Group by daypart (morning/afternoon/evening), keep earliest 2 slots per bucket
-      const byBucket = filtered.reduce<
-        Record<'morning' | 'afternoon' | 'evening', SuggestedSlot[]>
-      >(
-        (acc, slot) => {
-          const hour = slot.startDate.getHours();
-          let bucket: 'morning' | 'afternoon' | 'evening' = 'evening';
-          if (hour < CONSTS.TIME_OF_DAY.MORNING_END) {
-            bucket = 'morning';
-          } else if (hour < CONSTS.TIME_OF_DAY.AFTERNOON_END) {
-            bucket = 'afternoon';
+      // Tell the user about resets deleted or moved in another calendar app
+      const horizonStart = startOfDay(new Date());
+      CalendarService.reconcileAppEvents(
+        busy,
+        horizonStart,
+        addDays(horizonStart, storedSettings.daysToFetch),
+      )
+        .then(({ deleted, modified }) => {
+          if (deleted.length || modified.length) {
+            showBanner(
+              STRINGS.BANNERS.CHANGED_ELSEWHERE(
+                deleted.length,
+                modified.length,
+              ),
+            );
           }
-          acc[bucket].push(slot);
-          return acc;
-        },
-        { morning: [], afternoon: [], evening: [] },
-      );
-
-      // Keep earliest 2 slots from each bucket
-      const condensed = [
-        ...byBucket.morning.slice(0, 2),
-        ...byBucket.afternoon.slice(0, 2),
-        ...byBucket.evening.slice(0, 2),
-      ];
-
-      setSlots(condensed);
+        })
+        .catch(caughtError =>
+          console.warn('Unable to reconcile app events', caughtError),
+        );
+      setBlocking({
+        buffers: preferences.buffers,
+        allDayMode: preferences.allDayMode,
+        tentativeIsBusy: preferences.tentativeIsBusy,
+      });
+      setSchedule(storedSchedule);
+      return true;
     } catch (caughtError) {
       console.warn('Unable to sync calendar', caughtError);
       setError(STRINGS.ASYNC_FEEDBACK.UNABLE_TO_SYNC);
+      return false;
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [showBanner]);
+
+  // Recompute suggestions whenever events, the selected day or the mood change
+  useEffect(() => {
+    setSlots(
+      buildDaySuggestions(
+        busyEvents,
+        selectedDay,
+        mood,
+        blocking,
+        schedule,
+        settings,
+      ),
+    );
+  }, [busyEvents, selectedDay, mood, blocking, schedule, settings]);
 
   // Auto-refresh when app comes to foreground
   useEffect(() => {
@@ -396,10 +627,14 @@ const HomeScreen = () => {
    * - Not already added
    * - Exercise selected
    * - Time is in future
-   * - Time is today only
+   * - Time is within the planning horizon
    * - No conflicts with existing events
    */
-  const handleAddSlot = async (slot: SuggestedSlot, exercise?: string) => {
+  const handleAddSlot = async (
+    slot: SuggestedSlot,
+    exerciseId?: string,
+    recurrence?: WellnessRecurrence,
+  ) => {
     const addedId = addedEventIdsBySlot[slot.id];
     const start = slot.startDate;
     const end = slot.endDate;
@@ -412,7 +647,7 @@ const HomeScreen = () => {
       return;
     }
 
-    if (!exercise) {
+    if (!exerciseId) {
       Alert.alert(
         STRINGS.ALERTS.CHOOSE_EXERCISE_TITLE,
         STRINGS.ALERTS.CHOOSE_EXERCISE_MESSAGE,
@@ -421,24 +656,7 @@ const HomeScreen = () => {
     }
 
     const now = new Date();
-    const startOfToday = new Date(
-      now.getFullYear(),
-      now.getMonth(),
-      now.getDate(),
-      0,
-      0,
-      0,
-      0,
-    );
-    const endOfToday = new Date(
-      now.getFullYear(),
-      now.getMonth(),
-      now.getDate(),
-      23,
-      59,
-      59,
-      999,
-    );
+    const horizonEnd = endOfDay(addDays(now, settings.daysToFetch - 1));
 
     if (start < now) {
       Alert.alert(
@@ -448,15 +666,15 @@ const HomeScreen = () => {
       return;
     }
 
-    if (start < startOfToday || end > endOfToday) {
+    if (end > horizonEnd) {
       Alert.alert(
-        STRINGS.ALERTS.TODAY_ONLY_TITLE,
-        STRINGS.ALERTS.TODAY_ONLY_MESSAGE,
+        STRINGS.ALERTS.OUTSIDE_HORIZON_TITLE,
+        STRINGS.ALERTS.OUTSIDE_HORIZON_MESSAGE(settings.daysToFetch),
       );
       return;
     }
 
-    if (CalendarService.hasConflict(busyEvents, start, end)) {
+    if (CalendarService.hasConflict(busyEvents, start, end, blocking)) {
       setConflictSlotId(slot.id);
       setTimeout(() => setConflictSlotId(null), CONSTS.TIMING.CONFLICT_RESET);
       Alert.alert(
@@ -467,12 +685,17 @@ const HomeScreen = () => {
     }
 
     try {
-      const exerciseMood = moodForExercise(exercise);
+      const exerciseMood = ExerciseService.moodForExercise(exerciseId, mood);
       await CalendarService.addWellnessEvent(slot, {
-        exercise,
+        exerciseId,
         exerciseMood,
         slotId: slot.id,
         userMood: mood,
+        userLevels: checkIn && {
+          energy: checkIn.energy,
+          stress: checkIn.stress,
+        },
+        recurrence,
       });
       setSlots([]);
       setConflictSlotId(null);
@@ -524,18 +747,17 @@ const HomeScreen = () => {
       return;
     }
 
-    const existing = addedEventIdsBySlot[editingSlot.id];
+    // Slots that are already booked move their event in place
+    const existingId = addedEventIdsBySlot[editingSlot.id];
+    const existing = busyEvents.find(event => event.id === existingId);
     if (existing) {
-      Alert.alert(
-        STRINGS.ALERTS.ALREADY_ADDED_TITLE,
-        'Remove it from the Busy list to change the time.',
-      );
       setPickerVisible(false);
       setEditingSlot(null);
+      handleReschedule(existing, { startDate, endDate });
       return;
     }
 
-    if (CalendarService.hasConflict(busyEvents, startDate, endDate)) {
+    if (CalendarService.hasConflict(busyEvents, startDate, endDate, blocking)) {
       setConflictSlotId(editingSlot.id);
       setTimeout(() => setConflictSlotId(null), CONSTS.TIMING.CONFLICT_RESET);
       Alert.alert(
@@ -562,26 +784,238 @@ const HomeScreen = () => {
   };
 
   /**
-   * handleRemoveBusy: Deletes wellness event and refreshes calendar
-   * Only works for app-created events
+   * handleReschedule: Moves an app-created event to a new time and/or exercise
+   *
+   * Validation checks (as for adding):
+   * - Time is in future
+   * - Time is within the planning horizon
+   * - No conflicts with other events; the event being moved is ignored
    */
-  const handleRemoveBusy = async (event: BusyEvent) => {
-    if (!event.isAppCreated) return;
+  const handleReschedule = async (
+    event: BusyEvent,
+    changes: RescheduleChanges,
+  ) => {
+    const now = new Date();
+    const horizonEnd = endOfDay(addDays(now, settings.daysToFetch - 1));
+
+    if (changes.startDate < now) {
+      Alert.alert(
+        STRINGS.ALERTS.TOO_LATE_TITLE,
+        STRINGS.ALERTS.TOO_LATE_MESSAGE,
+      );
+      return;
+    }
+
+    if (changes.endDate > horizonEnd) {
+      Alert.alert(
+        STRINGS.ALERTS.OUTSIDE_HORIZON_TITLE,
+        STRINGS.ALERTS.OUTSIDE_HORIZON_MESSAGE(settings.daysToFetch),
+      );
+      return;
+    }
+
+    // Occurrences of a series share the id, so match the occurrence too
+    const others = busyEvents.filter(
+      item =>
+        item.id !== event.id || item.occurrenceDate !== event.occurrenceDate,
+    );
+    if (
+      CalendarService.hasConflict(
+        others,
+        changes.startDate,
+        changes.endDate,
+        blocking,
+      )
+    ) {
+      Alert.alert(
+        STRINGS.ALERTS.CONFLICT_TITLE,
+        STRINGS.ALERTS.CONFLICT_MESSAGE,
+      );
+      return;
+    }
+
+    try {
+      await CalendarService.rescheduleWellnessEvent(event, changes);
+      setMovingEvent(null);
+      showBanner(STRINGS.BANNERS.MOVED);
+      syncCalendar();
+    } catch (caughtError) {
+      console.warn('Calendar reschedule failed', caughtError);
+      Alert.alert(
+        STRINGS.ALERTS.CALENDAR_ERROR_TITLE,
+        STRINGS.ALERTS.CALENDAR_ERROR_MESSAGE,
+      );
+      showBanner(STRINGS.BANNERS.MOVE_FAILED, 'error');
+    }
+  };
+
+  /**
+   * handleRecordOutcome: Logs whether a past wellness session happened
+   */
+  const handleRecordOutcome = async (
+    event: BusyEvent,
+    status: SessionStatus,
+    actualMinutes?: number,
+    moodAfter?: MoodKey,
+  ) => {
+    try {
+      const outcome = await SessionLogService.recordOutcome(
+        event,
+        status,
+        actualMinutes,
+        moodAfter,
+      );
+      setOutcomes(prev => ({
+        ...prev,
+        [SessionLogService.outcomeKey(event)]: outcome,
+      }));
+      showBanner(STRINGS.BANNERS.OUTCOME_SAVED);
+    } catch (caughtError) {
+      console.warn('Session outcome save failed', caughtError);
+      showBanner(STRINGS.BANNERS.OUTCOME_FAILED, 'error');
+    }
+  };
+
+  /**
+   * handleFinishSession: Closes the session player and logs its result
+   */
+  const handleFinishSession = (
+    event: BusyEvent,
+    status: SessionStatus,
+    minutes: number,
+    moodAfter?: MoodKey,
+  ) => {
+    setActiveSession(null);
+    handleRecordOutcome(event, status, minutes, moodAfter);
+  };
+
+  /**
+   * handleRecordMoodAfter: Stores the post-session mood for a logged session
+   */
+  const handleRecordMoodAfter = async (
+    event: BusyEvent,
+    moodAfter: MoodKey,
+  ) => {
     try {
-      await CalendarService.removeEvent(event.id);
+      const outcome = await SessionLogService.recordMoodAfter(event, moodAfter);
+      setOutcomes(prev => ({
+        ...prev,
+        [SessionLogService.outcomeKey(event)]: outcome,
+      }));
+      showBanner(STRINGS.BANNERS.OUTCOME_SAVED);
+    } catch (caughtError) {
+      console.warn('Post-session mood save failed', caughtError);
+      showBanner(STRINGS.BANNERS.OUTCOME_FAILED, 'error');
+    }
+  };
+
+  /**
+   * removeAndRefresh: Deletes the event (or one occurrence) and resyncs
+   * On success the banner offers Undo, which puts the event back as it was
+   */
+  const removeAndRefresh = async (
+    event: BusyEvent,
+    occurrenceOnly: boolean,
+  ) => {
+    let removed: RemovedEvent;
+    try {
+      removed = await CalendarService.removeWellnessEvent(
+        event,
+        occurrenceOnly,
+      );
     } catch (caughtError) {
       console.warn('Calendar remove failed', caughtError);
+      showBanner(STRINGS.BANNERS.REMOVE_FAILED, 'error');
+      return;
+    }
+
+    // The event is gone either way, so Undo stays available
+    const undo = {
+      label: STRINGS.BANNERS.UNDO,
+      onPress: () => undoRemove(removed),
+    };
+    if (await syncCalendar()) {
+      showBanner(STRINGS.BANNERS.REMOVED, 'success', undo);
+    } else {
+      showBanner(STRINGS.BANNERS.RESYNC_FAILED, 'error', undo);
     }
+  };
 
+  /**
+   * undoRemove: Restores an event removed moments ago and resyncs
+   */
+  const undoRemove = async (removed: RemovedEvent) => {
     try {
-      await syncCalendar();
-      showBanner(STRINGS.BANNERS.REMOVED_AND_REFRESHED);
+      await CalendarService.restoreEvent(removed);
     } catch (caughtError) {
-      console.warn('Calendar resync failed', caughtError);
+      console.warn('Calendar restore failed', caughtError);
+      showBanner(STRINGS.BANNERS.RESTORE_FAILED, 'error');
+      return;
+    }
+
+    if (await syncCalendar()) {
+      showBanner(STRINGS.BANNERS.RESTORED);
+    } else {
       showBanner(STRINGS.BANNERS.RESYNC_FAILED, 'error');
     }
   };
 
+  /**
+   * handleTimelineCreate: Asks which exercise to book before a long-press on
+   * the timeline writes to the calendar
+   */
+  const handleTimelineCreate = (slot: SuggestedSlot) => {
+    const choices = ExerciseService.exercisesForMood(mood).slice(
+      0,
+      CONSTS.TIMELINE.QUICK_ADD_CHOICES,
+    );
+    if (!choices.length) {
+      handleAddSlot(slot); // Explains that an exercise is needed
+      return;
+    }
+    Alert.alert(
+      STRINGS.TIMELINE.CONFIRM_ADD_TITLE(formatTime(slot.startDate)),
+      STRINGS.TIMELINE.CONFIRM_ADD_MESSAGE(slot.durationMinutes),
+      [
+        { text: STRINGS.ALERTS.CANCEL, style: 'cancel' },
+        ...choices.map(exercise => ({
+          text: exercise.name,
+          onPress: () => handleAddSlot(slot, exercise.id),
+        })),
+      ],
+    );
+  };
+
+  /**
+   * handleRemoveBusy: Deletes wellness event and refreshes calendar
+   * Only works for app-created events; recurring events ask whether to
+   * remove a single occurrence or the whole series
+   */
+  const handleRemoveBusy = (event: BusyEvent) => {
+    if (!event.isAppCreated) return;
+    if (!event.seriesId) {
+      removeAndRefresh(event, false);
+      return;
+    }
+
+    Alert.alert(
+      STRINGS.ALERTS.REMOVE_RECURRING_TITLE,
+      STRINGS.ALERTS.REMOVE_RECURRING_MESSAGE,
+      [
+        { text: STRINGS.ALERTS.CANCEL, style: 'cancel' },
+        {
+          text: STRINGS.ALERTS.REMOVE_OCCURRENCE,
+          onPress: () => removeAndRefresh(event, true),
+        },
+        {
+          text: STRINGS.ALERTS.REMOVE_SERIES,
+          style: 'destructive',
+          onPress: () => removeAndRefresh(event, false),
+        },
+      ],
+    );
+  };
+
   return (
     <MoodScene mood={mood} timeOfDay={timeOfDay}>
       <StatusBar barStyle="light-content" />
@@ -591,22 +1025,122 @@ const HomeScreen = () => {
           <RefreshControl refreshing={loading} onRefresh={syncCalendar} />
         }
       >
-        <Header mood={mood} onChangeMood={setMood} />
-        <BusyList
-          events={mergedBusyEvents}
-          dayLabel={new Date().toLocaleDateString('en-US', { weekday: 'long' })}
-          onRemove={handleRemoveBusy}
+        <Header
+          mood={mood}
+          moods={MoodService.visibleMoods(hiddenMoods, mood)}
+          onChangeMood={handleChangeMood}
+          onEditMoods={() => setMoodsVisible(true)}
+          links={[
+            {
+              label: STRINGS.CHECK_IN.LINK,
+              onPress: () => setCheckInVisible(true),
+            },
+            {
+              label: STRINGS.HISTORY.LINK,
+              onPress: () => setHistoryVisible(true),
+            },
+            {
+              label: STRINGS.INSIGHTS.LINK,
+              onPress: () => setInsightsVisible(true),
+            },
+            {
+              label: STRINGS.EXERCISES.LINK,
+              onPress: () => setExercisesVisible(true),
+            },
+            {
+              label: STRINGS.SCHEDULE.LINK,
+              onPress: () => setHoursVisible(true),
+            },
+            {
+              label: STRINGS.CALENDARS.LINK,
+              onPress: () => setCalendarsVisible(true),
+            },
+            {
+              label: STRINGS.SETTINGS.LINK,
+              onPress: () => setSettingsVisible(true),
+            },
+          ]}
+        />
+        <DayStrip
+          days={planningDays}
+          selectedDay={selectedDay}
+          onSelect={setSelectedDay}
+          markedDays={wellnessDays}
           mood={mood}
         />
+        <View style={styles.viewToggle}>
+          {(['list', 'timeline'] as const).map(view => {
+            const active = dayView === view;
+            return (
+              <Pressable
+                key={view}
+                style={[
+                  styles.viewChip,
+                  active && { backgroundColor: MOOD_THEMES[mood].primary },
+                ]}
+                onPress={() => setDayView(view)}
+              >
+                <Text
+                  style={[
+                    styles.viewChipText,
+                    active && styles.viewChipTextActive,
+                  ]}
+                >
+                  {view === 'list'
+                    ? STRINGS.TIMELINE.VIEW_LIST
+                    : STRINGS.TIMELINE.VIEW_TIMELINE}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        {dayView === 'timeline' ? (
+          <DayTimeline
+            day={selectedDay}
+            dayLabel={formatDayLabel(selectedDay)}
+            hours={schedule.days[selectedDay.getDay()]}
+            events={dayEvents}
+            slots={slots.filter(slot => !addedEventIdsBySlot[slot.id])}
+            mood={mood}
+            onCreate={handleTimelineCreate}
+            onMove={(event, startDate) =>
+              handleReschedule(event, {
+                startDate,
+                endDate: new Date(
+                  startDate.getTime() +
+                    diffMinutes(
+                      new Date(event.startDate),
+                      new Date(event.endDate),
+                    ) *
+                      60000,
+                ),
+              })
+            }
+          />
+        ) : (
+          <BusyList
+            events={dayEvents}
+            dayLabel={formatDayLabel(selectedDay)}
+            onRemove={handleRemoveBusy}
+            onMove={setMovingEvent}
+            onRecordOutcome={handleRecordOutcome}
+            onRecordMoodAfter={handleRecordMoodAfter}
+            onOpen={setActiveSession}
+            mood={mood}
+            moods={MoodService.visibleMoods(hiddenMoods)}
+          />
+        )}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>
-            {STRINGS.SUGGESTIONS.SECTION_TITLE}
+            {STRINGS.SUGGESTIONS.SECTION_TITLE(formatDayLabel(selectedDay))}
           </Text>
           <ScheduleSuggestions
             mood={mood}
             slots={slots}
             onAdd={handleAddSlot}
             onChangeTime={handleChangeTime}
+            shortMinutes={settings.shortMinutes}
+            longMinutes={settings.longMinutes}
             addedEventIds={addedEventIdsBySlot}
             conflictSlotId={conflictSlotId}
             loading={loading}
@@ -633,8 +1167,103 @@ const HomeScreen = () => {
           >
             {banner}
           </Text>
+          {bannerAction && (
+            <Pressable
+              hitSlop={8}
+              onPress={() => {
+                const { onPress } = bannerAction;
+                if (bannerTimer.current) clearTimeout(bannerTimer.current);
+                setBanner(null);
+                setBannerAction(null);
+                onPress();
+              }}
+            >
+              <Text
+                style={[
+                  styles.bannerAction,
+                  bannerTone === 'success'
+                    ? styles.bannerTextSuccess
+                    : styles.bannerTextError,
+                ]}
+              >
+                {bannerAction.label}
+              </Text>
+            </Pressable>
+          )}
         </View>
       )}
+      <CalendarsScreen
+        visible={calendarsVisible}
+        mood={mood}
+        onClose={changed => {
+          setCalendarsVisible(false);
+          if (changed) syncCalendar();
+        }}
+        onDataDeleted={resetLocalState}
+      />
+      <WorkingHoursScreen
+        visible={hoursVisible}
+        mood={mood}
+        onClose={changed => {
+          setHoursVisible(false);
+          if (changed) syncCalendar();
+        }}
+      />
+      <SettingsScreen
+        visible={settingsVisible}
+        mood={mood}
+        onClose={changed => {
+          setSettingsVisible(false);
+          if (changed) syncCalendar();
+        }}
+      />
+      <HistoryScreen
+        visible={historyVisible}
+        mood={mood}
+        onClose={() => setHistoryVisible(false)}
+      />
+      <InsightsScreen
+        visible={insightsVisible}
+        mood={mood}
+        onClose={() => setInsightsVisible(false)}
+      />
+      <ExercisesScreen
+        visible={exercisesVisible}
+        mood={mood}
+        onClose={changed => {
+          setExercisesVisible(false);
+          // Resync so chips and events pick up the edited exercises
+          if (changed) syncCalendar();
+        }}
+      />
+      <CheckInScreen
+        visible={checkInVisible}
+        moods={MoodService.visibleMoods(hiddenMoods)}
+        initial={checkIn}
+        onCancel={() => setCheckInVisible(false)}
+        onSave={handleCheckIn}
+      />
+      <MoodsScreen
+        visible={moodsVisible}
+        mood={mood}
+        hiddenMoods={hiddenMoods}
+        onChangeHidden={setHiddenMoods}
+        onClose={() => setMoodsVisible(false)}
+      />
+      <RescheduleScreen
+        event={movingEvent}
+        mood={mood}
+        onCancel={() => setMovingEvent(null)}
+        onSave={handleReschedule}
+      />
+      <SessionPlayerScreen
+        event={activeSession}
+        mood={mood}
+        moods={MoodService.visibleMoods(hiddenMoods)}
+        timeOfDay={timeOfDay}
+        onClose={() => setActiveSession(null)}
+        onFinish={handleFinishSession}
+      />
       <Modal visible={pickerVisible} transparent animationType="fade">
         <View style={styles.modalBackdrop}>
           <Pressable
@@ -674,10 +1303,25 @@ const styles = StyleSheet.create({
     color: COLORS.TEXT_TERTIARY,
     fontSize: 15,
   },
+  linkRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 14,
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
   moodRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
     gap: 10,
   },
+  moodEdit: {
+    fontWeight: '700',
+    paddingVertical: 8,
+  },
   moodPill: {
     paddingHorizontal: 14,
     paddingVertical: 8,
@@ -690,6 +1334,26 @@ const styles = StyleSheet.create({
     backgroundColor: COLORS.TEXT_PRIMARY,
     color: COLORS.TEXT_INVERSE,
   },
+  viewToggle: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+    marginTop: 12,
+  },
+  viewChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.BG_LIGHT,
+  },
+  viewChipText: {
+    color: COLORS.TEXT_PRIMARY,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  viewChipTextActive: {
+    color: COLORS.TEXT_INVERSE,
+  },
   section: {
     gap: 16,
     paddingBottom: 24,
@@ -717,6 +1381,9 @@ const styles = StyleSheet.create({
     position: 'absolute',
     bottom: 24,
     alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
     paddingHorizontal: 16,
     paddingVertical: 10,
     borderRadius: 12,
@@ -739,6 +1406,10 @@ const styles = StyleSheet.create({
   bannerText: {
     fontWeight: '700',
   },
+  bannerAction: {
+    fontWeight: '800',
+    textDecorationLine: 'underline',
+  },
   bannerTextSuccess: {
     color: BANNER.SUCCESS_TEXT,
   },
@@ -0,0 +1,505 @@
+/**
+ * InsightsScreen Component
+ *
+ * Adherence dashboard, presented as a full-screen modal from HomeScreen:
+ * - Minutes scheduled vs completed per week (4, 8 or 12 weeks)
+ * - Most used exercises per mood
+ * - How often the exercise mood differs from the user's mood
+ * - Mood before vs after sessions, per exercise
+ * - Time-of-day distribution by daypart
+ *
+ * Charts are plain Views so everything renders offline.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import * as CONSTS from '../constants/app';
+import { COLORS } from '../constants/colors';
+import { STRINGS } from '../constants/strings';
+import CalendarService from '../services/CalendarService';
+import ExerciseService from '../services/ExerciseService';
+import InsightsService, { Insights } from '../services/InsightsService';
+import SessionLogService from '../services/SessionLogService';
+import { MOOD_THEMES, MoodKey } from '../types/mood';
+import { addDays, startOfDay } from '../utils/date';
+
+type Props = {
+  visible: boolean;
+  mood: MoodKey;
+  onClose: () => void;
+};
+
+const CHART_HEIGHT = 120;
+
+/**
+ * WeeklyBars: Paired vertical bars (scheduled behind, completed in front)
+ */
+const WeeklyBars = ({
+  insights,
+  color,
+}: {
+  insights: Insights;
+  color: string;
+}) => {
+  const max = Math.max(1, ...insights.weeks.map(week => week.scheduledMinutes));
+  return (
+    <View style={styles.chart}>
+      {insights.weeks.map(week => (
+        <View key={week.weekStart.toISOString()} style={styles.chartColumn}>
+          <View style={styles.barTrack}>
+            <View
+              style={[
+                styles.bar,
+                styles.barScheduled,
+                { height: (week.scheduledMinutes / max) * CHART_HEIGHT },
+              ]}
+            />
+            <View
+              style={[
+                styles.bar,
+                {
+                  backgroundColor: color,
+                  height: (week.completedMinutes / max) * CHART_HEIGHT,
+                },
+              ]}
+            />
+          </View>
+          <Text style={styles.chartLabel}>
+            {week.weekStart.getMonth() + 1}/{week.weekStart.getDate()}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+/**
+ * HorizontalBar: Labeled bar scaled against a maximum
+ */
+const HorizontalBar = ({
+  label,
+  value,
+  max,
+  color,
+}: {
+  label: string;
+  value: number;
+  max: number;
+  color: string;
+}) => (
+  <View style={styles.hRow}>
+    <Text style={styles.hLabel}>{label}</Text>
+    <View style={styles.hTrack}>
+      <View
+        style={[
+          styles.hFill,
+          {
+            backgroundColor: color,
+            width: `${(value / Math.max(1, max)) * 100}%`,
+          },
+        ]}
+      />
+    </View>
+    <Text style={styles.hValue}>{value}</Text>
+  </View>
+);
+
+const InsightsScreen = ({ visible, mood, onClose }: Props) => {
+  const theme = MOOD_THEMES[mood];
+  const [weeks, setWeeks] = useState<number>(CONSTS.INSIGHTS.DEFAULT_WEEKS);
+  const [insights, setInsights] = useState<Insights | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  /**
+   * load: Fetches app-created events for the window and aggregates them
+   */
+  const load = useCallback(async (weekCount: number) => {
+    setLoading(true);
+    setError(undefined);
+    try {
+      const days = weekCount * 7;
+      const [events, outcomes] = await Promise.all([
+        CalendarService.fetchBusyEvents(days, {
+          startDate: addDays(startOfDay(new Date()), -(days - 1)),
+        }),
+        SessionLogService.loadOutcomes(),
+      ]);
+      setInsights(
+        InsightsService.computeInsights(
+          SessionLogService.attachOutcomes(events, outcomes),
+          weekCount,
+        ),
+      );
+    } catch (caughtError) {
+      console.warn('Unable to load insights', caughtError);
+      setError(STRINGS.INSIGHTS.LOAD_FAILED);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload when opened or when the window changes
+  useEffect(() => {
+    if (visible) load(weeks);
+  }, [visible, weeks, load]);
+
+  const isEmpty = !!insights && insights.totalScheduledMinutes === 0;
+  const daypartMax = insights
+    ? Math.max(...Object.values(insights.daypartCounts))
+    : 0;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{STRINGS.INSIGHTS.TITLE}</Text>
+            <Text style={styles.subtitle}>{STRINGS.INSIGHTS.SUBTITLE}</Text>
+          </View>
+          <Pressable onPress={onClose}>
+            <Text style={[styles.done, { color: theme.primary }]}>
+              {STRINGS.INSIGHTS.BUTTON_DONE}
+            </Text>
+          </Pressable>
+        </View>
+
+        {/* Window selector */}
+        <View style={styles.chipRow}>
+          {CONSTS.INSIGHTS.WEEK_OPTIONS.map(option => {
+            const active = option === weeks;
+            return (
+              <Pressable
+                key={option}
+                onPress={() => setWeeks(option)}
+                style={[styles.chip, active && styles.chipActive]}
+              >
+                <Text
+                  style={[styles.chipText, active && styles.chipTextActive]}
+                >
+                  {STRINGS.INSIGHTS.WEEKS(option)}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {loading && (
+          <View style={styles.stateRow}>
+            <ActivityIndicator />
+            <Text style={styles.stateText}>{STRINGS.INSIGHTS.LOADING}</Text>
+          </View>
+        )}
+        {!loading && error && (
+          <View style={styles.stateRow}>
+            <Text style={[styles.stateText, styles.error]}>{error}</Text>
+          </View>
+        )}
+        {!loading && !error && isEmpty && (
+          <View style={styles.stateRow}>
+            <Text style={styles.stateText}>{STRINGS.INSIGHTS.EMPTY}</Text>
+          </View>
+        )}
+
+        {!loading && !error && insights && !isEmpty && (
+          <ScrollView contentContainerStyle={styles.content}>
+            {/* Scheduled vs completed minutes */}
+            <Text style={styles.sectionTitle}>
+              {STRINGS.INSIGHTS.SECTION_MINUTES}
+            </Text>
+            <Text style={styles.meta}>
+              {STRINGS.INSIGHTS.TOTALS(
+                insights.totalCompletedMinutes,
+                insights.totalScheduledMinutes,
+              )}
+            </Text>
+            <WeeklyBars insights={insights} color={theme.primary} />
+            <View style={styles.legend}>
+              <View style={[styles.legendSwatch, styles.barScheduled]} />
+              <Text style={styles.meta}>
+                {STRINGS.INSIGHTS.LEGEND_SCHEDULED}
+              </Text>
+              <View
+                style={[
+                  styles.legendSwatch,
+                  { backgroundColor: theme.primary },
+                ]}
+              />
+              <Text style={styles.meta}>
+                {STRINGS.INSIGHTS.LEGEND_COMPLETED}
+              </Text>
+            </View>
+
+            {/* Exercises per mood */}
+            <Text style={styles.sectionTitle}>
+              {STRINGS.INSIGHTS.SECTION_EXERCISES}
+            </Text>
+            {(Object.keys(insights.topExercisesByMood) as MoodKey[]).map(
+              moodKey => {
+                const counts = insights.topExercisesByMood[moodKey] ?? [];
+                const max = counts[0]?.count ?? 0;
+                return (
+                  <View key={moodKey} style={styles.group}>
+                    <Text style={styles.groupTitle}>{moodKey}</Text>
+                    {counts.map(item => (
+                      <HorizontalBar
+                        key={item.exerciseId}
+                        label={STRINGS.LABELS.EXERCISE(
+                          ExerciseService.exerciseName(item.exerciseId),
+                        )}
+                        value={item.count}
+                        max={max}
+                        color={MOOD_THEMES[moodKey].primary}
+                      />
+                    ))}
+                  </View>
+                );
+              },
+            )}
+
+            {/* Exercise mood vs user mood */}
+            <Text style={styles.sectionTitle}>
+              {STRINGS.INSIGHTS.SECTION_MISMATCH}
+            </Text>
+            <View style={styles.hTrack}>
+              <View
+                style={[
+                  styles.hFill,
+                  {
+                    backgroundColor: theme.primary,
+                    width: `${insights.moodMismatchRate * 100}%`,
+                  },
+                ]}
+              />
+            </View>
+            <Text style={styles.meta}>
+              {STRINGS.INSIGHTS.MISMATCH(
+                Math.round(insights.moodMismatchRate * 100),
+              )}
+            </Text>
+
+            {/* Mood before vs after, per exercise */}
+            <Text style={styles.sectionTitle}>
+              {STRINGS.INSIGHTS.SECTION_EFFECT}
+            </Text>
+            {!insights.exerciseEffects.length && (
+              <Text style={styles.meta}>{STRINGS.INSIGHTS.EFFECT_EMPTY}</Text>
+            )}
+            {insights.exerciseEffects.map(effect => (
+              <View key={effect.exerciseId} style={styles.group}>
+                <Text style={styles.groupTitle}>
+                  {STRINGS.LABELS.EXERCISE(
+                    ExerciseService.exerciseName(effect.exerciseId),
+                  )}
+                </Text>
+                <Text style={styles.meta}>
+                  {STRINGS.INSIGHTS.EFFECT_RATED(effect.rated)}
+                </Text>
+                {effect.shifts.map(shift => (
+                  <HorizontalBar
+                    key={`${shift.from}-${shift.to}`}
+                    label={STRINGS.INSIGHTS.EFFECT_SHIFT(shift.from, shift.to)}
+                    value={shift.count}
+                    max={effect.rated}
+                    color={MOOD_THEMES[shift.to].primary}
+                  />
+                ))}
+              </View>
+            ))}
+
+            {/* Daypart distribution */}
+            <Text style={styles.sectionTitle}>
+              {STRINGS.INSIGHTS.SECTION_DAYPART}
+            </Text>
+            {CONSTS.DAYPARTS.map(daypart => (
+              <HorizontalBar
+                key={daypart}
+                label={STRINGS.INSIGHTS.DAYPART_LABELS[daypart]}
+                value={insights.daypartCounts[daypart]}
+                max={daypartMax}
+                color={theme.primary}
+              />
+            ))}
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BG_WHITE,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  subtitle: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 14,
+  },
+  done: {
+    fontSize: 16,
+    fontWeight: '700',
+    paddingVertical: 6,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 48,
+    gap: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.BG_LIGHT,
+  },
+  chipActive: {
+    backgroundColor: COLORS.TEXT_PRIMARY,
+  },
+  chipText: {
+    color: COLORS.TEXT_PRIMARY,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: COLORS.TEXT_INVERSE,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 16,
+  },
+  meta: {
+    fontSize: 13,
+    color: COLORS.TEXT_TERTIARY,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 4,
+    marginTop: 8,
+  },
+  chartColumn: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 4,
+  },
+  barTrack: {
+    width: '100%',
+    height: CHART_HEIGHT,
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    borderTopLeftRadius: 4,
+    borderTopRightRadius: 4,
+  },
+  barScheduled: {
+    backgroundColor: COLORS.BG_LIGHTER,
+  },
+  chartLabel: {
+    fontSize: 10,
+    color: COLORS.TEXT_TERTIARY,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+  },
+  group: {
+    gap: 4,
+  },
+  groupTitle: {
+    fontWeight: '700',
+    color: COLORS.TEXT_SECONDARY,
+  },
+  hRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  hLabel: {
+    width: 100,
+    fontSize: 13,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  hTrack: {
+    flex: 1,
+    height: 10,
+    borderRadius: 5,
+    overflow: 'hidden',
+    backgroundColor: COLORS.BG_LIGHT,
+  },
+  hFill: {
+    height: '100%',
+    borderRadius: 5,
+  },
+  hValue: {
+    width: 28,
+    textAlign: 'right',
+    fontSize: 13,
+    fontWeight: '700',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  stateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  stateText: {
+    fontSize: 15,
+    color: COLORS.TEXT_TERTIARY,
+  },
+  error: {
+    color: COLORS.TEXT_ERROR,
+  },
+});
+
+export default InsightsScreen;
@@ -0,0 +1,182 @@
+/**
+ * MoodsScreen Component
+ *
+ * Mood picker settings, presented as a modal from the Header:
+ * - Lists every mood theme with a "show in picker" toggle
+ * - Keeps the current mood and at least one other mood visible
+ */
+
+import React, { useState } from 'react';
+import {
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { COLORS } from '../constants/colors';
+import { STRINGS } from '../constants/strings';
+import MoodService from '../services/MoodService';
+import { MOOD_LIST, MOOD_THEMES, MoodKey } from '../types/mood';
+
+type Props = {
+  visible: boolean;
+  mood: MoodKey;
+  hiddenMoods: MoodKey[];
+  onChangeHidden: (hidden: MoodKey[]) => void;
+  onClose: () => void;
+};
+
+const MoodsScreen = ({
+  visible,
+  mood,
+  hiddenMoods,
+  onChangeHidden,
+  onClose,
+}: Props) => {
+  const theme = MOOD_THEMES[mood];
+  const [error, setError] = useState<string | undefined>(undefined);
+  const visibleCount = MOOD_LIST.length - hiddenMoods.length;
+
+  const toggle = async (key: MoodKey, shown: boolean) => {
+    setError(undefined);
+    try {
+      onChangeHidden(await MoodService.setMoodHidden(key, !shown));
+    } catch (caughtError) {
+      console.warn('Unable to save hidden moods', caughtError);
+      setError(STRINGS.MOOD_PICKER.SAVE_FAILED);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{STRINGS.MOOD_PICKER.TITLE}</Text>
+            <Text style={styles.subtitle}>{STRINGS.MOOD_PICKER.SUBTITLE}</Text>
+          </View>
+          <Pressable onPress={onClose}>
+            <Text style={[styles.done, { color: theme.primary }]}>
+              {STRINGS.MOOD_PICKER.BUTTON_DONE}
+            </Text>
+          </Pressable>
+        </View>
+
+        {error && <Text style={[styles.stateText, styles.error]}>{error}</Text>}
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {MOOD_LIST.map(item => {
+            const isActive = item.key === mood;
+            const shown = !hiddenMoods.includes(item.key);
+            return (
+              <View key={item.key} style={styles.row}>
+                <View
+                  style={[styles.swatch, { backgroundColor: item.primary }]}
+                />
+                <View style={styles.rowText}>
+                  <Text style={styles.rowTitle}>{item.title}</Text>
+                  {isActive && (
+                    <Text style={styles.rowMeta}>
+                      {STRINGS.MOOD_PICKER.ACTIVE_HINT}
+                    </Text>
+                  )}
+                </View>
+                <Switch
+                  value={shown || isActive}
+                  disabled={isActive || (shown && visibleCount <= 1)}
+                  onValueChange={value => toggle(item.key, value)}
+                  trackColor={{
+                    true: theme.primary,
+                    false: COLORS.BG_LIGHTER,
+                  }}
+                />
+              </View>
+            );
+          })}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BG_WHITE,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  subtitle: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 14,
+  },
+  done: {
+    fontSize: 16,
+    fontWeight: '700',
+    paddingVertical: 6,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 48,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: COLORS.BG_LIGHTER,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontWeight: '700',
+    color: COLORS.TEXT_SECONDARY,
+  },
+  rowMeta: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 12,
+  },
+  swatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  stateText: {
+    fontSize: 15,
+    color: COLORS.TEXT_TERTIARY,
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+  },
+  error: {
+    color: COLORS.TEXT_ERROR,
+  },
+});
+
+export default MoodsScreen;
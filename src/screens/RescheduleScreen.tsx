@@ -0,0 +1,299 @@
+/**
+ * RescheduleScreen Component
+ *
+ * Moves an app-created wellness event, presented as a modal from the Busy list:
+ * - New start time on the same day
+ * - Duration and exercise chips (exercises suited to the event's mood)
+ * - Recurring events only move the selected occurrence
+ */
+
+import DateTimePicker from '@react-native-community/datetimepicker';
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { COLORS } from '../constants/colors';
+import { STRINGS } from '../constants/strings';
+import { BusyEvent, RescheduleChanges } from '../services/CalendarService';
+import ExerciseService from '../services/ExerciseService';
+import SettingsService from '../services/SettingsService';
+import { MOOD_THEMES, MoodKey } from '../types/mood';
+import { diffMinutes } from '../utils/date';
+
+type Props = {
+  event: BusyEvent | null; // Event being moved; the screen is hidden when null
+  mood: MoodKey;
+  onCancel: () => void;
+  onSave: (event: BusyEvent, changes: RescheduleChanges) => void;
+};
+
+/**
+ * Formats Date to time string (e.g., "9:00 AM")
+ */
+const formatTime = (value: Date) =>
+  new Intl.DateTimeFormat('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(value);
+
+const RescheduleScreen = ({ event, mood, onCancel, onSave }: Props) => {
+  const eventMood =
+    event?.exerciseMood ??
+    ExerciseService.moodForExercise(event?.exerciseId, mood);
+  const theme = MOOD_THEMES[eventMood];
+  const [start, setStart] = useState(() => new Date());
+  const { shortMinutes, longMinutes } = SettingsService.getSettings();
+  const [duration, setDuration] = useState<number>(shortMinutes);
+  const [exerciseId, setExerciseId] = useState<string | undefined>(undefined);
+  // Android shows the picker as a dialog, so it is only mounted on request
+  const [pickerOpen, setPickerOpen] = useState(Platform.OS === 'ios');
+
+  // Start from the event's current values every time the screen opens
+  useEffect(() => {
+    if (!event) return;
+    const eventStart = new Date(event.startDate);
+    setStart(eventStart);
+    setDuration(diffMinutes(eventStart, new Date(event.endDate)));
+    setExerciseId(event.exerciseId);
+    setPickerOpen(Platform.OS === 'ios');
+  }, [event]);
+
+  const durations = Array.from(
+    new Set<number>([shortMinutes, longMinutes, duration]),
+  ).sort((a, b) => a - b);
+
+  // The current exercise stays selectable even if it no longer suits the mood
+  const exercises = ExerciseService.exercisesForMood(eventMood);
+  const current = ExerciseService.getExercise(event?.exerciseId);
+  if (current && !exercises.some(item => item.id === current.id)) {
+    exercises.unshift(current);
+  }
+
+  const handleTimePicked = (_event: unknown, date?: Date) => {
+    if (Platform.OS !== 'ios') setPickerOpen(false);
+    if (!date) return;
+    const next = new Date(start);
+    next.setHours(date.getHours(), date.getMinutes(), 0, 0);
+    setStart(next);
+  };
+
+  const save = () => {
+    if (!event) return;
+    onSave(event, {
+      startDate: start,
+      endDate: new Date(start.getTime() + duration * 60000),
+      exerciseId,
+      exerciseMood: ExerciseService.moodForExercise(exerciseId, eventMood),
+    });
+  };
+
+  return (
+    <Modal
+      visible={!!event}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onCancel}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{STRINGS.RESCHEDULE.TITLE}</Text>
+            <Text style={styles.subtitle}>
+              {event?.seriesId
+                ? STRINGS.RESCHEDULE.SUBTITLE_RECURRING
+                : STRINGS.RESCHEDULE.SUBTITLE}
+            </Text>
+          </View>
+          <Pressable onPress={onCancel}>
+            <Text style={[styles.done, { color: theme.primary }]}>
+              {STRINGS.RESCHEDULE.BUTTON_CANCEL}
+            </Text>
+          </Pressable>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.label}>{STRINGS.RESCHEDULE.LABEL_START}</Text>
+          {Platform.OS !== 'ios' && (
+            <Pressable
+              style={[styles.timeButton, { borderColor: theme.primary }]}
+              onPress={() => setPickerOpen(true)}
+            >
+              <Text style={[styles.timeText, { color: theme.primary }]}>
+                {formatTime(start)}
+              </Text>
+            </Pressable>
+          )}
+          {pickerOpen && (
+            <DateTimePicker
+              mode="time"
+              value={start}
+              onChange={handleTimePicked}
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            />
+          )}
+
+          <Text style={styles.label}>{STRINGS.RESCHEDULE.LABEL_DURATION}</Text>
+          <View style={styles.chipRow}>
+            {durations.map(minutes => {
+              const active = duration === minutes;
+              return (
+                <Pressable
+                  key={minutes}
+                  style={[
+                    styles.chip,
+                    active && { backgroundColor: theme.primary },
+                  ]}
+                  onPress={() => setDuration(minutes)}
+                >
+                  <Text
+                    style={[styles.chipText, active && styles.chipTextActive]}
+                  >
+                    {STRINGS.RESCHEDULE.MINUTES(minutes)}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <Text style={styles.label}>{STRINGS.RESCHEDULE.LABEL_EXERCISE}</Text>
+          <View style={styles.chipRow}>
+            {exercises.map(item => {
+              const active = exerciseId === item.id;
+              return (
+                <Pressable
+                  key={item.id}
+                  style={[
+                    styles.chip,
+                    active && { backgroundColor: theme.primary },
+                  ]}
+                  onPress={() => setExerciseId(item.id)}
+                >
+                  <Text
+                    style={[styles.chipText, active && styles.chipTextActive]}
+                  >
+                    {item.name}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <Text style={styles.summary}>
+            {STRINGS.RESCHEDULE.SUMMARY(
+              formatTime(start),
+              formatTime(new Date(start.getTime() + duration * 60000)),
+            )}
+          </Text>
+
+          <Pressable
+            style={[styles.saveButton, { backgroundColor: theme.primary }]}
+            onPress={save}
+          >
+            <Text style={styles.saveText}>
+              {STRINGS.RESCHEDULE.BUTTON_SAVE}
+            </Text>
+          </Pressable>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BG_WHITE,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  subtitle: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 14,
+  },
+  done: {
+    fontSize: 16,
+    fontWeight: '700',
+    paddingVertical: 6,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 48,
+    gap: 10,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 8,
+  },
+  timeButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  timeText: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.BG_LIGHT,
+  },
+  chipText: {
+    color: COLORS.TEXT_PRIMARY,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: COLORS.TEXT_INVERSE,
+  },
+  summary: {
+    marginTop: 8,
+    color: COLORS.TEXT_SECONDARY,
+    fontWeight: '700',
+  },
+  saveButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveText: {
+    color: COLORS.TEXT_INVERSE,
+    fontWeight: '800',
+  },
+});
+
+export default RescheduleScreen;
@@ -0,0 +1,546 @@
+/**
+ * SessionPlayerScreen Component
+ *
+ * Full-screen guided session for a wellness event:
+ * - Countdown for the event duration with pause/resume
+ * - Step-by-step instructions spread across the session
+ * - Pacing orb driven by the exercise mood's paceMs/amplitude
+ * - Breathing pacer with a pattern picker for breathing exercises
+ * - End-of-session summary that logs the outcome and the mood afterwards
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+import Animated, {
+  cancelAnimation,
+  Easing,
+  useAnimatedStyle,
+  useSharedValue,
+  withRepeat,
+  withTiming,
+} from 'react-native-reanimated';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import BreathingPacer from '../components/BreathingPacer';
+import MoodScene from '../components/MoodScene';
+import * as CONSTS from '../constants/app';
+import { COLORS } from '../constants/colors';
+import { DEFAULT_INSTRUCTIONS } from '../constants/exercises';
+import { STRINGS } from '../constants/strings';
+import BreathingPatternService from '../services/BreathingPatternService';
+import { BusyEvent } from '../services/CalendarService';
+import ExerciseService from '../services/ExerciseService';
+import { SessionStatus } from '../services/SessionLogService';
+import {
+  BreathingPattern,
+  BUILT_IN_PATTERNS,
+  EXERCISE_PATTERN_IDS,
+} from '../types/breathing';
+import { MOOD_THEMES, MoodKey, MoodTheme } from '../types/mood';
+import { diffMinutes } from '../utils/date';
+import BreathingPatternsScreen from './BreathingPatternsScreen';
+
+type Props = {
+  event: BusyEvent | null; // Session to play; null hides the player
+  mood: MoodKey; // Fallback when the event has no exercise mood
+  moods: MoodTheme[]; // Choices for the post-session mood check
+  timeOfDay: 'morning' | 'afternoon' | 'evening';
+  onClose: () => void;
+  onFinish: (
+    event: BusyEvent,
+    status: SessionStatus,
+    minutes: number,
+    moodAfter?: MoodKey,
+  ) => void;
+};
+
+/**
+ * Formats seconds as m:ss
+ */
+const formatClock = (totalSeconds: number) => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * PacingOrb: Breathing circle paced by the mood theme; freezes while paused
+ */
+const PacingOrb = ({ mood, running }: { mood: MoodKey; running: boolean }) => {
+  const theme = MOOD_THEMES[mood];
+  const pulse = useSharedValue(0);
+
+  useEffect(() => {
+    if (!running) {
+      cancelAnimation(pulse);
+      return;
+    }
+    pulse.value = withRepeat(
+      withTiming(1, {
+        duration: theme.paceMs,
+        easing: Easing.inOut(Easing.ease),
+      }),
+      -1,
+      true,
+    );
+  }, [running, theme.paceMs, pulse]);
+
+  const style = useAnimatedStyle(() => {
+    const scale = 1 + (theme.amplitude / 50) * pulse.value;
+    return {
+      transform: [{ scale }],
+      opacity: 0.55 + 0.3 * pulse.value,
+    };
+  }, [theme.amplitude]);
+
+  return (
+    <Animated.View
+      style={[
+        styles.orb,
+        { backgroundColor: theme.accent, shadowColor: theme.shadow },
+        style,
+      ]}
+    />
+  );
+};
+
+const SessionPlayerScreen = ({
+  event,
+  mood,
+  moods,
+  timeOfDay,
+  onClose,
+  onFinish,
+}: Props) => {
+  const sessionMood = event?.exerciseMood ?? mood;
+  const theme = MOOD_THEMES[sessionMood];
+  const totalSeconds = event
+    ? diffMinutes(new Date(event.startDate), new Date(event.endDate)) * 60
+    : 0;
+
+  const [elapsed, setElapsed] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [finished, setFinished] = useState(false);
+  const [patterns, setPatterns] =
+    useState<BreathingPattern[]>(BUILT_IN_PATTERNS);
+  const [patternId, setPatternId] = useState<string | undefined>(undefined);
+  const [patternsVisible, setPatternsVisible] = useState(false);
+  const [moodAfter, setMoodAfter] = useState<MoodKey | undefined>(undefined);
+
+  // Breathing exercises get the pacer instead of the mood orb
+  const defaultPatternId = event?.exerciseId
+    ? EXERCISE_PATTERN_IDS[event.exerciseId]
+    : undefined;
+  const pattern = defaultPatternId
+    ? patterns.find(item => item.id === patternId) ??
+      patterns.find(item => item.id === defaultPatternId)
+    : undefined;
+
+  /**
+   * loadPatterns: Refreshes the picker with built-in and custom patterns
+   */
+  const loadPatterns = useCallback(() => {
+    BreathingPatternService.listPatterns()
+      .then(setPatterns)
+      .catch(caughtError =>
+        console.warn('Unable to load breathing patterns', caughtError),
+      );
+  }, []);
+
+  // Custom exercises may be saved without steps
+  const steps = useMemo(() => {
+    const instructions = ExerciseService.getExercise(
+      event?.exerciseId,
+    )?.instructions;
+    return instructions?.length ? instructions : DEFAULT_INSTRUCTIONS;
+  }, [event?.exerciseId]);
+
+  // Reset whenever a new session opens
+  useEffect(() => {
+    setElapsed(0);
+    setRunning(false);
+    setFinished(false);
+    setPatternId(undefined);
+    setMoodAfter(undefined);
+  }, [event?.id, event?.startDate]);
+
+  // Pick up custom patterns whenever the player opens
+  const isOpen = !!event;
+  useEffect(() => {
+    if (isOpen) loadPatterns();
+  }, [isOpen, loadPatterns]);
+
+  // Tick once per second while running
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => {
+      setElapsed(prev => Math.min(prev + 1, totalSeconds));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [running, totalSeconds]);
+
+  // Finish automatically when the countdown reaches zero
+  useEffect(() => {
+    if (totalSeconds > 0 && elapsed >= totalSeconds) {
+      setRunning(false);
+      setFinished(true);
+    }
+  }, [elapsed, totalSeconds]);
+
+  if (!event) return null;
+
+  const remaining = Math.max(0, totalSeconds - elapsed);
+  const stepIndex = Math.min(
+    steps.length - 1,
+    Math.floor((elapsed / Math.max(1, totalSeconds)) * steps.length),
+  );
+  const minutesDone = Math.round(elapsed / 60);
+  const plannedMinutes = Math.round(totalSeconds / 60);
+  const completed = elapsed >= totalSeconds * CONSTS.SESSION.COMPLETION_RATIO;
+
+  const handleSave = () => {
+    onFinish(
+      event,
+      completed ? 'completed' : 'partial',
+      minutesDone,
+      moodAfter,
+    );
+  };
+
+  return (
+    <Modal
+      visible
+      animationType="slide"
+      presentationStyle="fullScreen"
+      onRequestClose={onClose}
+    >
+      <MoodScene mood={sessionMood} timeOfDay={timeOfDay}>
+        <SafeAreaView style={styles.container}>
+          <View style={styles.topRow}>
+            <Text style={styles.exercise}>
+              {STRINGS.LABELS.EXERCISE(
+                ExerciseService.exerciseName(event.exerciseId),
+              )}
+            </Text>
+            <Pressable onPress={onClose}>
+              <Text style={[styles.close, { color: theme.primary }]}>
+                {STRINGS.SESSION.BUTTON_CLOSE}
+              </Text>
+            </Pressable>
+          </View>
+
+          {!finished ? (
+            <>
+              <View style={styles.center}>
+                {pattern ? (
+                  <BreathingPacer
+                    pattern={pattern}
+                    running={running}
+                    mood={sessionMood}
+                  />
+                ) : (
+                  <PacingOrb mood={sessionMood} running={running} />
+                )}
+                <Text style={styles.clock}>{formatClock(remaining)}</Text>
+                {!running && elapsed > 0 && (
+                  <Text style={styles.paused}>{STRINGS.SESSION.PAUSED}</Text>
+                )}
+              </View>
+
+              {pattern && (
+                <View style={styles.patternRow}>
+                  {patterns.map(item => {
+                    const active = item.id === pattern.id;
+                    return (
+                      <Pressable
+                        key={item.id}
+                        style={[styles.chip, active && styles.chipActive]}
+                        onPress={() => setPatternId(item.id)}
+                      >
+                        <Text
+                          style={[
+                            styles.chipText,
+                            active && styles.chipTextActive,
+                          ]}
+                        >
+                          {item.name}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                  <Pressable
+                    style={styles.chip}
+                    onPress={() => {
+                      setRunning(false);
+                      setPatternsVisible(true);
+                    }}
+                  >
+                    <Text style={[styles.chipText, { color: theme.primary }]}>
+                      {STRINGS.BREATHING.BUTTON_MANAGE}
+                    </Text>
+                  </Pressable>
+                </View>
+              )}
+
+              <View style={styles.stepCard}>
+                <Text style={styles.stepCounter}>
+                  {STRINGS.SESSION.STEP_COUNTER(stepIndex + 1, steps.length)}
+                </Text>
+                <Text style={styles.stepText}>{steps[stepIndex]}</Text>
+              </View>
+
+              <View style={styles.actions}>
+                <Pressable
+                  style={[styles.ghostButton, { borderColor: theme.primary }]}
+                  onPress={() => {
+                    setRunning(false);
+                    setFinished(true);
+                  }}
+                  disabled={elapsed === 0}
+                >
+                  <Text style={[styles.ghostText, { color: theme.primary }]}>
+                    {STRINGS.SESSION.BUTTON_END}
+                  </Text>
+                </Pressable>
+                <Pressable
+                  style={[
+                    styles.primaryButton,
+                    { backgroundColor: theme.primary },
+                  ]}
+                  onPress={() => setRunning(prev => !prev)}
+                >
+                  <Text style={styles.primaryText}>
+                    {running
+                      ? STRINGS.SESSION.BUTTON_PAUSE
+                      : elapsed > 0
+                      ? STRINGS.SESSION.BUTTON_RESUME
+                      : STRINGS.SESSION.BUTTON_START}
+                  </Text>
+                </Pressable>
+              </View>
+            </>
+          ) : (
+            <View style={styles.summary}>
+              <Text style={styles.summaryTitle}>
+                {completed
+                  ? STRINGS.SESSION.SUMMARY_TITLE
+                  : STRINGS.SESSION.SUMMARY_PARTIAL_TITLE}
+              </Text>
+              <Text style={[styles.summaryMinutes, { color: theme.primary }]}>
+                {STRINGS.SESSION.SUMMARY_MINUTES(minutesDone, plannedMinutes)}
+              </Text>
+              <Text style={styles.summaryHint}>
+                {STRINGS.SESSION.SUMMARY_HINT}
+              </Text>
+              <Text style={styles.moodPrompt}>
+                {STRINGS.SESSION.MOOD_AFTER_PROMPT}
+              </Text>
+              <View style={styles.moodRow}>
+                {moods.map(item => {
+                  const active = item.key === moodAfter;
+                  return (
+                    <Pressable
+                      key={item.key}
+                      style={[
+                        styles.chip,
+                        active && { backgroundColor: item.primary },
+                      ]}
+                      onPress={() =>
+                        setMoodAfter(active ? undefined : item.key)
+                      }
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          active && styles.chipTextActive,
+                        ]}
+                      >
+                        {item.title}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <Pressable
+                style={[
+                  styles.primaryButton,
+                  { backgroundColor: theme.primary },
+                ]}
+                onPress={handleSave}
+              >
+                <Text style={styles.primaryText}>
+                  {STRINGS.SESSION.BUTTON_SAVE}
+                </Text>
+              </Pressable>
+              <Pressable onPress={onClose}>
+                <Text style={styles.discard}>
+                  {STRINGS.SESSION.BUTTON_DISCARD}
+                </Text>
+              </Pressable>
+            </View>
+          )}
+        </SafeAreaView>
+      </MoodScene>
+      <BreathingPatternsScreen
+        visible={patternsVisible}
+        mood={sessionMood}
+        onClose={changed => {
+          setPatternsVisible(false);
+          if (changed) loadPatterns();
+        }}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'space-between',
+    paddingBottom: 24,
+  },
+  topRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  exercise: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  close: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  center: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+  },
+  orb: {
+    width: 180,
+    height: 180,
+    borderRadius: 90,
+    shadowOpacity: 0.6,
+    shadowRadius: 24,
+    shadowOffset: { width: 0, height: 12 },
+  },
+  clock: {
+    fontSize: 48,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+    fontVariant: ['tabular-nums'],
+  },
+  paused: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: COLORS.TEXT_TERTIARY,
+  },
+  patternRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 7,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    backgroundColor: 'rgba(255,255,255,0.78)',
+  },
+  chipActive: {
+    backgroundColor: COLORS.TEXT_PRIMARY,
+  },
+  chipText: {
+    color: COLORS.TEXT_PRIMARY,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: COLORS.TEXT_INVERSE,
+  },
+  stepCard: {
+    padding: 16,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255,255,255,0.75)',
+    gap: 6,
+  },
+  stepCounter: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.TEXT_TERTIARY,
+  },
+  stepText: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: COLORS.TEXT_SECONDARY,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  ghostButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1.2,
+    backgroundColor: 'rgba(255,255,255,0.7)',
+  },
+  ghostText: {
+    fontWeight: '700',
+  },
+  primaryButton: {
+    flexGrow: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 18,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryText: {
+    color: COLORS.TEXT_INVERSE,
+    fontWeight: '800',
+  },
+  summary: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'stretch',
+    gap: 14,
+  },
+  summaryTitle: {
+    fontSize: 30,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+    textAlign: 'center',
+  },
+  summaryMinutes: {
+    fontSize: 20,
+    fontWeight: '800',
+    textAlign: 'center',
+  },
+  summaryHint: {
+    fontSize: 14,
+    color: COLORS.TEXT_TERTIARY,
+    textAlign: 'center',
+  },
+  moodPrompt: {
+    fontSize: 15,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+    textAlign: 'center',
+  },
+  moodRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  discard: {
+    textAlign: 'center',
+    fontWeight: '700',
+    color: COLORS.TEXT_TERTIARY,
+    paddingVertical: 8,
+  },
+});
+
+export default SessionPlayerScreen;
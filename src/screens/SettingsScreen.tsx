@@ -0,0 +1,381 @@
+/**
+ * SettingsScreen Component
+ *
+ * App settings, presented as a modal from the Header:
+ * - Planning horizon, suggestions per day and slots ranked per scan
+ * - Shortest and longest reset, and how soon a suggestion may start
+ * - Where morning and afternoon end (slot ranking, insights, background tint)
+ * - Alert time for new wellness events
+ * - Persists choices immediately via SettingsService; resets to defaults on request
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { COLORS } from '../constants/colors';
+import { STRINGS } from '../constants/strings';
+import SettingsService, { SETTING_OPTIONS } from '../services/SettingsService';
+import { MOOD_THEMES, MoodKey } from '../types/mood';
+import { AppSettings } from '../types/settings';
+
+type Props = {
+  visible: boolean;
+  mood: MoodKey;
+  onClose: (changed: boolean) => void; // changed: settings were edited
+};
+
+type SettingRow = {
+  key: keyof AppSettings;
+  label: string;
+  format: (value: number) => string;
+};
+
+const SECTIONS: Array<{ title: string; hint?: string; rows: SettingRow[] }> = [
+  {
+    title: STRINGS.SETTINGS.SECTION_PLANNING,
+    rows: [
+      {
+        key: 'daysToFetch',
+        label: STRINGS.SETTINGS.LABEL_DAYS_TO_FETCH,
+        format: STRINGS.SETTINGS.DAYS,
+      },
+      {
+        key: 'suggestionsPerDay',
+        label: STRINGS.SETTINGS.LABEL_SUGGESTIONS_PER_DAY,
+        format: STRINGS.SETTINGS.COUNT,
+      },
+      {
+        key: 'maxSlots',
+        label: STRINGS.SETTINGS.LABEL_MAX_SLOTS,
+        format: STRINGS.SETTINGS.COUNT,
+      },
+      {
+        key: 'minFutureBufferMinutes',
+        label: STRINGS.SETTINGS.LABEL_FUTURE_BUFFER,
+        format: STRINGS.SETTINGS.MINUTES,
+      },
+    ],
+  },
+  {
+    title: STRINGS.SETTINGS.SECTION_SLOTS,
+    rows: [
+      {
+        key: 'shortMinutes',
+        label: STRINGS.SETTINGS.LABEL_SHORT_MINUTES,
+        format: STRINGS.SETTINGS.MINUTES,
+      },
+      {
+        key: 'longMinutes',
+        label: STRINGS.SETTINGS.LABEL_LONG_MINUTES,
+        format: STRINGS.SETTINGS.MINUTES,
+      },
+    ],
+  },
+  {
+    title: STRINGS.SETTINGS.SECTION_TIME_OF_DAY,
+    rows: [
+      {
+        key: 'morningEndHour',
+        label: STRINGS.SETTINGS.LABEL_MORNING_END,
+        format: STRINGS.SETTINGS.HOUR,
+      },
+      {
+        key: 'afternoonEndHour',
+        label: STRINGS.SETTINGS.LABEL_AFTERNOON_END,
+        format: STRINGS.SETTINGS.HOUR,
+      },
+    ],
+  },
+  {
+    title: STRINGS.SETTINGS.SECTION_REMINDERS,
+    hint: STRINGS.SETTINGS.REMINDER_HINT,
+    rows: [
+      {
+        key: 'reminderMinutes',
+        label: STRINGS.SETTINGS.LABEL_REMINDER,
+        format: minutes =>
+          minutes
+            ? STRINGS.SETTINGS.MINUTES(minutes)
+            : STRINGS.SETTINGS.REMINDER_OFF,
+      },
+    ],
+  },
+];
+
+const SettingsScreen = ({ visible, mood, onClose }: Props) => {
+  const theme = MOOD_THEMES[mood];
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [changed, setChanged] = useState(false);
+
+  /**
+   * load: Reads the stored settings
+   */
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(undefined);
+    try {
+      setSettings(await SettingsService.loadSettings());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload every time the screen opens
+  useEffect(() => {
+    if (visible) {
+      setChanged(false);
+      load();
+    }
+  }, [visible, load]);
+
+  /**
+   * update: Applies and persists a settings change
+   */
+  const update = async (next: AppSettings) => {
+    setSettings(next);
+    setChanged(true);
+    setError(undefined);
+    try {
+      await SettingsService.saveSettings(next);
+    } catch (caughtError) {
+      console.warn('Unable to save settings', caughtError);
+      setError(STRINGS.SETTINGS.SAVE_FAILED);
+    }
+  };
+
+  const confirmReset = () => {
+    Alert.alert(
+      STRINGS.SETTINGS.CONFIRM_RESET_TITLE,
+      STRINGS.SETTINGS.CONFIRM_RESET_MESSAGE,
+      [
+        { text: STRINGS.ALERTS.CANCEL, style: 'cancel' },
+        {
+          text: STRINGS.SETTINGS.CONFIRM_RESET,
+          style: 'destructive',
+          onPress: async () => {
+            setError(undefined);
+            try {
+              setSettings(await SettingsService.resetSettings());
+              setChanged(true);
+            } catch (caughtError) {
+              console.warn('Unable to reset settings', caughtError);
+              setError(STRINGS.SETTINGS.SAVE_FAILED);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={() => onClose(changed)}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{STRINGS.SETTINGS.TITLE}</Text>
+            <Text style={styles.subtitle}>{STRINGS.SETTINGS.SUBTITLE}</Text>
+          </View>
+          <Pressable onPress={() => onClose(changed)}>
+            <Text style={[styles.done, { color: theme.primary }]}>
+              {STRINGS.SETTINGS.BUTTON_DONE}
+            </Text>
+          </Pressable>
+        </View>
+
+        {loading && (
+          <View style={styles.stateRow}>
+            <ActivityIndicator />
+            <Text style={styles.stateText}>{STRINGS.SETTINGS.LOADING}</Text>
+          </View>
+        )}
+        {error && (
+          <View style={styles.stateRow}>
+            <Text style={[styles.stateText, styles.error]}>{error}</Text>
+          </View>
+        )}
+
+        {!loading && settings && (
+          <ScrollView contentContainerStyle={styles.content}>
+            {SECTIONS.map(section => (
+              <View key={section.title}>
+                <Text style={styles.sectionTitle}>{section.title}</Text>
+                {!!section.hint && (
+                  <Text style={styles.rowMeta}>{section.hint}</Text>
+                )}
+                {section.rows.map(row => (
+                  <View key={row.key} style={styles.settingRow}>
+                    <Text style={styles.rowTitle}>{row.label}</Text>
+                    <View style={styles.chipRow}>
+                      {SETTING_OPTIONS[row.key].map(value => {
+                        const active = settings[row.key] === value;
+                        const next = { ...settings, [row.key]: value };
+                        // Choices that would break a rule between settings are disabled
+                        const allowed =
+                          active || SettingsService.isValidSettings(next);
+                        return (
+                          <Pressable
+                            key={value}
+                            disabled={!allowed}
+                            style={[
+                              styles.chip,
+                              active && { backgroundColor: theme.primary },
+                              !allowed && styles.chipDisabled,
+                            ]}
+                            onPress={() => update(next)}
+                          >
+                            <Text
+                              style={[
+                                styles.chipText,
+                                active && styles.chipTextActive,
+                              ]}
+                            >
+                              {row.format(value)}
+                            </Text>
+                          </Pressable>
+                        );
+                      })}
+                    </View>
+                  </View>
+                ))}
+              </View>
+            ))}
+
+            <View style={styles.actions}>
+              <Pressable
+                style={[styles.resetButton, { borderColor: theme.primary }]}
+                onPress={confirmReset}
+              >
+                <Text style={[styles.resetText, { color: theme.primary }]}>
+                  {STRINGS.SETTINGS.BUTTON_RESET}
+                </Text>
+              </Pressable>
+            </View>
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BG_WHITE,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  subtitle: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 14,
+  },
+  done: {
+    fontSize: 16,
+    fontWeight: '700',
+    paddingVertical: 6,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 48,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 16,
+    marginBottom: 6,
+  },
+  settingRow: {
+    paddingVertical: 8,
+    gap: 6,
+  },
+  rowTitle: {
+    fontWeight: '700',
+    color: COLORS.TEXT_SECONDARY,
+  },
+  rowMeta: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.BG_LIGHT,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    color: COLORS.TEXT_PRIMARY,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: COLORS.TEXT_INVERSE,
+  },
+  actions: {
+    marginTop: 24,
+  },
+  resetButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1.2,
+    alignItems: 'center',
+  },
+  resetText: {
+    fontWeight: '800',
+  },
+  stateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  stateText: {
+    fontSize: 15,
+    color: COLORS.TEXT_TERTIARY,
+  },
+  error: {
+    color: COLORS.TEXT_ERROR,
+  },
+});
+
+export default SettingsScreen;
@@ -0,0 +1,478 @@
+/**
+ * WorkingHoursScreen Component
+ *
+ * Weekly schedule editor, presented as a modal from the Header:
+ * - Turns each weekday on or off, with a weekends-off shortcut
+ * - Sets start and end per weekday in 15-minute steps
+ * - Toggles and adjusts quiet periods (lunch, wind-down) that never get suggestions;
+ *   quiet periods may run past midnight
+ * - Persists choices immediately via ScheduleService
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import * as CONSTS from '../constants/app';
+import { COLORS } from '../constants/colors';
+import { STRINGS } from '../constants/strings';
+import ScheduleService from '../services/ScheduleService';
+import { MOOD_THEMES, MoodKey } from '../types/mood';
+import {
+  DayHours,
+  QuietPeriod,
+  WEEKDAY_ORDER,
+  WeeklySchedule,
+} from '../types/schedule';
+
+type Props = {
+  visible: boolean;
+  mood: MoodKey;
+  onClose: (changed: boolean) => void; // changed: the schedule was edited
+};
+
+const STEP = CONSTS.SCHEDULE.STEP_MINUTES;
+const MIN_WINDOW = CONSTS.SCHEDULE.MIN_WINDOW_MINUTES;
+const MINUTES_PER_DAY = 24 * 60;
+const WEEKEND = [0, 6];
+
+/**
+ * formatMinutes: Minutes after midnight as a time string (e.g., "8:30 AM")
+ */
+const formatMinutes = (minutes: number) =>
+  new Intl.DateTimeFormat('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(new Date(2000, 0, 1, 0, minutes));
+
+/**
+ * TimeStepper: A time with earlier/later buttons
+ * Steps wrap past midnight when `wraps` is set; steps `isAllowed` rejects are disabled
+ */
+const TimeStepper = ({
+  label,
+  minutes,
+  wraps,
+  isAllowed,
+  color,
+  onChange,
+}: {
+  label: string;
+  minutes: number;
+  wraps: boolean;
+  isAllowed: (minutes: number) => boolean;
+  color: string;
+  onChange: (minutes: number) => void;
+}) => {
+  const earlier = wraps
+    ? (minutes - STEP + MINUTES_PER_DAY) % MINUTES_PER_DAY
+    : minutes - STEP;
+  const later = wraps ? (minutes + STEP) % MINUTES_PER_DAY : minutes + STEP;
+  return (
+    <View style={styles.stepper}>
+      <Text style={styles.rowMeta}>{label}</Text>
+      <View style={styles.stepperControls}>
+        <Pressable
+          style={[styles.stepButton, { borderColor: color }]}
+          disabled={!isAllowed(earlier)}
+          onPress={() => onChange(earlier)}
+        >
+          <Text style={[styles.stepText, { color }]}>
+            {STRINGS.SCHEDULE.STEP_EARLIER}
+          </Text>
+        </Pressable>
+        <Text style={styles.time}>{formatMinutes(minutes)}</Text>
+        <Pressable
+          style={[styles.stepButton, { borderColor: color }]}
+          disabled={!isAllowed(later)}
+          onPress={() => onChange(later)}
+        >
+          <Text style={[styles.stepText, { color }]}>
+            {STRINGS.SCHEDULE.STEP_LATER}
+          </Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+/**
+ * RangeEditor: Start and end steppers that keep at least MIN_WINDOW between them
+ * With `overnight`, the end may pass midnight (quiet periods only)
+ */
+const RangeEditor = ({
+  range,
+  overnight = false,
+  color,
+  onChange,
+}: {
+  range: { start: number; end: number };
+  overnight?: boolean;
+  color: string;
+  onChange: (range: { start: number; end: number }) => void;
+}) => {
+  const isValid = (next: { start: number; end: number }) =>
+    overnight
+      ? ScheduleService.isValidQuietRange(next)
+      : next.start >= 0 &&
+        next.end <= MINUTES_PER_DAY &&
+        next.end - next.start >= MIN_WINDOW;
+  return (
+    <View style={styles.rangeRow}>
+      <TimeStepper
+        label={STRINGS.SCHEDULE.LABEL_FROM}
+        minutes={range.start}
+        wraps={overnight}
+        isAllowed={start => isValid({ ...range, start })}
+        color={color}
+        onChange={start => onChange({ ...range, start })}
+      />
+      <TimeStepper
+        label={STRINGS.SCHEDULE.LABEL_TO}
+        minutes={range.end}
+        wraps={overnight}
+        isAllowed={end => isValid({ ...range, end })}
+        color={color}
+        onChange={end => onChange({ ...range, end })}
+      />
+    </View>
+  );
+};
+
+const WorkingHoursScreen = ({ visible, mood, onClose }: Props) => {
+  const theme = MOOD_THEMES[mood];
+  const [schedule, setSchedule] = useState<WeeklySchedule | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [changed, setChanged] = useState(false);
+
+  /**
+   * load: Reads the stored schedule
+   */
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(undefined);
+    try {
+      setSchedule(await ScheduleService.loadSchedule());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload every time the screen opens
+  useEffect(() => {
+    if (visible) {
+      setChanged(false);
+      load();
+    }
+  }, [visible, load]);
+
+  /**
+   * update: Applies and persists a schedule change
+   */
+  const update = async (next: WeeklySchedule) => {
+    setSchedule(next);
+    setChanged(true);
+    setError(undefined);
+    try {
+      await ScheduleService.saveSchedule(next);
+    } catch (caughtError) {
+      console.warn('Unable to save schedule', caughtError);
+      setError(STRINGS.SCHEDULE.SAVE_FAILED);
+    }
+  };
+
+  const updateDay = (weekday: number, patch: Partial<DayHours>) => {
+    if (!schedule) return;
+    update({
+      ...schedule,
+      days: schedule.days.map((hours, index) =>
+        index === weekday ? { ...hours, ...patch } : hours,
+      ),
+    });
+  };
+
+  const updateQuiet = (id: string, patch: Partial<QuietPeriod>) => {
+    if (!schedule) return;
+    update({
+      ...schedule,
+      quietPeriods: schedule.quietPeriods.map(period =>
+        period.id === id ? { ...period, ...patch } : period,
+      ),
+    });
+  };
+
+  const turnWeekendsOff = () => {
+    if (!schedule) return;
+    update({
+      ...schedule,
+      days: schedule.days.map((hours, index) =>
+        WEEKEND.includes(index) ? { ...hours, enabled: false } : hours,
+      ),
+    });
+  };
+
+  const enabledCount =
+    schedule?.days.filter(hours => hours.enabled).length ?? 0;
+  const weekendCount = WEEKEND.filter(
+    index => schedule?.days[index]?.enabled,
+  ).length;
+  // Keep at least one working day, or nothing could ever be suggested
+  const canTurnWeekendsOff = weekendCount > 0 && enabledCount > weekendCount;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={() => onClose(changed)}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{STRINGS.SCHEDULE.TITLE}</Text>
+            <Text style={styles.subtitle}>{STRINGS.SCHEDULE.SUBTITLE}</Text>
+          </View>
+          <Pressable onPress={() => onClose(changed)}>
+            <Text style={[styles.done, { color: theme.primary }]}>
+              {STRINGS.SCHEDULE.BUTTON_DONE}
+            </Text>
+          </Pressable>
+        </View>
+
+        {loading && (
+          <View style={styles.stateRow}>
+            <ActivityIndicator />
+            <Text style={styles.stateText}>{STRINGS.SCHEDULE.LOADING}</Text>
+          </View>
+        )}
+        {error && (
+          <View style={styles.stateRow}>
+            <Text style={[styles.stateText, styles.error]}>{error}</Text>
+          </View>
+        )}
+
+        {!loading && schedule && (
+          <ScrollView contentContainerStyle={styles.content}>
+            {/* Working hours per weekday */}
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>
+                {STRINGS.SCHEDULE.SECTION_DAYS}
+              </Text>
+              {canTurnWeekendsOff && (
+                <Pressable onPress={turnWeekendsOff}>
+                  <Text style={[styles.action, { color: theme.primary }]}>
+                    {STRINGS.SCHEDULE.BUTTON_WEEKENDS_OFF}
+                  </Text>
+                </Pressable>
+              )}
+            </View>
+            {WEEKDAY_ORDER.map(weekday => {
+              const hours = schedule.days[weekday];
+              return (
+                <View key={weekday} style={styles.block}>
+                  <View style={styles.row}>
+                    <View style={styles.rowText}>
+                      <Text style={styles.rowTitle}>
+                        {STRINGS.SCHEDULE.WEEKDAYS[weekday]}
+                      </Text>
+                      {!hours.enabled && (
+                        <Text style={styles.rowMeta}>
+                          {STRINGS.SCHEDULE.DAY_OFF}
+                        </Text>
+                      )}
+                    </View>
+                    <Switch
+                      value={hours.enabled}
+                      disabled={hours.enabled && enabledCount === 1}
+                      onValueChange={enabled => updateDay(weekday, { enabled })}
+                      trackColor={{
+                        true: theme.primary,
+                        false: COLORS.BG_LIGHTER,
+                      }}
+                    />
+                  </View>
+                  {hours.enabled && (
+                    <RangeEditor
+                      range={hours}
+                      color={theme.primary}
+                      onChange={range => updateDay(weekday, range)}
+                    />
+                  )}
+                </View>
+              );
+            })}
+
+            {/* Quiet periods */}
+            <Text style={styles.sectionTitle}>
+              {STRINGS.SCHEDULE.SECTION_QUIET}
+            </Text>
+            <Text style={styles.rowMeta}>{STRINGS.SCHEDULE.QUIET_HINT}</Text>
+            {schedule.quietPeriods.map(period => (
+              <View key={period.id} style={styles.block}>
+                <View style={styles.row}>
+                  <View style={styles.rowText}>
+                    <Text style={styles.rowTitle}>
+                      {STRINGS.SCHEDULE.QUIET_LABELS[period.id] ?? period.id}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={period.enabled}
+                    onValueChange={enabled =>
+                      updateQuiet(period.id, { enabled })
+                    }
+                    trackColor={{
+                      true: theme.primary,
+                      false: COLORS.BG_LIGHTER,
+                    }}
+                  />
+                </View>
+                {period.enabled && (
+                  <RangeEditor
+                    range={period}
+                    overnight
+                    color={theme.primary}
+                    onChange={range => updateQuiet(period.id, range)}
+                  />
+                )}
+              </View>
+            ))}
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BG_WHITE,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  subtitle: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 14,
+  },
+  done: {
+    fontSize: 16,
+    fontWeight: '700',
+    paddingVertical: 6,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 48,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '800',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 16,
+    marginBottom: 6,
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  block: {
+    paddingVertical: 6,
+    gap: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: COLORS.BG_LIGHTER,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontWeight: '700',
+    color: COLORS.TEXT_SECONDARY,
+  },
+  rowMeta: {
+    color: COLORS.TEXT_TERTIARY,
+    fontSize: 12,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    gap: 16,
+    paddingBottom: 6,
+  },
+  stepper: {
+    flex: 1,
+    gap: 4,
+  },
+  stepperControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepText: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  time: {
+    flex: 1,
+    textAlign: 'center',
+    fontWeight: '700',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  stateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  stateText: {
+    fontSize: 15,
+    color: COLORS.TEXT_TERTIARY,
+  },
+  error: {
+    color: COLORS.TEXT_ERROR,
+  },
+});
+
+export default WorkingHoursScreen;
@@ -0,0 +1,123 @@
+/**
+ * AppEventRegistryService: Ids of the calendar events this app created
+ *
+ * Ownership no longer depends on event titles or notes, which anyone can
+ * edit. An event belongs to the app when its id is registered here, it lives
+ * in the app's own calendar, or its notes carry a WellnessMeta line. The
+ * registry also remembers each event's time, so a sync can tell when a reset
+ * was deleted or moved in another calendar app (see
+ * CalendarService.reconcileAppEvents).
+ *
+ * Entries are cached in memory once loaded, so event parsing can check
+ * ownership synchronously. Loads and writes run one at a time, and every
+ * write merges into freshly read storage, so a load that is still in flight
+ * can never overwrite a newer write.
+ */
+import { createQueue } from '../utils/queue';
+import StorageService, { STORAGE_KEYS } from './StorageService';
+
+/**
+ * RegisteredEvent: What the app last wrote for one of its events
+ */
+export type RegisteredEvent = {
+  startDate: string; // ISO; first occurrence for recurring events
+  endDate: string;
+  seriesId?: string; // Set for recurring events, whose occurrences share the id
+  calendarId?: string; // Calendar the event was saved to
+};
+
+type Registry = Record<string, RegisteredEvent>;
+
+let registry: Registry = {};
+
+/**
+ * enqueue: Runs a task after every load and write queued before it
+ */
+const enqueue = createQueue();
+
+/**
+ * isValidEntry: Both dates readable and in order
+ */
+function isValidEntry(entry: Partial<RegisteredEvent> | undefined): boolean {
+  if (!entry || typeof entry !== 'object') return false;
+  const start = new Date(entry.startDate ?? '').getTime();
+  const end = new Date(entry.endDate ?? '').getTime();
+  return !Number.isNaN(start) && !Number.isNaN(end) && start <= end;
+}
+
+/**
+ * readStored: Reads stored entries into the cache, skipping unreadable ones
+ */
+async function readStored(): Promise<Registry> {
+  const stored = await StorageService.readJson<Registry>(
+    STORAGE_KEYS.APP_EVENT_REGISTRY,
+    {},
+  );
+  registry = Object.fromEntries(
+    Object.entries(stored ?? {}).filter(([, entry]) => isValidEntry(entry)),
+  );
+  return registry;
+}
+
+/**
+ * loadRegistry: Reads registered events into the cache
+ * Waits for queued writes, so the result always includes them
+ * @returns Promise<Record<string, RegisteredEvent>> - Registered events by id
+ */
+function loadRegistry(): Promise<Registry> {
+  return enqueue(readStored);
+}
+
+/**
+ * persist: Writes the registry to storage and the cache
+ */
+async function persist(next: Registry): Promise<void> {
+  registry = next;
+  await StorageService.writeJson(STORAGE_KEYS.APP_EVENT_REGISTRY, next);
+}
+
+/**
+ * isRegistered: Whether the app created the event with this id
+ */
+function isRegistered(eventId: string): boolean {
+  return !!registry[eventId];
+}
+
+/**
+ * listEntries: Every registered event, by id
+ */
+function listEntries(): Registry {
+  return registry;
+}
+
+/**
+ * registerEvents: Records (or updates) events the app wrote
+ * @param entries - Times the app saved, by calendar event ID
+ */
+async function registerEvents(entries: Registry): Promise<void> {
+  if (!Object.keys(entries).length) return;
+  await enqueue(async () => persist({ ...(await readStored()), ...entries }));
+}
+
+/**
+ * unregisterEvents: Forgets events that were removed
+ * @param eventIds - Calendar event IDs
+ */
+async function unregisterEvents(eventIds: string[]): Promise<void> {
+  if (!eventIds.length) return;
+  await enqueue(async () => {
+    const current = await readStored();
+    if (!eventIds.some(id => current[id])) return;
+    const next = { ...current };
+    eventIds.forEach(id => delete next[id]);
+    await persist(next);
+  });
+}
+
+export default {
+  loadRegistry,
+  isRegistered,
+  listEntries,
+  registerEvents,
+  unregisterEvents,
+};
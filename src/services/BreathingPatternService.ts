@@ -0,0 +1,160 @@
+/**
+ * BreathingPatternService: Breathing patterns and the timing engine behind the pacer
+ * Built-in patterns ship with the app; custom patterns are stored locally
+ */
+import * as CONSTS from '../constants/app';
+import {
+  BreathingPattern,
+  BreathPhase,
+  BreathPhaseKind,
+  BUILT_IN_PATTERNS,
+} from '../types/breathing';
+import StorageService, { STORAGE_KEYS } from './StorageService';
+
+/**
+ * PhasePosition: Where a point in time falls within a repeating pattern
+ */
+export type PhasePosition = {
+  cycle: number; // Completed cycles before this point
+  phaseIndex: number;
+  phase: BreathPhase;
+  phaseRemaining: number; // Seconds left in the current phase
+};
+
+const PHASE_KINDS: BreathPhaseKind[] = [
+  'inhale',
+  'holdIn',
+  'exhale',
+  'holdOut',
+];
+
+/**
+ * isValidPattern: Checks a stored or user-entered pattern
+ * Needs a name, at least one breath in and out, and phases within range
+ */
+function isValidPattern(pattern: BreathingPattern): boolean {
+  if (!pattern?.id || !pattern.name?.trim() || !Array.isArray(pattern.phases)) {
+    return false;
+  }
+  const kinds = pattern.phases.map(phase => phase.kind);
+  return (
+    kinds.includes('inhale') &&
+    kinds.includes('exhale') &&
+    pattern.phases.every(
+      phase =>
+        PHASE_KINDS.includes(phase.kind) &&
+        phase.seconds >= CONSTS.BREATHING.MIN_PHASE_SECONDS &&
+        phase.seconds <= CONSTS.BREATHING.MAX_PHASE_SECONDS,
+    )
+  );
+}
+
+/**
+ * cycleSeconds: Length of one full cycle
+ */
+function cycleSeconds(pattern: BreathingPattern): number {
+  return pattern.phases.reduce((sum, phase) => sum + phase.seconds, 0);
+}
+
+/**
+ * phaseAt: Locates the phase and cycle for a number of elapsed seconds
+ * @param pattern - Pattern being played
+ * @param elapsedSeconds - Time since the pacer started
+ * @returns PhasePosition - Current phase, its remaining time and the cycle count
+ */
+function phaseAt(
+  pattern: BreathingPattern,
+  elapsedSeconds: number,
+): PhasePosition {
+  const total = cycleSeconds(pattern);
+  const cycle = Math.floor(elapsedSeconds / total);
+  let offset = elapsedSeconds - cycle * total;
+
+  for (let index = 0; index < pattern.phases.length; index++) {
+    const phase = pattern.phases[index];
+    if (offset < phase.seconds) {
+      return {
+        cycle,
+        phaseIndex: index,
+        phase,
+        phaseRemaining: phase.seconds - offset,
+      };
+    }
+    offset -= phase.seconds;
+  }
+
+  // Floating-point remainder at the very end of a cycle
+  const lastIndex = pattern.phases.length - 1;
+  return {
+    cycle,
+    phaseIndex: lastIndex,
+    phase: pattern.phases[lastIndex],
+    phaseRemaining: 0,
+  };
+}
+
+/**
+ * loadCustomPatterns: Reads user-defined patterns, dropping invalid ones
+ */
+async function loadCustomPatterns(): Promise<BreathingPattern[]> {
+  const stored = await StorageService.readJson<BreathingPattern[]>(
+    STORAGE_KEYS.BREATHING_PATTERNS,
+    [],
+  );
+  return stored
+    .filter(isValidPattern)
+    .map(pattern => ({ ...pattern, isCustom: true }));
+}
+
+/**
+ * listPatterns: Built-in patterns followed by custom ones
+ */
+async function listPatterns(): Promise<BreathingPattern[]> {
+  const custom = await loadCustomPatterns();
+  return [...BUILT_IN_PATTERNS, ...custom];
+}
+
+/**
+ * saveCustomPattern: Creates or replaces a custom pattern
+ * @param pattern - Pattern to store; a new id is assigned when missing
+ * @returns Promise<BreathingPattern> - The stored pattern
+ * @throws Error if the pattern is invalid
+ */
+async function saveCustomPattern(
+  pattern: Omit<BreathingPattern, 'id'> & { id?: string },
+): Promise<BreathingPattern> {
+  const stored: BreathingPattern = {
+    ...pattern,
+    id: pattern.id ?? `custom-${Date.now()}`,
+    name: pattern.name.trim(),
+    isCustom: true,
+  };
+  if (!isValidPattern(stored)) {
+    throw new Error('Invalid breathing pattern');
+  }
+  const existing = await loadCustomPatterns();
+  const next = [...existing.filter(item => item.id !== stored.id), stored];
+  await StorageService.writeJson(STORAGE_KEYS.BREATHING_PATTERNS, next);
+  return stored;
+}
+
+/**
+ * deleteCustomPattern: Removes a custom pattern by id
+ */
+async function deleteCustomPattern(patternId: string): Promise<void> {
+  const existing = await loadCustomPatterns();
+  await StorageService.writeJson(
+    STORAGE_KEYS.BREATHING_PATTERNS,
+    existing.filter(item => item.id !== patternId),
+  );
+}
+
+export default {
+  isValidPattern,
+  cycleSeconds,
+  phaseAt,
+  loadCustomPatterns,
+  listPatterns,
+  saveCustomPattern,
+  deleteCustomPattern,
+};
@@ -2,9 +2,32 @@
  * CalendarService: Manages all calendar operations for the Wellness app
  * Handles permissions, event fetching, free slot detection, and event creation/removal
  */
-import RNCalendarEvents, { CalendarEventWritable } from 'react-native-calendar-events';
+import { Platform, processColor } from 'react-native';
+import RNCalendarEvents, {
+  CalendarEventWritable,
+  CalendarOptions,
+  Options as RNCalendarOptions,
+} from 'react-native-calendar-events';
 
-import { MoodKey } from '../types/mood';
+import * as CONSTS from '../constants/app';
+import { MOOD_COLORS } from '../constants/colors';
+import { isKnownMood, MOOD_THEMES, MoodKey, MoodLevels } from '../types/mood';
+import { DEFAULT_SCHEDULE, WeeklySchedule } from '../types/schedule';
+import AppEventRegistryService, { RegisteredEvent } from './AppEventRegistryService';
+import ExerciseService from './ExerciseService';
+import MoodService from './MoodService';
+import ScheduleService from './ScheduleService';
+import SettingsService from './SettingsService';
+import SessionLogService, { OutcomeRef, SessionOutcome } from './SessionLogService';
+import StorageService, { STORAGE_KEYS } from './StorageService';
+import WellnessMetaService, { WellnessMeta } from './WellnessMetaService';
+import {
+  addDays,
+  daypartFor,
+  diffMinutes,
+  rangesOverlap,
+  startOfDay,
+} from '../utils/date';
 
 /**
  * BusyEvent: Represents a calendar event (app-created or external)
@@ -14,13 +37,85 @@ export type BusyEvent = {
   startDate: string;
   endDate: string;
   title?: string;
+  allDay?: boolean; // All-day entry (holiday, OOO, birthday...); see AllDayMode
+  availability?: EventAvailability; // Show-as setting from the calendar (busy if unknown)
+  attendeeStatus?: AttendeeStatus; // The user's own response, when the platform reports it
   isAppCreated?: boolean; // True if created by this app
   slotId?: string; // Links event back to original suggested slot
-  exercise?: string; // Type of wellness exercise
+  exerciseId?: string; // Stable id of the wellness exercise (see ExerciseService)
   exerciseMood?: MoodKey; // Mood associated with exercise
   userMood?: MoodKey; // User's mood when event was created
+  userLevels?: MoodLevels; // User's energy/stress check-in when event was created
   location?: string; // Event location (for external events)
   calendarName?: string; // Calendar source name (for external events)
+  seriesId?: string; // Shared by every occurrence of a recurring wellness event
+  recurrence?: WellnessRecurrence; // Recurrence the series was created with
+  occurrenceDate?: string; // Original start of this occurrence (for per-occurrence removal)
+  outcome?: SessionOutcome; // Whether the session happened (past app events only)
+};
+
+/**
+ * EventAvailability: How an event shows on the user's calendar
+ */
+export type EventAvailability = 'busy' | 'free' | 'tentative' | 'unavailable';
+
+/**
+ * AttendeeStatus: The user's response to an invitation
+ */
+export type AttendeeStatus = 'accepted' | 'declined' | 'tentative' | 'invited';
+
+/**
+ * NativeEventExtras: Fields the native modules return but the bundled typings omit
+ * Android reports attendee status as a CalendarContract.Attendees status code
+ */
+type NativeEventExtras = {
+  availability?: string;
+  description?: string;
+  attendees?: Array<{ email?: string; status?: string }>;
+};
+
+/**
+ * NativeCalendarExtras: Calendar fields some platforms return but the bundled typings omit
+ * Android calendars can come back without a title but with an account name
+ */
+type NativeCalendarExtras = {
+  name?: string;
+};
+
+const ANDROID_ATTENDEE_STATUS: Record<string, AttendeeStatus> = {
+  '1': 'accepted',
+  '2': 'declined',
+  '3': 'invited',
+  '4': 'tentative',
+};
+
+/**
+ * WeekdayCode: iCalendar BYDAY codes understood by the native calendar modules
+ */
+export type WeekdayCode = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/**
+ * WellnessRecurrence: How a wellness event repeats
+ * - daily: every day
+ * - weekly: on the given weekdays (e.g., MO-FR for weekdays only)
+ * Ends at `until` if set, otherwise after `count` occurrences, otherwise never.
+ */
+export type WellnessRecurrence = {
+  frequency: 'daily' | 'weekly';
+  daysOfWeek?: WeekdayCode[]; // Weekly only
+  until?: string; // ISO date of the last occurrence
+  count?: number; // Number of occurrences
+};
+
+/**
+ * NativeRecurrenceRule: Recurrence rule as accepted by react-native-calendar-events
+ * (the bundled typings omit daysOfWeek and mark every field required)
+ */
+type NativeRecurrenceRule = {
+  frequency: 'daily' | 'weekly';
+  daysOfWeek?: WeekdayCode[];
+  endDate?: string;
+  occurrence?: number;
 };
 
 /**
@@ -32,10 +127,83 @@ export type SuggestedSlot = {
   endDate: Date;
   durationMinutes: number;
   status: 'available' | 'added';
+  score?: number; // 0-100 fit from findFreeSlots; higher is better
+};
+
+/**
+ * CalendarInfo: A device calendar as shown on the calendar-management screen
+ */
+export type CalendarInfo = {
+  id: string;
+  title: string;
+  color?: string;
+  source?: string; // Account the calendar belongs to
+  isPrimary: boolean;
+  isWritable: boolean;
+  isAppCalendar: boolean; // The dedicated calendar owned by this app
+};
+
+/**
+ * MeetingBuffers: Free time kept around calendar meetings
+ * Wellness events created by the app are not padded
+ */
+export type MeetingBuffers = {
+  beforeMinutes: number; // Kept free before a meeting starts
+  afterMinutes: number; // Kept free after a meeting ends
+  longMeetingMinutes: number; // Meetings at least this long use afterLongMinutes
+  afterLongMinutes: number; // Kept free after a long meeting ends
+};
+
+export const DEFAULT_MEETING_BUFFERS: MeetingBuffers = {
+  beforeMinutes: CONSTS.BUFFERS.BEFORE_MINUTES,
+  afterMinutes: CONSTS.BUFFERS.AFTER_MINUTES,
+  longMeetingMinutes: CONSTS.BUFFERS.LONG_MEETING_MINUTES,
+  afterLongMinutes: CONSTS.BUFFERS.AFTER_LONG_MINUTES,
+};
+
+/**
+ * AllDayMode: How all-day events affect suggestions and conflicts
+ * - ignore: they never block time (holidays, birthdays)
+ * - busy: they block the whole day
+ * - outOfOffice: no suggestions that day, but resets can still be placed by hand
+ */
+export type AllDayMode = 'ignore' | 'busy' | 'outOfOffice';
+
+const ALL_DAY_MODES: AllDayMode[] = ['ignore', 'busy', 'outOfOffice'];
+
+/**
+ * BlockingOptions: What turns a calendar event into blocked time
+ */
+export type BlockingOptions = {
+  buffers?: MeetingBuffers; // Padding around meetings (none if unset)
+  allDayMode?: AllDayMode; // Defaults to ignore
+  tentativeIsBusy?: boolean; // Tentative events block time (defaults to true)
+};
+
+/**
+ * CalendarPreferences: Persisted calendar choices
+ * Calendars are busy unless excluded, so newly added calendars block time by default
+ */
+export type CalendarPreferences = {
+  excludedCalendarIds: string[]; // Calendars that do not count as busy
+  targetCalendarId?: string; // Where wellness events are written (app calendar if unset)
+  buffers: MeetingBuffers; // Padding around meetings for suggestions and conflicts
+  allDayMode: AllDayMode;
+  tentativeIsBusy: boolean;
+  resetsShowAsFree: boolean; // New resets are saved as free, so other apps don't see the time as taken
+};
+
+const DEFAULT_CALENDAR_PREFERENCES: CalendarPreferences = {
+  excludedCalendarIds: [],
+  buffers: DEFAULT_MEETING_BUFFERS,
+  allDayMode: 'ignore',
+  tentativeIsBusy: true,
+  resetsShowAsFree: false,
 };
 
 type FetchAllEventsOptions = {
   calendars?: string[]; // Optional calendar IDs to filter
+  startDate?: Date; // First day to fetch (defaults to today)
 };
 
 /**
@@ -46,35 +214,99 @@ type SaveEventOptions = {
   id?: string;
   alarms?: Array<{ date: number }>;
   notes?: string;
-  exercise?: string; // Exercise type chosen by user
+  exerciseId?: string; // Exercise chosen by user
   exerciseMood?: MoodKey; // Mood associated with exercise
   slotId?: string; // Original slot ID for tracking
   userMood?: MoodKey; // User's current mood
+  userLevels?: MoodLevels; // Latest check-in values, if the user checked in
+  recurrence?: WellnessRecurrence; // Makes the event repeat
+};
+
+/**
+ * RescheduleChanges: New time and exercise for an existing wellness event
+ */
+export type RescheduleChanges = {
+  startDate: Date;
+  endDate: Date; // Duration follows from start and end
+  exerciseId?: string; // Keeps the current exercise when omitted
+  exerciseMood?: MoodKey;
+};
+
+/**
+ * RemovedEvent: Everything needed to put a removed wellness event back
+ * Returned by removeWellnessEvent and passed unchanged to restoreEvent
+ */
+export type RemovedEvent = {
+  title: string;
+  details: CalendarEventWritable & NativeEventExtras;
+  source: OutcomeRef; // Removed event, with its start if only one occurrence went
+};
+
+/**
+ * MetaMigrationReport: Outcome of rewriting old wellness metadata
+ */
+export type MetaMigrationReport = {
+  checked: number; // Events with a metadata line
+  migrated: number; // Rewritten in the current format
+  unreadable: number; // Metadata too damaged to recover; left as is
+  failed: number; // Could not be saved
+  dropped: string[]; // Invalid fields removed while rewriting, e.g. "userLevels"
+};
+
+/**
+ * ReconcileReport: App events changed in another calendar app since the last sync
+ */
+export type ReconcileReport = {
+  deleted: string[]; // Event ids that no longer exist
+  modified: string[]; // Event ids whose time changed
+};
+
+/**
+ * RemoveEventOptions: Which part of a recurring series to delete
+ */
+type RemoveEventOptions = {
+  occurrenceDate?: string; // Remove only the occurrence starting at this time
 };
 
 /**
  * FreeSlotConfig: Configuration for free slot detection algorithm
  */
-export type FreeSlotConfig = {
+export type FreeSlotConfig = BlockingOptions & {
   days: number; // How many days to scan
   minMinutes: number; // Minimum slot duration
   maxMinutes: number; // Maximum slot duration
-  dayStartHour: number; // Start of active hours (e.g., 7 AM)
-  dayEndHour: number; // End of active hours (e.g., 9 PM)
+  schedule: WeeklySchedule; // Working hours and quiet periods per weekday
+  startDate?: Date; // First day to scan (defaults to today)
+  preferredDayparts?: CONSTS.Daypart[]; // Dayparts to favour when ranking
+  mood?: MoodKey; // Current mood; stressed moods favour sooner slots
+};
+
+/**
+ * FreeGap: A free window between meetings, as seen by the slot scorer
+ */
+type FreeGap = {
+  start: Date;
+  end: Date;
+  afterMeeting: boolean; // Starts when a meeting ends (not at the window edge or now)
+  beforeMeeting: boolean; // Ends when a meeting starts (not at the end of a working window)
+  busyRunMinutes: number; // Length of the back-to-back meetings right before the gap
 };
 
 const DEFAULT_FREE_SLOT_CONFIG: FreeSlotConfig = {
   days: 3,
   minMinutes: 15,
   maxMinutes: 30,
-  dayStartHour: 7,
-  dayEndHour: 21,
+  schedule: DEFAULT_SCHEDULE,
 };
 
 // Constants for wellness event creation
 const EVENT_TITLE = 'Wellness reset';
 const EVENT_NOTES = 'Scheduled via Wellness app. Adjust or move as needed for your day.';
-const META_PREFIX = 'WellnessMeta:'; // Prefix for storing metadata in event notes
+
+// Constants for the dedicated calendar owned by the app
+const APP_CALENDAR_TITLE = 'Wellness';
+const APP_CALENDAR_NAME = 'wellness-app';
+const APP_CALENDAR_COLOR = MOOD_COLORS.CALM.PRIMARY;
 
 /**
  * ensurePermissions: Checks and requests calendar permissions if needed
@@ -92,142 +324,363 @@ async function ensurePermissions(): Promise<boolean> {
  * fetchBusyEvents: Retrieves all calendar events for specified days
  * Parses metadata from app-created events and includes external event details
  * @param days - Number of days to fetch
- * @param options - Optional calendar filters
+ * @param options - Optional calendar filters and first day
  * @returns Promise<BusyEvent[]> - Sorted array of events
  */
 async function fetchBusyEvents(
   days: number,
   options: FetchAllEventsOptions = {},
 ): Promise<BusyEvent[]> {
-  const start = startOfDay(new Date());
+  const start = startOfDay(options.startDate ?? new Date());
   const end = new Date(start.getTime() + days * 24 * 60 * 60 * 1000);
   const calendars = options.calendars;
-  const events = await RNCalendarEvents.fetchAllEvents(
-    start.toISOString(),
-    end.toISOString(),
-    calendars,
-  );
+  // fetchAllEvents treats an empty list as "all calendars"
+  if (calendars && !calendars.length) return [];
+  const [events, appCalendarId] = await Promise.all([
+    RNCalendarEvents.fetchAllEvents(
+      start.toISOString(),
+      end.toISOString(),
+      calendars,
+    ),
+    findAppCalendarId(),
+    AppEventRegistryService.loadRegistry().catch((err) =>
+      console.warn('Failed to load app event registry', err),
+    ),
+    // Custom exercise ids in event metadata only resolve once loaded
+    ExerciseService.loadCustomExercises().catch((err) =>
+      console.warn('Failed to load custom exercises', err),
+    ),
+  ]);
 
   return events
     .map((event) => {
+      const extras = event as typeof event & NativeEventExtras;
       // Parse metadata from iOS `notes` or Android `description` (some devices use description)
-      const meta = parseMeta((event.notes ?? (event as any).description) as string | null);
+      const metaResult = WellnessMetaService.readMeta(
+        (event.notes ?? extras.description) as string | null,
+      );
+      const meta = metaResult.meta;
+      // Ownership never depends on the title or free text, which anyone can edit:
+      // registered ids, the app's own calendar, or the metadata marker (even
+      // when the user has garbled the JSON after it)
       const isApp =
-        event.title === EVENT_TITLE ||
-        (typeof event.notes === 'string' && event.notes.includes('Wellness app')) ||
-        !!meta;
+        AppEventRegistryService.isRegistered(event.id) ||
+        (!!appCalendarId && event.calendar?.id === appCalendarId) ||
+        metaResult.status !== 'none';
 
       return {
         id: event.id,
         startDate: event.startDate,
         endDate: event.endDate ?? event.startDate,
         title: event.title,
+        allDay: !!event.allDay,
+        availability: parseAvailability(extras.availability),
+        attendeeStatus: parseAttendeeStatus(extras, event.calendar?.source),
         isAppCreated: isApp,
         slotId: meta?.slotId,
-        exercise: meta?.exercise,
-        exerciseMood: meta?.exerciseMood as MoodKey | undefined,
-        userMood: meta?.userMood as MoodKey | undefined,
+        exerciseId: ExerciseService.resolveExerciseId(
+          meta?.exerciseId ?? meta?.exercise,
+        ),
+        // Moods this app version doesn't know are dropped, so callers fall back
+        exerciseMood: isKnownMood(meta?.exerciseMood) ? meta?.exerciseMood : undefined,
+        userMood: isKnownMood(meta?.userMood) ? meta?.userMood : undefined,
+        userLevels: MoodService.isValidLevels(meta?.userLevels) ? meta?.userLevels : undefined,
+        seriesId: meta?.seriesId,
+        recurrence: meta?.recurrence,
+        occurrenceDate: event.occurrenceDate ?? event.startDate,
         location: event.location,
-        calendarName:
-          // RNCalendarEvents returns a calendar object; prefer title, then name.
-          (event.calendar && (event.calendar.title || (event.calendar as any).name)) || undefined,
+        calendarName: event.calendar && calendarTitle(event.calendar),
       } as BusyEvent;
     })
     .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
 }
 
 /**
- * findFreeSlots: Detects free time windows between busy events
- * Algorithm: For each day, scan from start to end hour, finding gaps between events
+ * findFreeSlots: Detects free time windows between busy events and ranks them
+ * Algorithm: For each day, clip every event that overlaps it (overnight and
+ * multi-day events included) to the day, collect gaps between them within
+ * each working window (see ScheduleService.activeWindows), offer a candidate every `minMinutes` inside each gap, score
+ * every candidate (see scoreSlot) and keep the best non-overlapping ones
+ * Days with an out-of-office all-day event get no slots (see AllDayMode)
  * @param busyEvents - Array of existing calendar events
  * @param config - Slot detection configuration
- * @returns SuggestedSlot[] - Array of available time slots (max 10)
+ * @returns SuggestedSlot[] - Available time slots, best score first (capped by the maxSlots setting)
  */
 function findFreeSlots(
   busyEvents: BusyEvent[],
   config: FreeSlotConfig = DEFAULT_FREE_SLOT_CONFIG,
 ): SuggestedSlot[] {
-  const slots: SuggestedSlot[] = [];
+  const candidates: SuggestedSlot[] = [];
   const now = new Date();
 
+  const firstDay = startOfDay(config.startDate ?? now);
+
   // Scan each day in the range
   for (let dayOffset = 0; dayOffset < config.days; dayOffset += 1) {
-    const dayStart = startOfDay(addDays(now, dayOffset));
-    const windowStart = setHour(dayStart, config.dayStartHour);
-    const windowEnd = setHour(dayStart, config.dayEndHour);
-
-    // Start scanning from whichever is later: windowStart or now.
-    // - If it's 3 AM (before 7 AM window), start at 7 AM.
-    // - If it's 9 AM (after 7 AM window), start at 9 AM.
-    // - For future days, always start at windowStart.
-    let cursor = dayOffset === 0 ? new Date(Math.max(now.getTime(), windowStart.getTime())) : windowStart;
-    const todaysEvents = busyEvents.filter((event) =>
-      isSameDay(new Date(event.startDate), dayStart),
-    );
+    const dayStart = startOfDay(addDays(firstDay, dayOffset));
+    const gaps: FreeGap[] = [];
+
+    if (isOutOfOffice(busyEvents, dayStart, config.allDayMode)) continue;
+
+    const todaysRanges = blockedRangesForDay(busyEvents, dayStart, config);
 
-    todaysEvents.forEach((event) => {
-      const eventStart = new Date(event.startDate);
-      const eventEnd = new Date(event.endDate);
-
-      // If there is a gap between the cursor and the next event, fill it
-      // with one or more slots (sequentially) until the gap is exhausted
-      // or we hit the global slot limit. This creates multiple 15/30m
-      // suggestions within a large free window instead of a single slot.
-      if (eventStart > cursor) {
-        let gapStart = new Date(cursor);
-        const gapEnd = eventStart;
-        let remaining = diffMinutes(gapStart, gapEnd);
-
-        while (remaining >= config.minMinutes && slots.length < 10) {
-          const slotDuration = chooseDuration(remaining, config);
-          if (!slotDuration) break;
-          const slot = buildSlot(gapStart, slotDuration);
-          if (slot.startDate >= now) slots.push(slot);
-          // Advance gapStart by the duration we just used
-          gapStart = new Date(gapStart.getTime() + slotDuration * 60000);
-          remaining = diffMinutes(gapStart, gapEnd);
+    // Working hours may be split by quiet periods; each window is scanned on its own
+    ScheduleService.activeWindows(config.schedule, dayStart).forEach(({ start: windowStart, end: windowEnd }) => {
+      // Start scanning from whichever is later: windowStart or now.
+      // - If it's 3 AM (before 7 AM window), start at 7 AM.
+      // - If it's 9 AM (after 7 AM window), start at 9 AM.
+      // - For future days, now is always earlier, so windowStart wins.
+      let cursor = new Date(Math.max(now.getTime(), windowStart.getTime()));
+      // Start of the back-to-back meetings that end at the cursor (null when free)
+      let runStart: Date | null = null;
+
+      todaysRanges.forEach(({ start: eventStart, end: eventEnd }) => {
+        if (eventStart >= windowEnd) return;
+        // Gaps shorter than a slot don't count as a break, so the run continues
+        if (eventStart > cursor && diffMinutes(cursor, eventStart) >= config.minMinutes) {
+          gaps.push({
+            start: cursor,
+            end: eventStart,
+            afterMeeting: !!runStart,
+            beforeMeeting: true,
+            busyRunMinutes: runStart ? diffMinutes(runStart, cursor) : 0,
+          });
+          runStart = null;
         }
-      }
 
-      if (eventEnd > cursor) {
-        cursor = eventEnd;
+        if (eventEnd > cursor) {
+          runStart = runStart ?? eventStart;
+          cursor = eventEnd;
+        }
+      });
+
+      if (windowEnd > cursor && diffMinutes(cursor, windowEnd) >= config.minMinutes) {
+        gaps.push({
+          start: cursor,
+          end: windowEnd,
+          afterMeeting: !!runStart,
+          beforeMeeting: false,
+          busyRunMinutes: runStart ? diffMinutes(runStart, cursor) : 0,
+        });
       }
     });
 
-    if (windowEnd > cursor) {
-      let gapStart = new Date(cursor);
-      const gapEnd = windowEnd;
-      let remaining = diffMinutes(gapStart, gapEnd);
-      while (remaining >= config.minMinutes && slots.length < 10) {
+    // Offer a candidate every minMinutes so large gaps yield several options
+    gaps.forEach((gap) => {
+      let gapStart = new Date(gap.start);
+      let remaining = diffMinutes(gapStart, gap.end);
+      while (remaining >= config.minMinutes) {
         const slotDuration = chooseDuration(remaining, config);
         if (!slotDuration) break;
         const slot = buildSlot(gapStart, slotDuration);
-        if (slot.startDate >= now) slots.push(slot);
-        gapStart = new Date(gapStart.getTime() + slotDuration * 60000);
-        remaining = diffMinutes(gapStart, gapEnd);
+        if (slot.startDate >= now) {
+          candidates.push({ ...slot, score: scoreSlot(slot, gap, config, now) });
+        }
+        gapStart = new Date(gapStart.getTime() + config.minMinutes * 60000);
+        remaining = diffMinutes(gapStart, gap.end);
       }
-    }
+    });
+  }
+
+  // Best first; earlier wins ties so equal windows stay chronological
+  const ranked = candidates.sort(
+    (a, b) =>
+      (b.score ?? 0) - (a.score ?? 0) ||
+      a.startDate.getTime() - b.startDate.getTime(),
+  );
+
+  // Greedily keep the best candidates that don't overlap an already kept one
+  const { maxSlots } = SettingsService.getSettings();
+  const slots: SuggestedSlot[] = [];
+  ranked.forEach((slot) => {
+    if (slots.length >= maxSlots) return;
+    const overlaps = slots.some((kept) =>
+      rangesOverlap(slot.startDate, slot.endDate, kept.startDate, kept.endDate),
+    );
+    if (!overlaps) slots.push(slot);
+  });
+  return slots;
+}
+
+/**
+ * scoreSlot: Rates how good a candidate slot is (0-100, higher is better)
+ * Factors (weights in CONSTS.SLOT_SCORING):
+ * - buffer: minutes after the previous and before the next meeting
+ * - break: length of the back-to-back meetings right before the gap
+ * - gap: size of the free window the slot sits in
+ * - daypart: whether the slot falls in a preferred daypart (neutral without preferences)
+ * - mood: the more stressed the mood, the more sooner slots are favoured
+ */
+function scoreSlot(
+  slot: SuggestedSlot,
+  gap: FreeGap,
+  config: FreeSlotConfig,
+  now: Date,
+): number {
+  const weights = CONSTS.SLOT_SCORING;
+
+  const sincePrevious = gap.afterMeeting
+    ? diffMinutes(gap.start, slot.startDate)
+    : weights.BUFFER_CAP_MINUTES;
+  const untilNext = gap.beforeMeeting
+    ? diffMinutes(slot.endDate, gap.end)
+    : weights.BUFFER_CAP_MINUTES;
+  const buffer =
+    Math.min(sincePrevious, untilNext, weights.BUFFER_CAP_MINUTES) /
+    weights.BUFFER_CAP_MINUTES;
+
+  const breakNeed =
+    Math.min(gap.busyRunMinutes, weights.BREAK_CAP_MINUTES) /
+    weights.BREAK_CAP_MINUTES;
+
+  const roominess =
+    Math.min(diffMinutes(gap.start, gap.end), weights.GAP_CAP_MINUTES) /
+    weights.GAP_CAP_MINUTES;
+
+  const daypart = config.preferredDayparts?.length
+    ? config.preferredDayparts.includes(daypartFor(slot.startDate, SettingsService.getSettings()))
+      ? 1
+      : 0
+    : 0.5;
+
+  let moodFit = 0.5;
+  if (config.mood && isKnownMood(config.mood)) {
+    const stress =
+      (MOOD_THEMES[config.mood].levels.stress - CONSTS.CHECK_IN.MIN_LEVEL) /
+      (CONSTS.CHECK_IN.MAX_LEVEL - CONSTS.CHECK_IN.MIN_LEVEL);
+    const hoursAway = diffMinutes(now, slot.startDate) / 60;
+    const soon = 1 - Math.min(hoursAway, weights.URGENCY_HOURS) / weights.URGENCY_HOURS;
+    moodFit = stress * soon + (1 - stress) * 0.5;
+  }
+
+  const total =
+    weights.WEIGHT_BUFFER * buffer +
+    weights.WEIGHT_BREAK * breakNeed +
+    weights.WEIGHT_GAP * roominess +
+    weights.WEIGHT_DAYPART * daypart +
+    weights.WEIGHT_MOOD * moodFit;
+  return Math.round(total * 100);
+}
+
+/**
+ * allDayRange: Local days covered by an all-day event, end exclusive
+ * Platforms report the end as either the next midnight or the last
+ * moment of the final day; both map to the following midnight
+ */
+function allDayRange(event: BusyEvent) {
+  const start = startOfDay(new Date(event.startDate));
+  const rawEnd = new Date(event.endDate);
+  const endsAtMidnight = rawEnd.getTime() === startOfDay(rawEnd).getTime();
+  const end =
+    endsAtMidnight && rawEnd > start ? rawEnd : addDays(startOfDay(rawEnd), 1);
+  return { start, end };
+}
+
+/**
+ * blocksTime: Whether an event counts as busy at all
+ * Free and declined events never block; tentative ones follow the options.
+ * The app's own resets always block, even when saved as free for other apps
+ */
+function blocksTime(event: BusyEvent, options: BlockingOptions = {}): boolean {
+  if (event.isAppCreated) return true;
+  if (event.availability === 'free' || event.attendeeStatus === 'declined') {
+    return false;
+  }
+  if (event.availability === 'tentative' || event.attendeeStatus === 'tentative') {
+    return options.tentativeIsBusy ?? true;
   }
+  return true;
+}
+
+/**
+ * blockedRange: Time an event blocks, including meeting buffers
+ * App-created wellness events block only their own time; all-day events
+ * follow the all-day mode and are never padded
+ * @returns The blocked range, or null when the event doesn't block time
+ */
+function blockedRange(event: BusyEvent, options: BlockingOptions = {}) {
+  if (!blocksTime(event, options)) return null;
+  if (event.allDay) {
+    return options.allDayMode === 'busy' ? allDayRange(event) : null;
+  }
+
+  const start = new Date(event.startDate);
+  const end = new Date(event.endDate);
+  const buffers = options.buffers;
+  if (!buffers || event.isAppCreated) return { start, end };
+
+  const after =
+    diffMinutes(start, end) >= buffers.longMeetingMinutes
+      ? buffers.afterLongMinutes
+      : buffers.afterMinutes;
+  return {
+    start: new Date(start.getTime() - buffers.beforeMinutes * 60000),
+    end: new Date(end.getTime() + after * 60000),
+  };
+}
 
-  return slots.slice(0, 10); // keep the list manageable
+/**
+ * blockedRangesForDay: Blocked ranges overlapping a day, clipped to it
+ * Events that span midnight or several days block only their part of the day
+ * @returns Ranges sorted by start
+ */
+function blockedRangesForDay(
+  busyEvents: BusyEvent[],
+  day: Date,
+  options: BlockingOptions = {},
+) {
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+  return busyEvents
+    .map((event) => blockedRange(event, options))
+    .filter(
+      (range): range is { start: Date; end: Date } =>
+        !!range && rangesOverlap(range.start, range.end, dayStart, dayEnd),
+    )
+    .map((range) => ({
+      start: range.start < dayStart ? dayStart : range.start,
+      end: range.end > dayEnd ? dayEnd : range.end,
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * isOutOfOffice: Whether an all-day event marks the day as out of office
+ * Only applies when all-day events are treated as out-of-office
+ */
+function isOutOfOffice(
+  busyEvents: BusyEvent[],
+  day: Date,
+  allDayMode?: AllDayMode,
+): boolean {
+  if (allDayMode !== 'outOfOffice') return false;
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+  return busyEvents.some((event) => {
+    if (!event.allDay || !blocksTime(event)) return false;
+    const range = allDayRange(event);
+    return rangesOverlap(range.start, range.end, dayStart, dayEnd);
+  });
 }
 
 /**
  * hasConflict: Checks if a proposed time range overlaps with existing events
+ * Out-of-office days only suppress suggestions, so they never conflict
  * @param busyEvents - Array of existing calendar events
  * @param start - Proposed start time
  * @param end - Proposed end time
+ * @param options - Meeting buffers and all-day handling
  * @returns boolean - true if there's an overlap
  */
 function hasConflict(
   busyEvents: BusyEvent[],
   start: Date,
   end: Date,
+  options: BlockingOptions = {},
 ): boolean {
   return busyEvents.some((event) => {
-    const eventStart = new Date(event.startDate);
-    const eventEnd = new Date(event.endDate);
-    return rangesOverlap(start, end, eventStart, eventEnd);
+    const range = blockedRange(event, options);
+    return !!range && rangesOverlap(start, end, range.start, range.end);
   });
 }
 
@@ -239,32 +692,61 @@ function hasConflict(
  * @returns Promise<string> - Created event ID
  */
 async function addWellnessEvent(slot: SuggestedSlot, options?: SaveEventOptions) {
-  const { calendarId, exercise, exerciseMood, slotId, userMood, notes, ...rest } = options ?? {};
+  const {
+    calendarId,
+    exerciseId,
+    exerciseMood,
+    slotId,
+    userMood,
+    userLevels,
+    recurrence,
+    notes,
+    ...rest
+  } = options ?? {};
 
-  // Serialize metadata as JSON in notes field
-  const meta = exercise || exerciseMood || slotId || userMood
-    ? `${META_PREFIX}${JSON.stringify({
-        exercise,
-        exerciseMood,
-        slotId,
-        userMood,
-      })}`
-    : undefined;
+  // Every occurrence of a recurring event shares the series master's notes,
+  // so the series id lets fetchBusyEvents group occurrences back together
+  const seriesId = recurrence ? `series-${slot.startDate.getTime()}` : undefined;
 
-  const mergedNotes = [notes ?? EVENT_NOTES, meta].filter(Boolean).join('\n');
+  // Serialize metadata as JSON in notes field
+  const metaPayload: WellnessMeta = {
+    exerciseId,
+    exerciseMood,
+    slotId,
+    userMood,
+    userLevels,
+    seriesId,
+    recurrence,
+  };
+  // Always written, even when empty: the metadata line marks the event as ours
+  const mergedNotes = [notes ?? EVENT_NOTES, WellnessMetaService.formatMeta(metaPayload)].join('\n');
 
-  // On Android, we need to find a writable calendar if none is provided
+  // Prefer the calendar chosen on the calendar-management screen, then the
+  // app's own Wellness calendar, then (needed on Android) the first writable calendar
+  const preferences = await loadCalendarPreferences();
   let targetCalendarId = calendarId;
   if (!targetCalendarId) {
     try {
       const calendars = await RNCalendarEvents.findCalendars();
+      const preferredCalendar = calendars.find(
+        (cal) => cal.id === preferences.targetCalendarId && cal.allowsModifications !== false
+      );
+      if (preferredCalendar) {
+        targetCalendarId = preferredCalendar.id;
+      } else {
+        targetCalendarId = await ensureAppCalendar().catch((err) => {
+          console.warn('Failed to create Wellness calendar', err);
+          return undefined;
+        });
+      }
+
       // Find first writable calendar (prefer local calendars)
       const writableCalendar = calendars.find(
         (cal) => cal.allowsModifications !== false && cal.isPrimary
       ) || calendars.find(
         (cal) => cal.allowsModifications !== false
       );
-      if (writableCalendar) {
+      if (!targetCalendarId && writableCalendar) {
         targetCalendarId = writableCalendar.id;
       }
     } catch (err) {
@@ -272,9 +754,10 @@ async function addWellnessEvent(slot: SuggestedSlot, options?: SaveEventOptions)
     }
   }
 
-  const alarms: Array<{ date: number }> = [{ date: -5 }];
+  const { reminderMinutes } = SettingsService.getSettings();
+  const alarms: Array<{ date: number }> = reminderMinutes ? [{ date: -reminderMinutes }] : [];
 
-  const details: CalendarEventWritable = {
+  const details: CalendarEventWritable & NativeEventExtras = {
     startDate: slot.startDate.toISOString(),
     endDate: slot.endDate.toISOString(),
     notes: mergedNotes,
@@ -283,9 +766,16 @@ async function addWellnessEvent(slot: SuggestedSlot, options?: SaveEventOptions)
     ...rest,
   };
   if (targetCalendarId) details.calendarId = targetCalendarId;
+  if (preferences.resetsShowAsFree) details.availability = 'free';
+  if (recurrence) {
+    details.recurrenceRule = toNativeRecurrenceRule(
+      recurrence,
+    ) as CalendarEventWritable['recurrenceRule'];
+  }
 
   try {
     const id = await RNCalendarEvents.saveEvent(EVENT_TITLE, details);
+    await registerSavedEvent(id, details, seriesId);
     return id;
   } catch (err) {
     console.warn('saveEvent failed, retrying without alarms', err);
@@ -294,6 +784,7 @@ async function addWellnessEvent(slot: SuggestedSlot, options?: SaveEventOptions)
       delete details.alarms;
       try {
         const id2 = await RNCalendarEvents.saveEvent(EVENT_TITLE, details);
+        await registerSavedEvent(id2, details, seriesId);
         return id2;
       } catch (err2) {
         console.error('saveEvent retry without alarms also failed', err2);
@@ -304,12 +795,541 @@ async function addWellnessEvent(slot: SuggestedSlot, options?: SaveEventOptions)
   }
 }
 
+/**
+ * rescheduledNotes: Notes with the WellnessMeta rewritten for a moved event
+ * Every field is kept; only a new exercise replaces the old one
+ */
+function rescheduledNotes(notes: string, changes: RescheduleChanges) {
+  const stored = WellnessMetaService.readMeta(notes);
+  const meta: WellnessMeta = { ...(stored.meta ?? {}) };
+  if (changes.exerciseId) {
+    meta.exerciseId = changes.exerciseId;
+    meta.exerciseMood = changes.exerciseMood ?? meta.exerciseMood;
+    delete meta.exercise; // Legacy display name would contradict the new id
+  }
+  return WellnessMetaService.replaceMeta(notes, WellnessMetaService.formatMeta(meta, stored), EVENT_NOTES);
+}
+
+/**
+ * rescheduleWellnessEvent: Moves an app-created event in place
+ * Keeps the calendar event id, its calendar and every WellnessMeta field
+ * (slotId, moods, check-in, series); only the time and exercise change.
+ * For recurring events only the given occurrence moves. On iOS, which
+ * would keep the occurrence's old start, it is taken out of the series and
+ * saved as a standalone event instead. A logged outcome moves with it.
+ * @param event - App-created event to move
+ * @param changes - New start/end and, optionally, a new exercise
+ * @returns Promise<string> - Event ID (unchanged for single events)
+ * @throws Error if the event no longer exists
+ */
+async function rescheduleWellnessEvent(event: BusyEvent, changes: RescheduleChanges) {
+  if (event.seriesId && Platform.OS === 'ios') {
+    const removed = await removeWellnessEvent(event, true);
+    const notes = rescheduledNotes(removed.details.notes ?? '', changes);
+    const { reminderMinutes } = SettingsService.getSettings();
+    return restoreEvent({
+      ...removed,
+      details: {
+        ...removed.details,
+        startDate: changes.startDate.toISOString(),
+        endDate: changes.endDate.toISOString(),
+        notes,
+        description: notes, // for Android devices using description
+        // The series' alarms are fixed times around its first occurrence
+        alarms: reminderMinutes ? [{ date: -reminderMinutes }] : [],
+      },
+    });
+  }
+
+  const existing = await RNCalendarEvents.findEventById(event.id);
+  if (!existing) {
+    throw new Error(`Event ${event.id} not found`);
+  }
+  const extras = existing as typeof existing & NativeEventExtras;
+  const mergedNotes = rescheduledNotes((existing.notes ?? extras.description ?? '') as string, changes);
+
+  const details: CalendarEventWritable = {
+    id: event.id,
+    startDate: changes.startDate.toISOString(),
+    endDate: changes.endDate.toISOString(),
+    notes: mergedNotes,
+    description: mergedNotes, // for Android devices using description
+  };
+  if (existing.calendar?.id) details.calendarId = existing.calendar.id;
+
+  const nativeOptions: RNCalendarOptions | undefined = event.seriesId
+    ? { exceptionDate: event.occurrenceDate ?? event.startDate, futureEvents: false }
+    : undefined;
+  const id = await RNCalendarEvents.saveEvent(existing.title || EVENT_TITLE, details, nativeOptions);
+  // A series keeps its first occurrence; only single events record the new time
+  if (!event.seriesId) await registerSavedEvent(id, details);
+  await SessionLogService.moveOutcomes(
+    { id: event.id, startDate: event.startDate },
+    { id, startDate: details.startDate },
+  ).catch((err) => console.warn('Failed to move session outcomes', err));
+  return id;
+}
+
 /**
  * removeEvent: Deletes a calendar event by ID
+ * For recurring events, deletes the whole series unless an occurrence is given
  * @param eventId - Calendar event ID
+ * @param options - Optional occurrence to remove on its own
+ */
+async function removeEvent(eventId: string, options: RemoveEventOptions = {}) {
+  const nativeOptions: RNCalendarOptions = options.occurrenceDate
+    ? { exceptionDate: options.occurrenceDate, futureEvents: false }
+    : { futureEvents: true };
+  return RNCalendarEvents.removeEvent(eventId, nativeOptions);
+}
+
+/**
+ * removeWellnessEvent: Deletes an app-created event, keeping a copy for undo
+ * The copy holds the title, time, notes (with WellnessMeta), calendar, alarms
+ * and location. Removing one occurrence keeps just that occurrence, as a
+ * standalone event without series metadata; removing a series keeps the
+ * recurrence it was created with.
+ * @param event - App-created event to remove
+ * @param occurrenceOnly - Remove only this occurrence of a recurring event
+ * @returns Promise<RemovedEvent> - Copy to pass to restoreEvent
+ * @throws Error if the event no longer exists or the calendar refuses to delete it
+ */
+async function removeWellnessEvent(event: BusyEvent, occurrenceOnly: boolean): Promise<RemovedEvent> {
+  const existing = await RNCalendarEvents.findEventById(event.id);
+  if (!existing) {
+    throw new Error(`Event ${event.id} not found`);
+  }
+  const extras = existing as typeof existing & NativeEventExtras;
+  const notes = (existing.notes ?? extras.description ?? '') as string;
+  const restoresOccurrence = occurrenceOnly && !!event.seriesId;
+
+  const stored = WellnessMetaService.readMeta(notes);
+  const { seriesId, recurrence, ...meta } = stored.meta ?? {};
+  const restoredNotes = restoresOccurrence
+    ? WellnessMetaService.replaceMeta(notes, WellnessMetaService.formatMeta(meta, stored), EVENT_NOTES)
+    : notes;
+
+  const details: RemovedEvent['details'] = {
+    startDate: restoresOccurrence ? event.startDate : existing.startDate,
+    endDate: restoresOccurrence ? event.endDate : existing.endDate ?? event.endDate,
+    notes: restoredNotes,
+    description: restoredNotes, // for Android devices using description
+  };
+  if (existing.calendar?.id) details.calendarId = existing.calendar.id;
+  if (existing.location) details.location = existing.location;
+  if (parseAvailability(extras.availability) === 'free') details.availability = 'free';
+  if (existing.alarms?.length) {
+    details.alarms = existing.alarms.map((alarm) => ({ date: alarm.date }));
+  }
+  if (!restoresOccurrence && seriesId && recurrence) {
+    details.recurrenceRule = toNativeRecurrenceRule(
+      recurrence,
+    ) as CalendarEventWritable['recurrenceRule'];
+  }
+
+  const removed = await removeEvent(
+    event.id,
+    restoresOccurrence ? { occurrenceDate: event.occurrenceDate ?? event.startDate } : {},
+  );
+  if (removed === false) {
+    throw new Error(`Calendar did not remove event ${event.id}`);
+  }
+  if (!restoresOccurrence) {
+    await AppEventRegistryService.unregisterEvents([event.id]).catch((err) =>
+      console.warn('Failed to update app event registry', err),
+    );
+  }
+  return {
+    title: existing.title || EVENT_TITLE,
+    details,
+    source: restoresOccurrence ? { id: event.id, startDate: event.startDate } : { id: event.id },
+  };
+}
+
+/**
+ * restoreEvent: Puts back an event removed by removeWellnessEvent
+ * The event is saved again under a new id; its logged outcomes follow it
+ * @param removed - Copy returned by removeWellnessEvent
+ * @returns Promise<string> - New event ID
+ */
+async function restoreEvent(removed: RemovedEvent) {
+  const id = await RNCalendarEvents.saveEvent(removed.title, removed.details);
+  const { meta } = WellnessMetaService.readMeta(removed.details.notes);
+  await registerSavedEvent(id, removed.details, meta?.seriesId);
+  const { source } = removed;
+  await SessionLogService.moveOutcomes(source, {
+    id,
+    startDate: source.startDate && removed.details.startDate,
+  }).catch((err) => console.warn('Failed to move session outcomes', err));
+  return id;
+}
+
+/**
+ * migrateWellnessEvents: Rewrites outdated or damaged metadata in the current format
+ * Legacy exercise display names become ids when the exercise is known.
+ * Recurring events are rewritten once, from the series' first occurrence.
+ * @param days - Number of days to scan
+ * @param options - First day to scan (defaults to today)
+ * @returns Promise<MetaMigrationReport> - What was found and rewritten
+ */
+async function migrateWellnessEvents(
+  days: number,
+  options: { startDate?: Date } = {},
+): Promise<MetaMigrationReport> {
+  const start = startOfDay(options.startDate ?? new Date());
+  const end = addDays(start, days);
+  const [events] = await Promise.all([
+    RNCalendarEvents.fetchAllEvents(start.toISOString(), end.toISOString()),
+    ExerciseService.loadCustomExercises().catch((err) =>
+      console.warn('Failed to load custom exercises', err),
+    ),
+  ]);
+
+  const report: MetaMigrationReport = { checked: 0, migrated: 0, unreadable: 0, failed: 0, dropped: [] };
+  const seen = new Set<string>();
+
+  for (const event of events) {
+    if (seen.has(event.id)) continue;
+    seen.add(event.id);
+
+    const extras = event as typeof event & NativeEventExtras;
+    const notes = (event.notes ?? extras.description ?? '') as string;
+    const stored = WellnessMetaService.readMeta(notes);
+    if (stored.status === 'none') continue;
+    report.checked += 1;
+    if (stored.status === 'unreadable') {
+      report.unreadable += 1;
+      continue;
+    }
+    if (!WellnessMetaService.needsMigration(stored)) continue;
+
+    const meta: WellnessMeta = { ...stored.meta };
+    const legacyId = meta.exerciseId ? undefined : ExerciseService.resolveExerciseId(meta.exercise);
+    if (legacyId) {
+      meta.exerciseId = legacyId;
+      delete meta.exercise;
+    }
+    const mergedNotes = WellnessMetaService.replaceMeta(
+      notes,
+      WellnessMetaService.formatMeta(meta, stored),
+      EVENT_NOTES,
+    );
+
+    try {
+      // Occurrences report their own dates; the series keeps the first one's
+      const existing = meta.seriesId ? await RNCalendarEvents.findEventById(event.id) : event;
+      if (!existing) throw new Error(`Event ${event.id} not found`);
+      const details: CalendarEventWritable = {
+        id: event.id,
+        startDate: existing.startDate,
+        endDate: existing.endDate ?? existing.startDate,
+        notes: mergedNotes,
+        description: mergedNotes, // for Android devices using description
+      };
+      if (existing.calendar?.id) details.calendarId = existing.calendar.id;
+      await RNCalendarEvents.saveEvent(
+        existing.title || EVENT_TITLE,
+        details,
+        meta.seriesId ? { futureEvents: true } : undefined,
+      );
+      report.migrated += 1;
+      report.dropped.push(...stored.dropped.filter((field) => !report.dropped.includes(field)));
+    } catch (err) {
+      console.warn(`Failed to migrate metadata of event ${event.id}`, err);
+      report.failed += 1;
+    }
+  }
+
+  return report;
+}
+
+/**
+ * reconcileAppEvents: Compares registered app events with what the calendar holds
+ * Registered events expected in the range but missing from `events` are looked
+ * up by id, since they may just live in a calendar that was not fetched.
+ * Deleted events are unregistered and moved ones take their new time; app
+ * events found without an entry (e.g., created before the registry) are adopted.
+ * Occurrences of a series are only checked for existence.
+ * @param events - Events fetched for the range
+ * @param start - Start of the fetched range
+ * @param end - End of the fetched range
+ * @returns Promise<ReconcileReport> - Changes made outside the app
+ */
+async function reconcileAppEvents(
+  events: BusyEvent[],
+  start: Date,
+  end: Date,
+): Promise<ReconcileReport> {
+  await AppEventRegistryService.loadRegistry();
+  const report: ReconcileReport = { deleted: [], modified: [] };
+  const updates: Record<string, RegisteredEvent> = {};
+
+  const fetched = new Map<string, BusyEvent>();
+  events
+    .filter((event) => event.isAppCreated)
+    .forEach((event) => {
+      if (!fetched.has(event.id)) fetched.set(event.id, event);
+    });
+
+  const sameTime = (a: string, b: string) => new Date(a).getTime() === new Date(b).getTime();
+  const movedFrom = (entry: RegisteredEvent, startDate: string, endDate: string) =>
+    !entry.seriesId && (!sameTime(entry.startDate, startDate) || !sameTime(entry.endDate, endDate));
+
+  const entries = Object.entries(AppEventRegistryService.listEntries());
+  for (const [id, entry] of entries) {
+    const seen = fetched.get(id);
+    if (seen) {
+      if (movedFrom(entry, seen.startDate, seen.endDate)) {
+        report.modified.push(id);
+        updates[id] = { ...entry, startDate: seen.startDate, endDate: seen.endDate };
+      }
+      continue;
+    }
+
+    // A series may have occurrences in range as long as it started before the end
+    const expected = entry.seriesId
+      ? new Date(entry.startDate) < end
+      : rangesOverlap(new Date(entry.startDate), new Date(entry.endDate), start, end);
+    if (!expected) continue;
+
+    try {
+      const existing = await RNCalendarEvents.findEventById(id);
+      if (!existing) {
+        report.deleted.push(id);
+      } else if (movedFrom(entry, existing.startDate, existing.endDate ?? existing.startDate)) {
+        report.modified.push(id);
+        updates[id] = {
+          ...entry,
+          startDate: existing.startDate,
+          endDate: existing.endDate ?? existing.startDate,
+        };
+      }
+    } catch (err) {
+      console.warn(`Failed to look up app event ${id}`, err);
+    }
+  }
+
+  fetched.forEach((event, id) => {
+    if (AppEventRegistryService.isRegistered(id)) return;
+    updates[id] = {
+      startDate: event.startDate,
+      endDate: event.endDate,
+      seriesId: event.seriesId,
+    };
+  });
+
+  await AppEventRegistryService.registerEvents(updates);
+  await AppEventRegistryService.unregisterEvents(report.deleted);
+  return report;
+}
+
+/**
+ * listCalendars: Lists every calendar on the device
+ * @returns Promise<CalendarInfo[]> - Calendars sorted by account, then title
+ */
+async function listCalendars(): Promise<CalendarInfo[]> {
+  const [calendars, appCalendarId] = await Promise.all([
+    RNCalendarEvents.findCalendars(),
+    findAppCalendarId(),
+  ]);
+  return calendars
+    .map((cal) => ({
+      id: cal.id,
+      title: calendarTitle(cal) ?? cal.id,
+      color: cal.color,
+      source: cal.source,
+      isPrimary: !!cal.isPrimary,
+      isWritable: cal.allowsModifications !== false,
+      isAppCalendar: cal.id === appCalendarId,
+    }))
+    .sort(
+      (a, b) =>
+        (a.source ?? '').localeCompare(b.source ?? '') || a.title.localeCompare(b.title),
+    );
+}
+
+/**
+ * loadCalendarPreferences: Reads persisted calendar choices
+ */
+async function loadCalendarPreferences(): Promise<CalendarPreferences> {
+  const stored = await StorageService.readJson<Partial<CalendarPreferences>>(
+    STORAGE_KEYS.CALENDAR_PREFERENCES,
+    {},
+  );
+  return {
+    ...DEFAULT_CALENDAR_PREFERENCES,
+    ...stored,
+    buffers: { ...DEFAULT_MEETING_BUFFERS, ...stored.buffers },
+    allDayMode: ALL_DAY_MODES.includes(stored.allDayMode as AllDayMode)
+      ? (stored.allDayMode as AllDayMode)
+      : DEFAULT_CALENDAR_PREFERENCES.allDayMode,
+    tentativeIsBusy: stored.tentativeIsBusy ?? DEFAULT_CALENDAR_PREFERENCES.tentativeIsBusy,
+    resetsShowAsFree: stored.resetsShowAsFree ?? DEFAULT_CALENDAR_PREFERENCES.resetsShowAsFree,
+  };
+}
+
+/**
+ * saveCalendarPreferences: Persists calendar choices
+ */
+async function saveCalendarPreferences(preferences: CalendarPreferences) {
+  await StorageService.writeJson(STORAGE_KEYS.CALENDAR_PREFERENCES, preferences);
+}
+
+/**
+ * getBusyCalendarIds: Resolves which calendars to fetch events from
+ * The target and app calendars are always included so wellness events stay visible
+ * @returns Promise<string[] | undefined> - Calendar IDs, or undefined for all calendars
+ */
+async function getBusyCalendarIds(): Promise<string[] | undefined> {
+  const preferences = await loadCalendarPreferences();
+  if (!preferences.excludedCalendarIds.length) return undefined;
+
+  const [calendars, appCalendarId] = await Promise.all([
+    RNCalendarEvents.findCalendars(),
+    findAppCalendarId(),
+  ]);
+  return calendars
+    .filter(
+      (cal) =>
+        cal.id === preferences.targetCalendarId ||
+        cal.id === appCalendarId ||
+        !preferences.excludedCalendarIds.includes(cal.id),
+    )
+    .map((cal) => cal.id);
+}
+
+/**
+ * findAppCalendarId: Re-finds the app's Wellness calendar
+ * Uses the stored ID first, then falls back to the title (e.g., after a reinstall)
+ * @returns Promise<string | undefined> - Calendar ID, or undefined if it does not exist
+ */
+async function findAppCalendarId(): Promise<string | undefined> {
+  const storedId = await StorageService.readJson<string | null>(
+    STORAGE_KEYS.APP_CALENDAR_ID,
+    null,
+  );
+  const calendars = await RNCalendarEvents.findCalendars();
+  const match =
+    calendars.find((cal) => cal.id === storedId) ||
+    calendars.find(
+      (cal) => cal.title === APP_CALENDAR_TITLE && cal.allowsModifications !== false,
+    );
+
+  if (match && match.id !== storedId) {
+    await StorageService.writeJson(STORAGE_KEYS.APP_CALENDAR_ID, match.id);
+  }
+  return match?.id;
+}
+
+/**
+ * ensureAppCalendar: Returns the app's Wellness calendar, creating it if needed
+ * On Android it is created under a local account, so it never syncs to a
+ * cloud account and stays out of other devices' calendar apps
+ * @returns Promise<string> - Calendar ID
+ */
+async function ensureAppCalendar(): Promise<string> {
+  const existingId = await findAppCalendarId();
+  if (existingId) return existingId;
+
+  const options: CalendarOptions = {
+    title: APP_CALENDAR_TITLE,
+    // Both native modules expect a processed (numeric) color
+    color: processColor(APP_CALENDAR_COLOR) as unknown as string,
+    entityType: 'event',
+    name: APP_CALENDAR_NAME,
+    accessLevel: 'owner',
+    ownerAccount: APP_CALENDAR_NAME,
+    source: { name: APP_CALENDAR_TITLE, isLocalAccount: true },
+  };
+  // iOS ignores `source` and picks iCloud or the local source itself
+  const id = await RNCalendarEvents.saveCalendar(options);
+  await StorageService.writeJson(STORAGE_KEYS.APP_CALENDAR_ID, id);
+  return id;
+}
+
+/**
+ * removeAppCalendar: Deletes the Wellness calendar and every event in it
+ * @returns Promise<boolean> - true if a calendar was removed
+ */
+async function removeAppCalendar(): Promise<boolean> {
+  const appCalendarId = await findAppCalendarId();
+  await StorageService.remove(STORAGE_KEYS.APP_CALENDAR_ID);
+  if (!appCalendarId) return false;
+
+  const preferences = await loadCalendarPreferences();
+  if (preferences.targetCalendarId === appCalendarId) {
+    await saveCalendarPreferences({ ...preferences, targetCalendarId: undefined });
+  }
+  const removed = await RNCalendarEvents.removeCalendar(appCalendarId);
+  // Its events went with it; reconciliation should not report them as deleted elsewhere
+  await AppEventRegistryService.loadRegistry();
+  await AppEventRegistryService.unregisterEvents(
+    Object.entries(AppEventRegistryService.listEntries())
+      .filter(([, entry]) => entry.calendarId === appCalendarId)
+      .map(([id]) => id),
+  );
+  return removed;
+}
+
+/**
+ * deleteAllAppData: Removes the Wellness calendar and everything stored on device
+ * In-memory caches are reloaded from the now empty storage, so they fall back to defaults
+ */
+async function deleteAllAppData() {
+  await removeAppCalendar();
+  await StorageService.clearAll();
+  await Promise.all([
+    SettingsService.loadSettings(),
+    ExerciseService.loadCustomExercises(),
+    AppEventRegistryService.loadRegistry(),
+  ]);
+}
+
+/**
+ * registerSavedEvent: Records an event the app just wrote in the registry
+ * Never throws; the event exists either way and the next sync adopts it
+ */
+async function registerSavedEvent(
+  id: string,
+  details: CalendarEventWritable,
+  seriesId?: string,
+) {
+  try {
+    await AppEventRegistryService.registerEvents({
+      [id]: {
+        startDate: details.startDate,
+        endDate: details.endDate ?? details.startDate,
+        seriesId,
+        calendarId: details.calendarId,
+      },
+    });
+  } catch (err) {
+    console.warn('Failed to update app event registry', err);
+  }
+}
+
+/**
+ * toNativeRecurrenceRule: Maps a WellnessRecurrence to the native rule shape
+ * `until` wins over `count`, matching how both platforms treat endDate/occurrence
+ */
+function toNativeRecurrenceRule(recurrence: WellnessRecurrence): NativeRecurrenceRule {
+  const rule: NativeRecurrenceRule = { frequency: recurrence.frequency };
+  if (recurrence.frequency === 'weekly' && recurrence.daysOfWeek?.length) {
+    rule.daysOfWeek = recurrence.daysOfWeek;
+  }
+  if (recurrence.until) {
+    rule.endDate = recurrence.until;
+  } else if (recurrence.count) {
+    rule.occurrence = recurrence.count;
+  }
+  return rule;
+}
+
+/**
+ * calendarTitle: Display name of a native calendar; prefers title, then name
  */
-async function removeEvent(eventId: string) {
-  return RNCalendarEvents.removeEvent(eventId);
+function calendarTitle(calendar: { title?: string } & NativeCalendarExtras): string | undefined {
+  return calendar.title || calendar.name || undefined;
 }
 
 /**
@@ -327,7 +1347,7 @@ function buildSlot(anchor: Date, durationMinutes: number): SuggestedSlot {
 }
 
 /**
- * chooseDuration: Determines optimal slot duration based on available gap
+ * chooseDuration: Longest allowed duration that fits the remaining gap
  * Returns null if gap is too small, otherwise returns max or min duration
  */
 function chooseDuration(
@@ -339,76 +1359,36 @@ function chooseDuration(
   return config.minMinutes;
 }
 
-// ============ Date Utility Functions ============
-
-/** Returns a new Date set to midnight (start of day) */
-function startOfDay(date: Date) {
-  const copy = new Date(date);
-  copy.setHours(0, 0, 0, 0);
-  return copy;
-}
-
-/** Returns a new Date with specified days added */
-function addDays(date: Date, days: number) {
-  const copy = new Date(date);
-  copy.setDate(copy.getDate() + days);
-  return copy;
-}
-
-/** Returns a new Date set to specific hour (with minutes/seconds/ms zeroed) */
-function setHour(date: Date, hour: number) {
-  const copy = new Date(date);
-  copy.setHours(hour, 0, 0, 0);
-  return copy;
-}
-
-/** Calculates difference in minutes between two dates (non-negative) */
-function diffMinutes(start: Date, end: Date) {
-  return Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000));
-}
-
-/** Checks if two dates are on the same calendar day */
-function isSameDay(value: Date, reference: Date) {
-  return (
-    value.getFullYear() === reference.getFullYear() &&
-    value.getMonth() === reference.getMonth() &&
-    value.getDate() === reference.getDate()
-  );
-}
-
-/** Checks if two time ranges overlap */
-function rangesOverlap(
-  startA: Date,
-  endA: Date,
-  startB: Date,
-  endB: Date,
-) {
-  return startA < endB && startB < endA;
+/**
+ * parseAvailability: Normalizes the native availability string
+ * iOS reports "notSupported" for calendars without the setting; treated as unknown
+ */
+function parseAvailability(value?: string): EventAvailability | undefined {
+  switch (value) {
+    case 'busy':
+    case 'free':
+    case 'tentative':
+    case 'unavailable':
+      return value;
+    default:
+      return undefined;
+  }
 }
 
 /**
- * parseMeta: Extracts and parses metadata JSON from event notes
- * @param notes - Event notes string
- * @returns Parsed metadata object or null
+ * parseAttendeeStatus: Finds the user's own response among the attendees
+ * The user is the attendee whose email matches the calendar's account;
+ * only Android reports attendee status, so iOS events return undefined
  */
-function parseMeta(notes?: string | null) {
-  if (!notes || typeof notes !== 'string') return null;
-  const metaLine = notes
-    .split('\n')
-    .map((line) => line.trim())
-    .find((line) => line.startsWith(META_PREFIX));
-  if (!metaLine) return null;
-  const payload = metaLine.replace(META_PREFIX, '').trim();
-  try {
-    return JSON.parse(payload) as {
-      exercise?: string;
-      exerciseMood?: MoodKey;
-      slotId?: string;
-      userMood?: MoodKey;
-    };
-  } catch {
-    return null;
-  }
+function parseAttendeeStatus(
+  event: NativeEventExtras,
+  accountName?: string,
+): AttendeeStatus | undefined {
+  if (!accountName) return undefined;
+  const self = event.attendees?.find(
+    (attendee) => attendee.email?.toLowerCase() === accountName.toLowerCase(),
+  );
+  return self?.status ? ANDROID_ATTENDEE_STATUS[self.status] : undefined;
 }
 
 export default {
@@ -416,6 +1396,19 @@ export default {
   fetchBusyEvents,
   findFreeSlots,
   hasConflict,
+  isOutOfOffice,
   addWellnessEvent,
+  rescheduleWellnessEvent,
   removeEvent,
+  removeWellnessEvent,
+  restoreEvent,
+  migrateWellnessEvents,
+  reconcileAppEvents,
+  listCalendars,
+  loadCalendarPreferences,
+  saveCalendarPreferences,
+  getBusyCalendarIds,
+  ensureAppCalendar,
+  removeAppCalendar,
+  deleteAllAppData,
 };
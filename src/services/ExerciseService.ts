@@ -0,0 +1,192 @@
+/**
+ * ExerciseService: Single registry for exercise lookups
+ * Used by the suggestion chips, event theming and stored event metadata
+ *
+ * Custom exercises are stored locally and cached in memory once loaded,
+ * so lookups stay synchronous for rendering
+ */
+import * as CONSTS from '../constants/app';
+import { EXERCISES } from '../constants/exercises';
+import { Exercise } from '../types/exercise';
+import { isKnownMood, MoodKey } from '../types/mood';
+import { SETTING_OPTIONS } from './SettingsService';
+import StorageService, { STORAGE_KEYS } from './StorageService';
+
+/**
+ * CustomExerciseInput: Fields the user edits for a custom exercise
+ */
+export type CustomExerciseInput = {
+  id?: string; // Set when editing an existing exercise
+  name: string;
+  moods: MoodKey[];
+  defaultMinutes: number;
+  instructions: string[];
+};
+
+// Custom exercises may use any short or long reset length Settings offers
+const CUSTOM_MIN_MINUTES = Math.min(...SETTING_OPTIONS.shortMinutes);
+const CUSTOM_MAX_MINUTES = Math.max(...SETTING_OPTIONS.longMinutes);
+
+let customExercises: Exercise[] = [];
+
+/**
+ * listExercises: Every known exercise in display order, custom ones last
+ */
+function listExercises(): Exercise[] {
+  return [...EXERCISES, ...customExercises];
+}
+
+/**
+ * isValidCustomExercise: Checks a stored or user-entered custom exercise
+ */
+function isValidCustomExercise(input: CustomExerciseInput): boolean {
+  return (
+    !!input?.name?.trim() &&
+    Array.isArray(input.moods) &&
+    input.moods.length > 0 &&
+    input.moods.every(isKnownMood) &&
+    Array.isArray(input.instructions) &&
+    Number.isInteger(input.defaultMinutes) &&
+    input.defaultMinutes >= CUSTOM_MIN_MINUTES &&
+    input.defaultMinutes <= CUSTOM_MAX_MINUTES
+  );
+}
+
+/**
+ * toExercise: Fills in catalog fields the editor does not ask for
+ */
+function toExercise(input: CustomExerciseInput & { id: string }): Exercise {
+  return {
+    id: input.id,
+    name: input.name.trim(),
+    moods: input.moods,
+    minMinutes: CUSTOM_MIN_MINUTES,
+    maxMinutes: CUSTOM_MAX_MINUTES,
+    intensity: 'low',
+    setting: 'either',
+    instructions: input.instructions.map(step => step.trim()).filter(Boolean),
+    equipment: [],
+    defaultMinutes: input.defaultMinutes,
+    isCustom: true,
+  };
+}
+
+/**
+ * loadCustomExercises: Reads custom exercises into the registry
+ * Call before resolving stored events so custom ids are recognized
+ * @returns Promise<Exercise[]> - Valid custom exercises
+ */
+async function loadCustomExercises(): Promise<Exercise[]> {
+  const stored = await StorageService.readJson<Exercise[]>(
+    STORAGE_KEYS.CUSTOM_EXERCISES,
+    [],
+  );
+  customExercises = stored
+    .map(exercise => ({
+      ...exercise,
+      defaultMinutes:
+        exercise?.defaultMinutes ?? CONSTS.CALENDAR.MIN_DURATION_MINUTES,
+    }))
+    .filter(exercise => !!exercise.id && isValidCustomExercise(exercise))
+    .map(toExercise);
+  return customExercises;
+}
+
+/**
+ * saveCustomExercise: Creates or replaces a custom exercise
+ * @param input - Editor fields; a new id is assigned when missing
+ * @returns Promise<Exercise> - The stored exercise
+ * @throws Error if the input is invalid
+ */
+async function saveCustomExercise(
+  input: CustomExerciseInput,
+): Promise<Exercise> {
+  if (!isValidCustomExercise(input)) {
+    throw new Error('Invalid custom exercise');
+  }
+  const exercise = toExercise({
+    ...input,
+    id: input.id ?? `custom-${Date.now()}`,
+  });
+  await loadCustomExercises();
+  const next = [
+    ...customExercises.filter(item => item.id !== exercise.id),
+    exercise,
+  ];
+  await StorageService.writeJson(STORAGE_KEYS.CUSTOM_EXERCISES, next);
+  customExercises = next;
+  return exercise;
+}
+
+/**
+ * deleteCustomExercise: Removes a custom exercise by id
+ * Events already scheduled keep their stored mood but lose the exercise name
+ */
+async function deleteCustomExercise(exerciseId: string): Promise<void> {
+  await loadCustomExercises();
+  const next = customExercises.filter(item => item.id !== exerciseId);
+  await StorageService.writeJson(STORAGE_KEYS.CUSTOM_EXERCISES, next);
+  customExercises = next;
+}
+
+/**
+ * getExercise: Looks up an exercise by its stable id
+ */
+function getExercise(exerciseId?: string): Exercise | undefined {
+  if (!exerciseId) return undefined;
+  return listExercises().find(exercise => exercise.id === exerciseId);
+}
+
+/**
+ * resolveExerciseId: Maps a stored value to an exercise id
+ * Accepts ids and, for events created before ids were stored, display names
+ * @param value - Id or legacy display name from event metadata
+ * @returns string | undefined - Known exercise id, or undefined
+ */
+function resolveExerciseId(value?: string): string | undefined {
+  if (!value) return undefined;
+  const name = value.trim().toLowerCase();
+  const match = listExercises().find(
+    exercise => exercise.id === value || exercise.name.toLowerCase() === name,
+  );
+  return match?.id;
+}
+
+/**
+ * exercisesForMood: Exercises suited to a mood, in display order
+ */
+function exercisesForMood(mood: MoodKey): Exercise[] {
+  return listExercises().filter(exercise => exercise.moods.includes(mood));
+}
+
+/**
+ * moodForExercise: Mood used to theme an exercise's events
+ * @param exerciseId - Exercise id
+ * @param fallback - Used when the exercise is unknown
+ */
+function moodForExercise(
+  exerciseId: string | undefined,
+  fallback: MoodKey,
+): MoodKey {
+  return getExercise(exerciseId)?.moods[0] ?? fallback;
+}
+
+/**
+ * exerciseName: Display name for an exercise id, if known
+ */
+function exerciseName(exerciseId?: string): string | undefined {
+  return getExercise(exerciseId)?.name;
+}
+
+export default {
+  listExercises,
+  isValidCustomExercise,
+  loadCustomExercises,
+  saveCustomExercise,
+  deleteCustomExercise,
+  getExercise,
+  resolveExerciseId,
+  exercisesForMood,
+  moodForExercise,
+  exerciseName,
+};
@@ -0,0 +1,179 @@
+/**
+ * InsightsService: Aggregates app-created events into adherence insights
+ * Pure calculations only; the Insights screen fetches the events
+ */
+import * as CONSTS from '../constants/app';
+import { isKnownMood, MoodKey } from '../types/mood';
+import {
+  addDays,
+  daypartFor,
+  diffDays,
+  diffMinutes,
+  startOfDay,
+} from '../utils/date';
+import { BusyEvent } from './CalendarService';
+import SettingsService from './SettingsService';
+
+/**
+ * WeekSummary: Minutes scheduled vs completed in one week
+ */
+export type WeekSummary = {
+  weekStart: Date;
+  scheduledMinutes: number;
+  completedMinutes: number; // Completed plus shortened sessions
+};
+
+/**
+ * ExerciseCount: How often an exercise was chosen
+ */
+export type ExerciseCount = {
+  exerciseId: string;
+  count: number;
+};
+
+/**
+ * MoodShift: How often sessions went from one mood to another
+ */
+export type MoodShift = {
+  from: MoodKey; // userMood captured at scheduling time
+  to: MoodKey; // Mood reported after the session
+  count: number;
+};
+
+/**
+ * ExerciseEffect: Before/after mood ratings for one exercise
+ */
+export type ExerciseEffect = {
+  exerciseId: string;
+  rated: number; // Sessions with both moods known
+  shifts: MoodShift[]; // Most common first
+};
+
+export type Insights = {
+  weeks: WeekSummary[]; // Oldest first
+  totalScheduledMinutes: number;
+  totalCompletedMinutes: number;
+  topExercisesByMood: Partial<Record<MoodKey, ExerciseCount[]>>; // Keyed by userMood
+  moodMismatchRate: number; // Share of sessions whose exercise mood differs from the user's mood (0-1)
+  daypartCounts: Record<CONSTS.Daypart, number>;
+  exerciseEffects: ExerciseEffect[]; // Most rated first
+};
+
+/**
+ * computeInsights: Summarizes app-created events over the last `weekCount` weeks
+ * @param events - Events fetched for the window (non-app events are ignored)
+ * @param weekCount - Number of weeks, ending with the current week
+ * @param now - Reference time (injectable for tests)
+ * @returns Insights - Aggregated figures for the Insights screen
+ */
+function computeInsights(
+  events: BusyEvent[],
+  weekCount: number,
+  now: Date = new Date(),
+): Insights {
+  const windowStart = addDays(startOfDay(now), -(weekCount * 7 - 1));
+  const settings = SettingsService.getSettings();
+  const sessions = events.filter(
+    event => event.isAppCreated && new Date(event.startDate) >= windowStart,
+  );
+
+  const weeks: WeekSummary[] = Array.from(
+    { length: weekCount },
+    (_, index) => ({
+      weekStart: addDays(windowStart, index * 7),
+      scheduledMinutes: 0,
+      completedMinutes: 0,
+    }),
+  );
+
+  const exerciseCounts: Partial<Record<MoodKey, Record<string, number>>> = {};
+  const daypartCounts: Record<CONSTS.Daypart, number> = {
+    morning: 0,
+    afternoon: 0,
+    evening: 0,
+  };
+  const shiftCounts: Record<string, Record<string, MoodShift>> = {};
+  let comparable = 0;
+  let mismatched = 0;
+
+  sessions.forEach(event => {
+    const start = new Date(event.startDate);
+    const minutes = diffMinutes(start, new Date(event.endDate));
+    const weekIndex = Math.floor(diffDays(windowStart, start) / 7);
+    const week = weeks[weekIndex];
+    if (week) {
+      week.scheduledMinutes += minutes;
+      week.completedMinutes += event.outcome?.minutes ?? 0;
+    }
+
+    if (event.userMood && event.exerciseId) {
+      const byExercise = exerciseCounts[event.userMood] ?? {};
+      byExercise[event.exerciseId] = (byExercise[event.exerciseId] ?? 0) + 1;
+      exerciseCounts[event.userMood] = byExercise;
+    }
+
+    if (event.userMood && event.exerciseMood) {
+      comparable += 1;
+      if (event.userMood !== event.exerciseMood) mismatched += 1;
+    }
+
+    const moodAfter = event.outcome?.moodAfter;
+    if (
+      event.exerciseId &&
+      event.userMood &&
+      moodAfter &&
+      isKnownMood(moodAfter)
+    ) {
+      const byShift = shiftCounts[event.exerciseId] ?? {};
+      const shiftKey = `${event.userMood}>${moodAfter}`;
+      const shift = byShift[shiftKey] ?? {
+        from: event.userMood,
+        to: moodAfter,
+        count: 0,
+      };
+      byShift[shiftKey] = { ...shift, count: shift.count + 1 };
+      shiftCounts[event.exerciseId] = byShift;
+    }
+
+    daypartCounts[daypartFor(start, settings)] += 1;
+  });
+
+  const topExercisesByMood: Insights['topExercisesByMood'] = {};
+  (Object.keys(exerciseCounts) as MoodKey[]).forEach(moodKey => {
+    topExercisesByMood[moodKey] = Object.entries(exerciseCounts[moodKey] ?? {})
+      .map(([exerciseId, count]) => ({ exerciseId, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 3);
+  });
+
+  const exerciseEffects: ExerciseEffect[] = Object.entries(shiftCounts)
+    .map(([exerciseId, byShift]) => {
+      const shifts = Object.values(byShift).sort((a, b) => b.count - a.count);
+      return {
+        exerciseId,
+        rated: shifts.reduce((sum, shift) => sum + shift.count, 0),
+        shifts,
+      };
+    })
+    .sort((a, b) => b.rated - a.rated);
+
+  return {
+    weeks,
+    totalScheduledMinutes: weeks.reduce(
+      (sum, week) => sum + week.scheduledMinutes,
+      0,
+    ),
+    totalCompletedMinutes: weeks.reduce(
+      (sum, week) => sum + week.completedMinutes,
+      0,
+    ),
+    topExercisesByMood,
+    moodMismatchRate: comparable ? mismatched / comparable : 0,
+    daypartCounts,
+    exerciseEffects,
+  };
+}
+
+export default {
+  computeInsights,
+};
@@ -0,0 +1,88 @@
+/**
+ * MoodJournalService: Persists every mood change with a timestamp
+ * Backs mood restoration on launch and the History screen timeline
+ */
+import * as CONSTS from '../constants/app';
+import { isKnownMood, MoodCheckIn, MoodKey } from '../types/mood';
+import MoodService from './MoodService';
+import StorageService, { STORAGE_KEYS } from './StorageService';
+
+/**
+ * MoodEntry: One recorded mood change
+ * Check-ins also keep the raw energy/stress values and note
+ */
+export type MoodEntry = {
+  mood: MoodKey;
+  recordedAt: string; // ISO timestamp
+  checkIn?: MoodCheckIn;
+};
+
+/**
+ * loadStoredEntries: Reads the journal exactly as stored
+ * Entries this version can't show are kept, so writing back never drops them
+ */
+async function loadStoredEntries(): Promise<unknown[]> {
+  const entries = await StorageService.readJson<unknown>(
+    STORAGE_KEYS.MOOD_HISTORY,
+    [],
+  );
+  return Array.isArray(entries) ? entries : [];
+}
+
+/**
+ * loadMoodHistory: Reads all recorded moods, oldest first
+ * Entries with moods the app no longer knows are skipped (but stay stored)
+ */
+async function loadMoodHistory(): Promise<MoodEntry[]> {
+  const entries = (await loadStoredEntries()) as MoodEntry[];
+  return entries
+    .filter(entry => entry && isKnownMood(entry.mood))
+    .map(entry =>
+      entry.checkIn && !MoodService.isValidLevels(entry.checkIn)
+        ? { mood: entry.mood, recordedAt: entry.recordedAt }
+        : entry,
+    );
+}
+
+/**
+ * recordMood: Appends a mood change to the journal
+ * @param mood - Newly selected mood (closest theme for check-ins)
+ * @param checkIn - Raw check-in values, when the mood came from a check-in
+ * @returns Promise<MoodEntry> - The stored entry
+ */
+async function recordMood(
+  mood: MoodKey,
+  checkIn?: MoodCheckIn,
+): Promise<MoodEntry> {
+  const note = checkIn?.note?.trim();
+  const entry: MoodEntry = {
+    mood,
+    recordedAt: new Date().toISOString(),
+    ...(checkIn && {
+      checkIn: {
+        energy: checkIn.energy,
+        stress: checkIn.stress,
+        ...(note && { note }),
+      },
+    }),
+  };
+  const stored = await loadStoredEntries();
+  const next = [...stored, entry].slice(-CONSTS.JOURNAL.MAX_ENTRIES);
+  await StorageService.writeJson(STORAGE_KEYS.MOOD_HISTORY, next);
+  return entry;
+}
+
+/**
+ * getLastEntry: Most recent journal entry, used to restore state on launch
+ * @returns Promise<MoodEntry | undefined> - Last entry, or undefined if none recorded
+ */
+async function getLastEntry(): Promise<MoodEntry | undefined> {
+  const history = await loadMoodHistory();
+  return history[history.length - 1];
+}
+
+export default {
+  loadMoodHistory,
+  recordMood,
+  getLastEntry,
+};
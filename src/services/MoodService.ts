@@ -0,0 +1,94 @@
+/**
+ * MoodService: Which moods the user sees in the mood picker, and how
+ * two-axis check-ins map onto them
+ * Hidden moods stay valid for stored events and history; they are only left out of the picker
+ */
+import * as CONSTS from '../constants/app';
+import {
+  isKnownMood,
+  MOOD_LIST,
+  MoodKey,
+  MoodLevels,
+  MoodTheme,
+} from '../types/mood';
+import StorageService, { STORAGE_KEYS } from './StorageService';
+
+/**
+ * loadHiddenMoods: Reads moods the user removed from the picker
+ */
+async function loadHiddenMoods(): Promise<MoodKey[]> {
+  const stored = await StorageService.readJson<MoodKey[]>(
+    STORAGE_KEYS.HIDDEN_MOODS,
+    [],
+  );
+  return stored.filter(isKnownMood);
+}
+
+/**
+ * setMoodHidden: Hides or shows one mood in the picker
+ * At least one mood always stays visible
+ * @param mood - Mood to change
+ * @param hidden - true to hide
+ * @returns Promise<MoodKey[]> - Updated hidden moods
+ */
+async function setMoodHidden(
+  mood: MoodKey,
+  hidden: boolean,
+): Promise<MoodKey[]> {
+  const current = await loadHiddenMoods();
+  const next = hidden
+    ? [...current.filter(item => item !== mood), mood]
+    : current.filter(item => item !== mood);
+  if (next.length >= MOOD_LIST.length) return current;
+  await StorageService.writeJson(STORAGE_KEYS.HIDDEN_MOODS, next);
+  return next;
+}
+
+/**
+ * visibleMoods: Moods to show in the picker, in display order
+ * @param hidden - Moods the user hid
+ * @param activeMood - Always shown, even if hidden, so the selection stays visible
+ */
+function visibleMoods(hidden: MoodKey[], activeMood?: MoodKey): MoodTheme[] {
+  return MOOD_LIST.filter(
+    theme => theme.key === activeMood || !hidden.includes(theme.key),
+  );
+}
+
+/**
+ * isValidLevels: True if both check-in values are whole numbers in range
+ */
+function isValidLevels(levels?: Partial<MoodLevels>): levels is MoodLevels {
+  const inRange = (value?: number) =>
+    Number.isInteger(value) &&
+    (value as number) >= CONSTS.CHECK_IN.MIN_LEVEL &&
+    (value as number) <= CONSTS.CHECK_IN.MAX_LEVEL;
+  return !!levels && inRange(levels.energy) && inRange(levels.stress);
+}
+
+/**
+ * moodForLevels: Closest mood theme to a check-in, for theming the UI
+ * @param levels - Energy and stress values
+ * @param candidates - Moods to choose from (e.g., those visible in the picker)
+ * @returns MoodKey - Nearest mood by distance on the energy/stress pad
+ */
+function moodForLevels(
+  levels: MoodLevels,
+  candidates: MoodTheme[] = MOOD_LIST,
+): MoodKey {
+  const pool = candidates.length ? candidates : MOOD_LIST;
+  const distance = (theme: MoodTheme) =>
+    (theme.levels.energy - levels.energy) ** 2 +
+    (theme.levels.stress - levels.stress) ** 2;
+  return pool.reduce((best, theme) =>
+    distance(theme) < distance(best) ? theme : best,
+  ).key;
+}
+
+export default {
+  isValidLevels,
+  moodForLevels,
+  loadHiddenMoods,
+  setMoodHidden,
+  visibleMoods,
+};
@@ -0,0 +1,177 @@
+/**
+ * ScheduleService: Weekly working hours and quiet periods
+ * Slot detection only places suggestions inside the active windows
+ * this service derives for each day
+ */
+import * as CONSTS from '../constants/app';
+import {
+  DayHours,
+  DEFAULT_SCHEDULE,
+  QuietPeriod,
+  WeeklySchedule,
+} from '../types/schedule';
+import { atMinuteOfDay } from '../utils/date';
+import StorageService, { STORAGE_KEYS } from './StorageService';
+
+/**
+ * TimeWindow: A concrete stretch of time on one day
+ */
+export type TimeWindow = {
+  start: Date;
+  end: Date;
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * isValidRange: Start before end, within the day, and not too short
+ */
+function isValidRange(range: { start: number; end: number }): boolean {
+  return (
+    Number.isInteger(range?.start) &&
+    Number.isInteger(range?.end) &&
+    range.start >= 0 &&
+    range.end <= MINUTES_PER_DAY &&
+    range.end - range.start >= CONSTS.SCHEDULE.MIN_WINDOW_MINUTES
+  );
+}
+
+/**
+ * quietLength: Minutes a quiet period covers, counting across midnight
+ */
+function quietLength(range: { start: number; end: number }): number {
+  return range.end > range.start
+    ? range.end - range.start
+    : range.end + MINUTES_PER_DAY - range.start;
+}
+
+/**
+ * isValidQuietRange: Like isValidRange, but the end may come before the start
+ * for periods that run past midnight (e.g., 22:00 to 07:00)
+ */
+function isValidQuietRange(range: { start: number; end: number }): boolean {
+  return (
+    Number.isInteger(range?.start) &&
+    Number.isInteger(range?.end) &&
+    range.start >= 0 &&
+    range.start < MINUTES_PER_DAY &&
+    range.end >= 0 &&
+    range.end <= MINUTES_PER_DAY &&
+    range.start !== range.end &&
+    quietLength(range) >= CONSTS.SCHEDULE.MIN_WINDOW_MINUTES
+  );
+}
+
+/**
+ * quietParts: The stretches of one day a quiet period covers
+ * A period past midnight covers the end of the day and its start
+ */
+function quietParts(period: QuietPeriod): { start: number; end: number }[] {
+  if (period.start < period.end) {
+    return [{ start: period.start, end: period.end }];
+  }
+  return [
+    { start: period.start, end: MINUTES_PER_DAY },
+    { start: 0, end: period.end },
+  ].filter(part => part.end > part.start);
+}
+
+/**
+ * isValidSchedule: Checks a stored or user-edited schedule
+ * Needs seven days and at least one working day
+ */
+function isValidSchedule(schedule: WeeklySchedule): boolean {
+  return (
+    Array.isArray(schedule?.days) &&
+    schedule.days.length === 7 &&
+    schedule.days.every(
+      (day: DayHours) => typeof day?.enabled === 'boolean' && isValidRange(day),
+    ) &&
+    schedule.days.some(day => day.enabled) &&
+    Array.isArray(schedule.quietPeriods) &&
+    schedule.quietPeriods.every(
+      (period: QuietPeriod) =>
+        !!period?.id &&
+        typeof period.enabled === 'boolean' &&
+        isValidQuietRange(period),
+    )
+  );
+}
+
+/**
+ * loadSchedule: Reads the stored schedule, falling back to the defaults
+ */
+async function loadSchedule(): Promise<WeeklySchedule> {
+  const stored = await StorageService.readJson<WeeklySchedule | null>(
+    STORAGE_KEYS.WEEKLY_SCHEDULE,
+    null,
+  );
+  return stored && isValidSchedule(stored) ? stored : DEFAULT_SCHEDULE;
+}
+
+/**
+ * saveSchedule: Persists the schedule
+ * @throws Error if the schedule is invalid
+ */
+async function saveSchedule(schedule: WeeklySchedule): Promise<void> {
+  if (!isValidSchedule(schedule)) {
+    throw new Error('Invalid schedule');
+  }
+  await StorageService.writeJson(STORAGE_KEYS.WEEKLY_SCHEDULE, schedule);
+}
+
+/**
+ * activeWindows: Working hours for a day with quiet periods cut out
+ * @param schedule - Weekly schedule
+ * @param day - Any time on the day
+ * @returns TimeWindow[] - Windows in order; empty on off days
+ */
+function activeWindows(schedule: WeeklySchedule, day: Date): TimeWindow[] {
+  const hours = schedule.days[day.getDay()];
+  if (!hours?.enabled) return [];
+
+  let ranges = [{ start: hours.start, end: hours.end }];
+  schedule.quietPeriods
+    .filter(period => period.enabled)
+    .flatMap(quietParts)
+    .forEach(quiet => {
+      ranges = ranges.flatMap(range => {
+        if (quiet.end <= range.start || quiet.start >= range.end) {
+          return [range];
+        }
+        return [
+          { start: range.start, end: quiet.start },
+          { start: quiet.end, end: range.end },
+        ].filter(part => part.end > part.start);
+      });
+    });
+
+  return ranges
+    .sort((a, b) => a.start - b.start)
+    .map(range => ({
+      start: atMinuteOfDay(day, range.start),
+      end: atMinuteOfDay(day, range.end),
+    }));
+}
+
+/**
+ * isWithinSchedule: Whether a time range sits entirely inside one active window
+ */
+function isWithinSchedule(
+  schedule: WeeklySchedule,
+  start: Date,
+  end: Date,
+): boolean {
+  return activeWindows(schedule, start).some(
+    window => start >= window.start && end <= window.end,
+  );
+}
+
+export default {
+  isValidSchedule,
+  isValidQuietRange,
+  loadSchedule,
+  saveSchedule,
+  activeWindows,
+  isWithinSchedule,
+};
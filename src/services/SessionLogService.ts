@@ -0,0 +1,187 @@
+/**
+ * SessionLogService: Records whether scheduled wellness sessions happened
+ * Outcomes are stored locally per occurrence, so each instance of a
+ * recurring series can be marked on its own
+ *
+ * The mood reported after a session is stored with its outcome, so it can
+ * be compared with the userMood captured when the event was scheduled
+ *
+ * Outcomes are keyed by event id and start, so they are moved along when an
+ * event is rescheduled or restored under a new id. Reads and writes run one
+ * at a time, so a move never overwrites an outcome saved meanwhile.
+ */
+import { MoodKey } from '../types/mood';
+import { createQueue } from '../utils/queue';
+import { BusyEvent } from './CalendarService';
+import StorageService, { STORAGE_KEYS } from './StorageService';
+
+export type SessionStatus = 'completed' | 'partial' | 'skipped';
+
+/**
+ * SessionOutcome: What happened during a scheduled session
+ */
+export type SessionOutcome = {
+  status: SessionStatus;
+  minutes: number; // Minutes actually spent (0 when skipped)
+  recordedAt: string; // ISO timestamp
+  moodAfter?: MoodKey; // Mood reported right after the session
+};
+
+type OutcomeMap = Record<string, SessionOutcome>;
+
+/**
+ * OutcomeRef: The event (or one occurrence of it) outcomes are stored for
+ * Without a start date it stands for every occurrence of the event
+ */
+export type OutcomeRef = {
+  id: string;
+  startDate?: string;
+};
+
+/**
+ * outcomeKey: Identifies one occurrence of an event
+ */
+function outcomeKey(event: Pick<BusyEvent, 'id' | 'startDate'>) {
+  return `${event.id}@${event.startDate}`;
+}
+
+/**
+ * enqueue: Runs a task after every load and write queued before it
+ */
+const enqueue = createQueue();
+
+/**
+ * readOutcomes: Reads stored outcomes; only call from a queued task
+ */
+async function readOutcomes(): Promise<OutcomeMap> {
+  return StorageService.readJson<OutcomeMap>(STORAGE_KEYS.SESSION_OUTCOMES, {});
+}
+
+/**
+ * loadOutcomes: Reads all recorded outcomes keyed by occurrence
+ * Waits for queued writes, so the result always includes them
+ */
+function loadOutcomes(): Promise<OutcomeMap> {
+  return enqueue(readOutcomes);
+}
+
+/**
+ * recordOutcome: Stores the outcome for an event occurrence
+ * Without explicit minutes, shortened sessions count half of the scheduled minutes
+ * @param event - App-created event
+ * @param status - What happened
+ * @param actualMinutes - Minutes actually spent (e.g., measured by the session player)
+ * @param moodAfter - Mood reported at the end of the session, if asked
+ * @returns Promise<SessionOutcome> - The stored outcome
+ */
+async function recordOutcome(
+  event: BusyEvent,
+  status: SessionStatus,
+  actualMinutes?: number,
+  moodAfter?: MoodKey,
+): Promise<SessionOutcome> {
+  const scheduled = Math.round(
+    (new Date(event.endDate).getTime() - new Date(event.startDate).getTime()) /
+      60000,
+  );
+  const minutes =
+    actualMinutes !== undefined
+      ? actualMinutes
+      : status === 'completed'
+      ? scheduled
+      : status === 'partial'
+      ? Math.round(scheduled / 2)
+      : 0;
+  const outcome: SessionOutcome = {
+    status,
+    minutes,
+    recordedAt: new Date().toISOString(),
+    ...(moodAfter && status !== 'skipped' ? { moodAfter } : {}),
+  };
+
+  await enqueue(async () =>
+    StorageService.writeJson(STORAGE_KEYS.SESSION_OUTCOMES, {
+      ...(await readOutcomes()),
+      [outcomeKey(event)]: outcome,
+    }),
+  );
+  return outcome;
+}
+
+/**
+ * recordMoodAfter: Adds the post-session mood to an already logged occurrence
+ * @param event - App-created event with a logged outcome
+ * @param moodAfter - Mood reported after the session
+ * @returns Promise<SessionOutcome> - The updated outcome
+ * @throws Error if the occurrence has no outcome yet
+ */
+async function recordMoodAfter(
+  event: BusyEvent,
+  moodAfter: MoodKey,
+): Promise<SessionOutcome> {
+  return enqueue(async () => {
+    const outcomes = await readOutcomes();
+    const key = outcomeKey(event);
+    if (!outcomes[key]) {
+      throw new Error('Session outcome not found');
+    }
+    const outcome: SessionOutcome = { ...outcomes[key], moodAfter };
+    await StorageService.writeJson(STORAGE_KEYS.SESSION_OUTCOMES, {
+      ...outcomes,
+      [key]: outcome,
+    });
+    return outcome;
+  });
+}
+
+/**
+ * moveOutcomes: Carries logged outcomes over to an event's new id or start
+ * Outcomes already stored under the new key are replaced
+ * @param from - Event or occurrence the outcomes were logged for
+ * @param to - New id, and the new start when moving a single occurrence
+ */
+function moveOutcomes(from: OutcomeRef, to: OutcomeRef): Promise<void> {
+  return enqueue(async () => {
+    const outcomes = await readOutcomes();
+    const prefix = `${from.id}@`;
+    const kept: OutcomeMap = {};
+    const moved: OutcomeMap = {};
+    Object.entries(outcomes).forEach(([key, outcome]) => {
+      const startDate = key.startsWith(prefix)
+        ? key.slice(prefix.length)
+        : null;
+      if (!startDate || (from.startDate && startDate !== from.startDate)) {
+        kept[key] = outcome;
+        return;
+      }
+      moved[outcomeKey({ id: to.id, startDate: to.startDate ?? startDate })] =
+        outcome;
+    });
+    if (!Object.keys(moved).length) return;
+    await StorageService.writeJson(STORAGE_KEYS.SESSION_OUTCOMES, {
+      ...kept,
+      ...moved,
+    });
+  });
+}
+
+/**
+ * attachOutcomes: Copies stored outcomes onto matching events
+ */
+function attachOutcomes(events: BusyEvent[], outcomes: OutcomeMap) {
+  return events.map(event => {
+    const outcome = event.isAppCreated
+      ? outcomes[outcomeKey(event)]
+      : undefined;
+    return outcome ? { ...event, outcome } : event;
+  });
+}
+
+export default {
+  outcomeKey,
+  loadOutcomes,
+  recordOutcome,
+  recordMoodAfter,
+  moveOutcomes,
+  attachOutcomes,
+};
@@ -0,0 +1,115 @@
+/**
+ * SettingsService: User-adjustable tunables (planning horizon, slot lengths,
+ * dayparts, reminders)
+ *
+ * Settings are cached in memory once loaded, so the calendar service can read
+ * them synchronously while scanning for slots
+ */
+import * as CONSTS from '../constants/app';
+import { AppSettings, DEFAULT_SETTINGS } from '../types/settings';
+import StorageService, { STORAGE_KEYS } from './StorageService';
+
+/**
+ * SETTING_OPTIONS: Choices for each setting; stored values must fall
+ * between the smallest and largest choice
+ */
+export const SETTING_OPTIONS: Record<keyof AppSettings, readonly number[]> = {
+  daysToFetch: CONSTS.SETTINGS.DAYS_TO_FETCH_OPTIONS,
+  shortMinutes: CONSTS.SETTINGS.SHORT_MINUTES_OPTIONS,
+  longMinutes: CONSTS.SETTINGS.LONG_MINUTES_OPTIONS,
+  minFutureBufferMinutes: CONSTS.SETTINGS.FUTURE_BUFFER_OPTIONS,
+  suggestionsPerDay: CONSTS.SETTINGS.SUGGESTIONS_PER_DAY_OPTIONS,
+  maxSlots: CONSTS.SETTINGS.MAX_SLOTS_OPTIONS,
+  morningEndHour: CONSTS.SETTINGS.MORNING_END_OPTIONS,
+  afternoonEndHour: CONSTS.SETTINGS.AFTERNOON_END_OPTIONS,
+  reminderMinutes: CONSTS.SETTINGS.REMINDER_OPTIONS,
+};
+
+const SETTING_KEYS = Object.keys(DEFAULT_SETTINGS) as Array<keyof AppSettings>;
+
+let current: AppSettings = DEFAULT_SETTINGS;
+
+/**
+ * isValidValue: Whether one setting is a whole number within its range
+ */
+function isValidValue(key: keyof AppSettings, value: unknown): boolean {
+  const options = SETTING_OPTIONS[key];
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= Math.min(...options) &&
+    value <= Math.max(...options)
+  );
+}
+
+/**
+ * isValidSettings: Checks every value and the rules between them
+ * - The short slot is shorter than the long one
+ * - Morning ends before afternoon does
+ * - A day never shows more suggestions than a scan keeps
+ */
+function isValidSettings(settings: AppSettings): boolean {
+  return (
+    !!settings &&
+    SETTING_KEYS.every(key => isValidValue(key, settings[key])) &&
+    settings.shortMinutes < settings.longMinutes &&
+    settings.morningEndHour < settings.afternoonEndHour &&
+    settings.suggestionsPerDay <= settings.maxSlots
+  );
+}
+
+/**
+ * getSettings: Current settings (defaults until loadSettings has run)
+ */
+function getSettings(): AppSettings {
+  return current;
+}
+
+/**
+ * loadSettings: Reads stored settings into the cache
+ * Unknown or out-of-range values fall back to their defaults; if the result
+ * still breaks a rule between values, every setting is reset
+ * @returns Promise<AppSettings> - Settings now in effect
+ */
+async function loadSettings(): Promise<AppSettings> {
+  const stored = await StorageService.readJson<Partial<AppSettings>>(
+    STORAGE_KEYS.APP_SETTINGS,
+    {},
+  );
+  const merged = SETTING_KEYS.reduce<AppSettings>(
+    (acc, key) =>
+      isValidValue(key, stored?.[key]) ? { ...acc, [key]: stored[key] } : acc,
+    { ...DEFAULT_SETTINGS },
+  );
+  current = isValidSettings(merged) ? merged : DEFAULT_SETTINGS;
+  return current;
+}
+
+/**
+ * saveSettings: Persists settings and updates the cache
+ * @throws Error if the settings are invalid
+ */
+async function saveSettings(settings: AppSettings): Promise<void> {
+  if (!isValidSettings(settings)) {
+    throw new Error('Invalid settings');
+  }
+  await StorageService.writeJson(STORAGE_KEYS.APP_SETTINGS, settings);
+  current = settings;
+}
+
+/**
+ * resetSettings: Forgets stored settings and returns the defaults
+ */
+async function resetSettings(): Promise<AppSettings> {
+  await StorageService.remove(STORAGE_KEYS.APP_SETTINGS);
+  current = DEFAULT_SETTINGS;
+  return current;
+}
+
+export default {
+  isValidSettings,
+  getSettings,
+  loadSettings,
+  saveSettings,
+  resetSettings,
+};
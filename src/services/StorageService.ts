@@ -0,0 +1,71 @@
+/**
+ * StorageService: Thin JSON wrapper around on-device key/value storage
+ * Used to persist user preferences and local app data across launches
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * STORAGE_KEYS: Every key the app writes, in one place
+ */
+export const STORAGE_KEYS = {
+  CALENDAR_PREFERENCES: '@wellness/calendar-preferences',
+  APP_CALENDAR_ID: '@wellness/app-calendar-id',
+  MOOD_HISTORY: '@wellness/mood-history',
+  SESSION_OUTCOMES: '@wellness/session-outcomes',
+  BREATHING_PATTERNS: '@wellness/breathing-patterns',
+  CUSTOM_EXERCISES: '@wellness/custom-exercises',
+  HIDDEN_MOODS: '@wellness/hidden-moods',
+  WEEKLY_SCHEDULE: '@wellness/weekly-schedule',
+  APP_SETTINGS: '@wellness/app-settings',
+  APP_EVENT_REGISTRY: '@wellness/app-event-registry',
+} as const;
+
+export type StorageKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS];
+
+/**
+ * readJson: Reads and parses a stored value
+ * @param key - Storage key
+ * @param fallback - Returned when nothing is stored or the value is unreadable
+ * @returns Promise<T> - Stored value or fallback
+ */
+async function readJson<T>(key: StorageKey, fallback: T): Promise<T> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    if (!raw) return fallback;
+    return JSON.parse(raw) as T;
+  } catch (err) {
+    console.warn(`Failed to read ${key} from storage`, err);
+    return fallback;
+  }
+}
+
+/**
+ * writeJson: Serializes and stores a value
+ * @param key - Storage key
+ * @param value - Any JSON-serializable value
+ */
+async function writeJson<T>(key: StorageKey, value: T): Promise<void> {
+  await AsyncStorage.setItem(key, JSON.stringify(value));
+}
+
+/**
+ * remove: Deletes a stored value
+ * @param key - Storage key
+ */
+async function remove(key: StorageKey): Promise<void> {
+  await AsyncStorage.removeItem(key);
+}
+
+/**
+ * clearAll: Deletes every value the app has stored
+ */
+async function clearAll(): Promise<void> {
+  await AsyncStorage.multiRemove(Object.values(STORAGE_KEYS));
+}
+
+export default {
+  readJson,
+  writeJson,
+  remove,
+  clearAll,
+};
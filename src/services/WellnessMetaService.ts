@@ -0,0 +1,256 @@
+/**
+ * WellnessMetaService: Versioned metadata stored in the notes of app-created events
+ *
+ * Metadata is one `WellnessMeta:` line of JSON at the end of the notes. The
+ * notes are editable in any calendar app, so reading is defensive:
+ * - Every field is validated; invalid ones are dropped and reported
+ * - Fields from newer app versions are kept and written back untouched
+ * - Text typed before or after the JSON on the same line is ignored
+ * Payloads without a version (written before versioning) are read as v1 and
+ * rewritten by CalendarService.migrateWellnessEvents
+ */
+import { MoodKey, MoodLevels } from '../types/mood';
+import { WeekdayCode, WellnessRecurrence } from './CalendarService';
+import MoodService from './MoodService';
+
+export const META_PREFIX = 'WellnessMeta:';
+export const META_VERSION = 1;
+
+/**
+ * WellnessMeta: Payload fields known to this app version (schema v1)
+ */
+export type WellnessMeta = {
+  exerciseId?: string;
+  exercise?: string; // Display name; only written by older app versions
+  exerciseMood?: MoodKey;
+  slotId?: string;
+  userMood?: MoodKey;
+  userLevels?: MoodLevels;
+  seriesId?: string;
+  recurrence?: WellnessRecurrence;
+};
+
+/**
+ * MetaStatus: What reading the notes found
+ * - none: no metadata line
+ * - current: valid metadata at this app's version (or a newer one)
+ * - outdated: valid metadata written before versioning
+ * - repaired: readable, but fields were dropped or text had to be stripped
+ * - unreadable: a metadata line whose JSON could not be recovered
+ */
+export type MetaStatus =
+  | 'none'
+  | 'current'
+  | 'outdated'
+  | 'repaired'
+  | 'unreadable';
+
+/**
+ * MetaReadResult: Parsed metadata plus everything needed to write it back
+ */
+export type MetaReadResult = {
+  status: MetaStatus;
+  meta: WellnessMeta | null; // null for none/unreadable
+  version: number; // Stored version; 0 when the payload had none
+  dropped: string[]; // Known fields removed because their values were invalid
+  extras: Record<string, unknown>; // Unknown fields, kept for newer app versions
+};
+
+type FieldValidator = (value: unknown) => boolean;
+
+const WEEKDAY_CODES: WeekdayCode[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const isText: FieldValidator = value =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * isValidRecurrence: Frequency plus optional weekdays, end date or count
+ */
+const isValidRecurrence: FieldValidator = value => {
+  if (!value || typeof value !== 'object') return false;
+  const recurrence = value as Partial<WellnessRecurrence>;
+  return (
+    (recurrence.frequency === 'daily' || recurrence.frequency === 'weekly') &&
+    (recurrence.daysOfWeek === undefined ||
+      (Array.isArray(recurrence.daysOfWeek) &&
+        recurrence.daysOfWeek.every(day => WEEKDAY_CODES.includes(day)))) &&
+    (recurrence.until === undefined ||
+      !Number.isNaN(new Date(recurrence.until).getTime())) &&
+    (recurrence.count === undefined ||
+      (Number.isInteger(recurrence.count) && recurrence.count > 0))
+  );
+};
+
+/**
+ * FIELD_VALIDATORS: Schema v1; every known field and how to check it
+ */
+const FIELD_VALIDATORS: Record<keyof WellnessMeta, FieldValidator> = {
+  exerciseId: isText,
+  exercise: isText,
+  exerciseMood: isText,
+  slotId: isText,
+  userMood: isText,
+  userLevels: value =>
+    MoodService.isValidLevels(value as Partial<MoodLevels> | undefined),
+  seriesId: isText,
+  recurrence: isValidRecurrence,
+};
+
+const EMPTY_RESULT: MetaReadResult = {
+  status: 'none',
+  meta: null,
+  version: 0,
+  dropped: [],
+  extras: {},
+};
+
+/**
+ * validateMeta: Splits a raw payload into valid known fields, dropped fields
+ * and unknown fields
+ * @param payload - Parsed JSON object from the notes
+ */
+function validateMeta(payload: Record<string, unknown>) {
+  const meta: WellnessMeta = {};
+  const dropped: string[] = [];
+  const extras: Record<string, unknown> = {};
+
+  Object.entries(payload).forEach(([key, value]) => {
+    if (key === 'v' || value === undefined || value === null) return;
+    const validator = FIELD_VALIDATORS[key as keyof WellnessMeta];
+    if (!validator) {
+      extras[key] = value;
+    } else if (validator(value)) {
+      (meta as Record<string, unknown>)[key] = value;
+    } else {
+      dropped.push(key);
+    }
+  });
+
+  return { meta, dropped, extras };
+}
+
+/**
+ * parsePayload: Parses the JSON after the prefix
+ * Falls back to the outermost braces when the user typed around the JSON
+ * @returns The object and whether text had to be stripped, or null
+ */
+function parsePayload(text: string) {
+  const attempt = (candidate: string) => {
+    try {
+      const value: unknown = JSON.parse(candidate);
+      return value && typeof value === 'object' && !Array.isArray(value)
+        ? (value as Record<string, unknown>)
+        : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const direct = attempt(text);
+  if (direct) return { payload: direct, salvaged: false };
+
+  const open = text.indexOf('{');
+  const close = text.lastIndexOf('}');
+  if (open === -1 || close <= open) return null;
+  const salvaged = attempt(text.slice(open, close + 1));
+  return salvaged ? { payload: salvaged, salvaged: true } : null;
+}
+
+/**
+ * readMeta: Finds, parses and validates the metadata line in event notes
+ * When the line appears more than once, the first readable one wins
+ * @param notes - Event notes (iOS) or description (Android)
+ * @returns MetaReadResult - Never throws
+ */
+function readMeta(notes?: string | null): MetaReadResult {
+  if (!notes || typeof notes !== 'string') return EMPTY_RESULT;
+  const lines = notes
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.startsWith(META_PREFIX));
+  if (!lines.length) return EMPTY_RESULT;
+
+  for (const line of lines) {
+    const parsed = parsePayload(line.slice(META_PREFIX.length).trim());
+    if (!parsed) continue;
+
+    const { meta, dropped, extras } = validateMeta(parsed.payload);
+    const version =
+      Number.isInteger(parsed.payload.v) && (parsed.payload.v as number) > 0
+        ? (parsed.payload.v as number)
+        : 0;
+    let status: MetaStatus = 'current';
+    if (parsed.salvaged || dropped.length || lines.length > 1) {
+      status = 'repaired';
+    } else if (version < META_VERSION) {
+      status = 'outdated';
+    }
+    return { status, meta, version, dropped, extras };
+  }
+
+  return { ...EMPTY_RESULT, status: 'unreadable' };
+}
+
+/**
+ * parseMeta: Valid metadata fields from event notes, or null
+ */
+function parseMeta(notes?: string | null): WellnessMeta | null {
+  return readMeta(notes).meta;
+}
+
+/**
+ * needsMigration: Whether the notes should be rewritten in the current format
+ */
+function needsMigration(result: MetaReadResult): boolean {
+  return result.status === 'outdated' || result.status === 'repaired';
+}
+
+/**
+ * formatMeta: Builds the metadata line
+ * Unknown fields are written back before known ones so known fields always
+ * win, and a newer stored version is kept so older app versions never
+ * downgrade it
+ * @param meta - Known fields
+ * @param previous - What was read from the notes, if anything
+ */
+function formatMeta(
+  meta: WellnessMeta,
+  previous: Pick<MetaReadResult, 'extras' | 'version'> = EMPTY_RESULT,
+): string {
+  const payload = {
+    v: Math.max(previous.version, META_VERSION),
+    ...previous.extras,
+    ...meta,
+  };
+  return `${META_PREFIX}${JSON.stringify(payload)}`;
+}
+
+/**
+ * replaceMeta: Swaps the metadata line in event notes
+ * Anything the user wrote in the notes survives; stray or duplicate
+ * metadata lines are removed
+ * @param notes - Current event notes
+ * @param metaLine - Line built by formatMeta
+ * @param fallbackNotes - Used when the notes hold nothing but metadata
+ * @returns Notes with exactly one metadata line, at the end
+ */
+function replaceMeta(
+  notes: string,
+  metaLine: string,
+  fallbackNotes: string,
+): string {
+  const userNotes = notes
+    .split('\n')
+    .filter(line => !line.trim().startsWith(META_PREFIX))
+    .join('\n')
+    .trimEnd();
+  return [userNotes || fallbackNotes, metaLine].join('\n');
+}
+
+export default {
+  readMeta,
+  parseMeta,
+  needsMigration,
+  formatMeta,
+  replaceMeta,
+};
@@ -0,0 +1,55 @@
+export type BreathPhaseKind = 'inhale' | 'holdIn' | 'exhale' | 'holdOut';
+
+/**
+ * BreathPhase: One step of a breathing cycle
+ */
+export type BreathPhase = {
+  kind: BreathPhaseKind;
+  seconds: number;
+};
+
+/**
+ * BreathingPattern: Ordered phases repeated for the whole session
+ */
+export type BreathingPattern = {
+  id: string;
+  name: string;
+  phases: BreathPhase[];
+  isCustom?: boolean; // Created by the user
+};
+
+export const BUILT_IN_PATTERNS: BreathingPattern[] = [
+  {
+    id: 'box',
+    name: 'Box 4-4-4-4',
+    phases: [
+      { kind: 'inhale', seconds: 4 },
+      { kind: 'holdIn', seconds: 4 },
+      { kind: 'exhale', seconds: 4 },
+      { kind: 'holdOut', seconds: 4 },
+    ],
+  },
+  {
+    id: 'relax-478',
+    name: '4-7-8',
+    phases: [
+      { kind: 'inhale', seconds: 4 },
+      { kind: 'holdIn', seconds: 7 },
+      { kind: 'exhale', seconds: 8 },
+    ],
+  },
+  {
+    id: 'coherent',
+    name: 'Coherent 5.5',
+    phases: [
+      { kind: 'inhale', seconds: 5.5 },
+      { kind: 'exhale', seconds: 5.5 },
+    ],
+  },
+];
+
+// Exercises that open the breathing pacer, with their default pattern
+export const EXERCISE_PATTERN_IDS: Record<string, string> = {
+  breathwork: 'coherent',
+  'box-breathing': 'box',
+};
@@ -0,0 +1,23 @@
+import { MoodKey } from './mood';
+
+export type ExerciseIntensity = 'low' | 'medium' | 'high';
+
+export type ExerciseSetting = 'indoor' | 'outdoor' | 'either';
+
+/**
+ * Exercise: One wellness activity the user can schedule
+ * `id` is stable and stored in event metadata; `name` is for display only
+ */
+export type Exercise = {
+  id: string;
+  name: string;
+  moods: MoodKey[]; // Moods it suits; the first one themes the event
+  minMinutes: number;
+  maxMinutes: number;
+  intensity: ExerciseIntensity;
+  setting: ExerciseSetting;
+  instructions: string[]; // Steps shown by the session player
+  equipment: string[];
+  defaultMinutes?: number; // Duration preselected when the exercise is picked
+  isCustom?: boolean; // Created by the user
+};
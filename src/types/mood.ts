@@ -1,10 +1,31 @@
 import { MOOD_COLORS } from '../constants/colors';
+import { STRINGS } from '../constants/strings';
 
-export type MoodKey = 'Calm' | 'Stressed' | 'Energetic';
+/**
+ * MoodKey: Identifies a mood theme. Moods are data, so any string may appear in
+ * stored events or history; use isKnownMood/resolveMood before theming with it.
+ */
+export type MoodKey = string;
+
+/**
+ * MoodLevels: Raw check-in values, each from CHECK_IN.MIN_LEVEL to CHECK_IN.MAX_LEVEL
+ */
+export type MoodLevels = {
+  energy: number;
+  stress: number;
+};
+
+/**
+ * MoodCheckIn: Two-axis check-in with an optional free-text note
+ */
+export type MoodCheckIn = MoodLevels & {
+  note?: string;
+};
 
 export type MoodTheme = {
   key: MoodKey;
   title: string;
+  levels: MoodLevels; // Where the mood sits on the check-in pad
   gradient: [string, string];
   cardGradient: [string, string];
   primary: string;
@@ -12,44 +33,120 @@ export type MoodTheme = {
   shadow: string;
   paceMs: number;
   amplitude: number;
-  exercises: string[];
+  breathingMs: {
+    header: number; // Active mood pill
+    suggestion: number; // Suggestion cards
+    busy: number; // Busy list cards
+  };
 };
 
-export const MOOD_THEMES: Record<MoodKey, MoodTheme> = {
-  Calm: {
-    key: 'Calm',
-    title: 'Calm',
-    gradient: [MOOD_COLORS.CALM.GRADIENT_START, MOOD_COLORS.CALM.GRADIENT_END],
-    cardGradient: [MOOD_COLORS.CALM.CARD_GRADIENT_START, MOOD_COLORS.CALM.CARD_GRADIENT_END],
-    primary: MOOD_COLORS.CALM.PRIMARY,
-    accent: MOOD_COLORS.CALM.ACCENT,
-    shadow: MOOD_COLORS.CALM.SHADOW,
-    paceMs: 2800,
-    amplitude: 6,
-    exercises: ['Breathwork', 'Light Stretch', 'Calm Walk'],
-  },
-  Stressed: {
-    key: 'Stressed',
-    title: 'Stressed',
-    gradient: [MOOD_COLORS.STRESSED.GRADIENT_START, MOOD_COLORS.STRESSED.GRADIENT_END],
-    cardGradient: [MOOD_COLORS.STRESSED.CARD_GRADIENT_START, MOOD_COLORS.STRESSED.CARD_GRADIENT_END],
-    primary: MOOD_COLORS.STRESSED.PRIMARY,
-    accent: MOOD_COLORS.STRESSED.ACCENT,
-    shadow: MOOD_COLORS.STRESSED.SHADOW,
-    paceMs: 900,
-    amplitude: 12,
-    exercises: ['Box Breathing', 'Slow Walk', 'Neck Release'],
-  },
-  Energetic: {
-    key: 'Energetic',
-    title: 'Energetic',
-    gradient: [MOOD_COLORS.ENERGETIC.GRADIENT_START, MOOD_COLORS.ENERGETIC.GRADIENT_END],
-    cardGradient: [MOOD_COLORS.ENERGETIC.CARD_GRADIENT_START, MOOD_COLORS.ENERGETIC.CARD_GRADIENT_END],
-    primary: MOOD_COLORS.ENERGETIC.PRIMARY,
-    accent: MOOD_COLORS.ENERGETIC.ACCENT,
-    shadow: MOOD_COLORS.ENERGETIC.SHADOW,
-    paceMs: 1400,
-    amplitude: 14,
-    exercises: ['HIIT Burst', 'Dance Break', 'Power Walk'],
-  },
-};
+type MoodPalette = (typeof MOOD_COLORS)[keyof typeof MOOD_COLORS];
+
+const buildTheme = (
+  key: MoodKey,
+  title: string,
+  colors: MoodPalette,
+  levels: MoodLevels,
+  motion: Pick<MoodTheme, 'paceMs' | 'amplitude' | 'breathingMs'>,
+): MoodTheme => ({
+  key,
+  title,
+  levels,
+  gradient: [colors.GRADIENT_START, colors.GRADIENT_END],
+  cardGradient: [colors.CARD_GRADIENT_START, colors.CARD_GRADIENT_END],
+  primary: colors.PRIMARY,
+  accent: colors.ACCENT,
+  shadow: colors.SHADOW,
+  ...motion,
+});
+
+// Display order of the mood pills
+export const MOOD_LIST: MoodTheme[] = [
+  buildTheme(
+    'Calm',
+    STRINGS.MOODS.CALM,
+    MOOD_COLORS.CALM,
+    { energy: 3, stress: 1 },
+    {
+      paceMs: 2800,
+      amplitude: 6,
+      breathingMs: { header: 1800, suggestion: 2025, busy: 4000 },
+    },
+  ),
+  buildTheme(
+    'Stressed',
+    STRINGS.MOODS.STRESSED,
+    MOOD_COLORS.STRESSED,
+    { energy: 4, stress: 5 },
+    {
+      paceMs: 900,
+      amplitude: 12,
+      breathingMs: { header: 563, suggestion: 675, busy: 1400 },
+    },
+  ),
+  buildTheme(
+    'Energetic',
+    STRINGS.MOODS.ENERGETIC,
+    MOOD_COLORS.ENERGETIC,
+    { energy: 5, stress: 3 },
+    {
+      paceMs: 1400,
+      amplitude: 14,
+      breathingMs: { header: 1013, suggestion: 1125, busy: 2400 },
+    },
+  ),
+  buildTheme(
+    'Tired',
+    STRINGS.MOODS.TIRED,
+    MOOD_COLORS.TIRED,
+    { energy: 1, stress: 2 },
+    {
+      paceMs: 3200,
+      amplitude: 5,
+      breathingMs: { header: 2000, suggestion: 2250, busy: 4400 },
+    },
+  ),
+  buildTheme(
+    'Anxious',
+    STRINGS.MOODS.ANXIOUS,
+    MOOD_COLORS.ANXIOUS,
+    { energy: 2, stress: 5 },
+    {
+      paceMs: 1100,
+      amplitude: 10,
+      breathingMs: { header: 700, suggestion: 850, busy: 1700 },
+    },
+  ),
+  buildTheme(
+    'Focused',
+    STRINGS.MOODS.FOCUSED,
+    MOOD_COLORS.FOCUSED,
+    { energy: 4, stress: 2 },
+    {
+      paceMs: 2000,
+      amplitude: 8,
+      breathingMs: { header: 1400, suggestion: 1600, busy: 3000 },
+    },
+  ),
+];
+
+export const MOOD_THEMES: Record<MoodKey, MoodTheme> = Object.fromEntries(
+  MOOD_LIST.map(theme => [theme.key, theme]),
+);
+
+export const DEFAULT_MOOD: MoodKey = 'Calm';
+
+/**
+ * isKnownMood: True if the value names a mood theme
+ */
+export const isKnownMood = (value: unknown): value is MoodKey =>
+  typeof value === 'string' &&
+  Object.prototype.hasOwnProperty.call(MOOD_THEMES, value);
+
+/**
+ * resolveMood: Maps stored values to a known mood, for data written by other app versions
+ */
+export const resolveMood = (
+  value: unknown,
+  fallback: MoodKey = DEFAULT_MOOD,
+): MoodKey => (isKnownMood(value) ? value : fallback);
@@ -0,0 +1,46 @@
+import * as CONSTS from '../constants/app';
+
+/**
+ * DayHours: Working hours for one weekday, in minutes after midnight
+ */
+export type DayHours = {
+  enabled: boolean; // Off days get no suggestions
+  start: number; // e.g., 510 for 8:30
+  end: number; // e.g., 1065 for 17:45
+};
+
+/**
+ * QuietPeriod: A daily stretch that never gets suggestions (lunch, wind-down)
+ */
+export type QuietPeriod = {
+  id: string;
+  enabled: boolean;
+  start: number; // Minutes after midnight
+  end: number; // Before start for periods that run past midnight
+};
+
+/**
+ * WeeklySchedule: When suggestions may be placed
+ * `days` is indexed like Date.getDay(), so Sunday comes first
+ */
+export type WeeklySchedule = {
+  days: DayHours[];
+  quietPeriods: QuietPeriod[];
+};
+
+const DEFAULT_DAY: DayHours = {
+  enabled: true,
+  start: CONSTS.CALENDAR.DAY_START_HOUR * 60,
+  end: CONSTS.CALENDAR.DAY_END_HOUR * 60,
+};
+
+export const DEFAULT_SCHEDULE: WeeklySchedule = {
+  days: Array.from({ length: 7 }, () => ({ ...DEFAULT_DAY })),
+  quietPeriods: [
+    { id: 'lunch', enabled: false, start: 12 * 60, end: 13 * 60 },
+    { id: 'wind-down', enabled: false, start: 21 * 60, end: 22 * 60 },
+  ],
+};
+
+// Monday first, for display
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
@@ -0,0 +1,36 @@
+import * as CONSTS from '../constants/app';
+
+/**
+ * AppSettings: Tunables the user can change on the Settings screen
+ */
+export type AppSettings = {
+  daysToFetch: number; // Planning horizon in days
+  shortMinutes: number; // Shortest suggested slot
+  longMinutes: number; // Longest suggested slot
+  minFutureBufferMinutes: number; // Suggestions start at least this far from now
+  suggestionsPerDay: number; // Slots shown for the selected day
+  maxSlots: number; // Cap on ranked slots from one scan
+  morningEndHour: number; // Daypart boundaries, also used for background tinting
+  afternoonEndHour: number;
+  reminderMinutes: number; // Alarm before app-created events; 0 for none
+};
+
+/**
+ * DaypartHours: The settings that split a day into morning/afternoon/evening
+ */
+export type DaypartHours = Pick<
+  AppSettings,
+  'morningEndHour' | 'afternoonEndHour'
+>;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  daysToFetch: CONSTS.CALENDAR.DAYS_TO_FETCH,
+  shortMinutes: CONSTS.DURATIONS.SHORT,
+  longMinutes: CONSTS.DURATIONS.LONG,
+  minFutureBufferMinutes: CONSTS.CALENDAR.MIN_FUTURE_BUFFER_MINUTES,
+  suggestionsPerDay: CONSTS.CALENDAR.SUGGESTIONS_PER_DAY,
+  maxSlots: CONSTS.SLOT_SCORING.MAX_SLOTS,
+  morningEndHour: CONSTS.TIME_OF_DAY.MORNING_END,
+  afternoonEndHour: CONSTS.TIME_OF_DAY.AFTERNOON_END,
+  reminderMinutes: CONSTS.CALENDAR.REMINDER_MINUTES,
+};
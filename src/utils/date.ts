@@ -0,0 +1,86 @@
+/**
+ * Date helpers shared by the calendar service and screens
+ */
+import { Daypart } from '../constants/app';
+import { DaypartHours, DEFAULT_SETTINGS } from '../types/settings';
+
+/** Returns a new Date set to midnight (start of day) */
+export function startOfDay(date: Date) {
+  const copy = new Date(date);
+  copy.setHours(0, 0, 0, 0);
+  return copy;
+}
+
+/** Returns a new Date set to the last millisecond of the day */
+export function endOfDay(date: Date) {
+  const copy = new Date(date);
+  copy.setHours(23, 59, 59, 999);
+  return copy;
+}
+
+/** Returns a new Date with specified days added */
+export function addDays(date: Date, days: number) {
+  const copy = new Date(date);
+  copy.setDate(copy.getDate() + days);
+  return copy;
+}
+
+/** Returns a new Date set to specific hour (with minutes/seconds/ms zeroed) */
+export function setHour(date: Date, hour: number) {
+  const copy = new Date(date);
+  copy.setHours(hour, 0, 0, 0);
+  return copy;
+}
+
+/** Returns a new Date at a minute of the day, kept local on DST change days */
+export function atMinuteOfDay(date: Date, minutes: number) {
+  const copy = new Date(date);
+  copy.setHours(0, minutes, 0, 0);
+  return copy;
+}
+
+/** Calculates difference in minutes between two dates (non-negative) */
+export function diffMinutes(start: Date, end: Date) {
+  return Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000));
+}
+
+/** Counts calendar days from one date to another (whole days, DST-safe) */
+export function diffDays(start: Date, end: Date) {
+  const startDay = Date.UTC(
+    start.getFullYear(),
+    start.getMonth(),
+    start.getDate(),
+  );
+  const endDay = Date.UTC(end.getFullYear(), end.getMonth(), end.getDate());
+  return Math.round((endDay - startDay) / (24 * 60 * 60 * 1000));
+}
+
+/** Checks if two dates are on the same calendar day */
+export function isSameDay(value: Date, reference: Date) {
+  return (
+    value.getFullYear() === reference.getFullYear() &&
+    value.getMonth() === reference.getMonth() &&
+    value.getDate() === reference.getDate()
+  );
+}
+
+/** Buckets a time into morning/afternoon/evening */
+export function daypartFor(
+  date: Date,
+  hours: DaypartHours = DEFAULT_SETTINGS,
+): Daypart {
+  const hour = date.getHours();
+  if (hour < hours.morningEndHour) return 'morning';
+  if (hour < hours.afternoonEndHour) return 'afternoon';
+  return 'evening';
+}
+
+/** Checks if two time ranges overlap */
+export function rangesOverlap(
+  startA: Date,
+  endA: Date,
+  startB: Date,
+  endB: Date,
+) {
+  return startA < endB && startB < endA;
+}
@@ -0,0 +1,17 @@
+/**
+ * Serial task queue for services that read, change and write back one
+ * stored value
+ */
+
+/**
+ * Returns an enqueue function: each task runs after every task queued
+ * before it, even one that failed
+ */
+export function createQueue() {
+  let queue: Promise<unknown> = Promise.resolve();
+  return function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+}